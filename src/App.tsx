@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import {
@@ -22,14 +23,34 @@ import {
   TextInput,
 } from '@mantine/core';
 import { useMediaQuery } from '@mantine/hooks';
-import { IconArrowLeft, IconHome, IconCalendar, IconUsers, IconList, IconShare, IconHelp } from '@tabler/icons-react';
+import { IconArrowLeft, IconHome, IconCalendar, IconUsers, IconList, IconShare, IconHelp, IconTrophy, IconTournament } from '@tabler/icons-react';
 import { getTeams, addTeam, updateTeam, getTeamColors } from './db/teams';
-import { getPlayersByTeam, addPlayer as dbAddPlayer, updatePlayer as dbUpdatePlayer, deletePlayer as dbDeletePlayer } from './db/players';
-import { saveFinishedMatch, stateToMatchSnapshot, listMatches, getMatch, saveScheduledMatch, updateMatch } from './db/matches';
-import { getRostersByTeam, getRosterEntries, createRoster, updateRosterEntry, deleteRoster } from './db/rosters';
-import { getPlayer } from './db/players';
+import { oppositionFixtures, roundRobinFixtures, saveFixtureDrafts, WEEKDAYS, type FixtureDraft, type FixturePlan } from './db/fixtureScheduler';
+import { applyFixtureImport, buildFixtureImportRows, fixturesIcs, fixturesIcsFileName, parseIcs, type FixtureImportAction, type IcsEvent } from './db/ical';
+import { addCompetition, computeLeagueTable, deleteCompetition, getCompetitionMatches, getCompetitions, setMatchCompetition, updateCompetition, DEFAULT_POINTS_RULES, type LeagueTableRow } from './db/competitions';
+import { getPlayersByTeam, getAllPlayers, addPlayer as dbAddPlayer, updatePlayer as dbUpdatePlayer, deletePlayer as dbDeletePlayer } from './db/players';
+import { saveFinishedMatch, stateToMatchSnapshot, listMatches, getMatch, saveScheduledMatch, updateMatch, saveLiveMatch, getUnfinishedMatches, discardUnfinishedMatch, updateCompletedMatchLog } from './db/matches';
+import { describeLogEvent, logPlayerIds, periodEndScores, placeLogEvent, scoreFromLog, scorersByHeading } from './db/matchLog';
+import { parseCsv } from './db/csv';
+import { matchFileBaseName, matchLogCsv, matchLogCsvFileName, seasonSummaryCsv, seasonSummaryCsvFileName } from './db/csvExports';
+import { formatVideoTime, parseVideoTime, playedPeriods, srt, videoMarkers, webVtt, youtubeChapters } from './db/videoChapters';
+import { applyPlayerImport, buildPlayerImportRows, guessColumnMapping, looksLikeHeader, PLAYER_IMPORT_FIELDS, type PlayerColumnMapping, type PlayerImportAction } from './db/playerImport';
+import { exportBackup, backupFileName, parseBackup, restoreBackup, backupCounts, type BackupFile, type RestoreMode } from './db/backup';
+import { computeCareerStats, diffPlayerStats, rebuildAllPlayerStats, type PlayerStatsDiff } from './db/stats';
+import { createTournament, deleteTournament, drawKnockouts, getTournamentMatches, getTournaments, poolsComplete, poolStandings, TOURNAMENT_POINTS_RULES, type NewTournament } from './db/tournaments';
+import { knockoutRoundName, knockoutWinner, setKnockoutWinner } from './db/knockout';
+import { currentSeason, deleteSeason, filterBySeason, getSeasons, saveSeason, seasonBounds, seasonChoices, toDateString, type SeasonRange } from './db/seasons';
+import { KICK_TYPE_RULES, formatKickRecord, kickingByPlayer, kickingOverMatches, playerKickingByMatch, rankKickers, UNASSIGNED_KICKER, type KickingStats } from './db/kicking';
+import { getRostersByTeam, getRosterEntries, createRoster, updateRosterEntry, deleteRoster, setRosterCaptain } from './db/rosters';
+import { buildTeamSheetRows, getRosterCaptainNumber, getScheduledMatchSquad, getScheduledMatchTeamSheets, type TeamSheet, type TeamSheetRow } from './db/teamSheet';
+import { getPlayer, getPlayerNameMap } from './db/players';
 import { clearAllData, seedReedsDemoData, seedEnglandDemoData } from './db/seed';
-import type { Player as DbPlayer, Match as DbMatch, LogEvent, Team as DbTeam } from './db/types';
+import { UNION_RULES, RULE_SETS, withRuleSetDefaults, getMatchRuleSet, getDefaultPosition, getScoreTypeRule, countsAsTry, getScoreLabel } from './db/rules';
+import { reduceMatchEvents, logToEvents, type MatchEventState } from './db/events';
+import { decidesSuddenDeath, NEW_PERIOD_CLOCK, redoEvent, startedClock, stoppedClock, undoEvent } from './db/undo';
+import { buildPeriodPlan, cupExtraTimePeriods, getMatchPeriods, getNextPeriod, getPeriod, getPeriodLabel, getPeriodShortLabel, getSuddenDeathWinner, normalTimePeriods, ruleExtraTimePeriods, withNormalTimeDuration } from './db/periods';
+import { getElapsedSeconds, isClockRunning, clockRunsFromElapsed } from './db/clock';
+import type { Player as DbPlayer, Match as DbMatch, LogEvent, Team as DbTeam, RuleSet, ScoreType, ClockRun, MatchPeriod, LiveMatchState, MatchEvent, CorrectionEvent, ScoreEvent, CardEvent, SubstitutionEvent as Substitution, SystemEvent, CardReturnEvent, MatchSquadPlayer, Competition, CompetitionPointsRules, Season, Tournament } from './db/types';
 
 // Types
 interface Player {
@@ -41,7 +62,7 @@ interface Player {
   team: 'home' | 'away';
 }
 
-/** One slot in the Select Team wizard lineup (1–15 + subs). playerId absent = placeholder, no DB stats. */
+/** One slot in the Select Team wizard lineup (starters + subs, e.g. 1–15 + 16–23). playerId absent = placeholder, no DB stats. */
 export interface LineupSlot {
   number: number;
   position: string;
@@ -49,97 +70,68 @@ export interface LineupSlot {
   name: string;
 }
 
-interface ScoreEvent {
-  id: string;
-  timestamp: number;
-  team: 'home' | 'away';
-  type: 'try' | 'conversion' | 'penalty' | 'drop-goal' | 'penalty-try';
-  points: number;
-  player?: string;
-  half: number;
-  minute: number;
-  matchTime: number;
-  pending?: boolean;
-}
-
-interface Card {
-  id: string;
-  timestamp: number;
-  team: 'home' | 'away';
-  player: string;
-  type: 'yellow' | 'red';
-  half: number;
-  minute: number;
-  matchTime: number;
-  returnTime?: number;
-  returned?: boolean;
-}
-
-interface Substitution {
-  id: string;
-  timestamp: number;
-  team: 'home' | 'away';
-  offPlayerId: string;
-  onPlayerId: string;
-  half: number;
-  minute: number;
-  matchTime: number;
-}
-
-interface SystemEvent {
-  id: string;
-  timestamp: number;
-  type: 'match-start' | 'half-time' | 'match-end';
-  half: number;
-  matchTime: number;
-}
-
-interface CardReturnEvent {
-  id: string;
-  timestamp: number;
-  cardId: string;
-  team: 'home' | 'away';
-  playerId: string;
-  matchTime: number;
-}
-
 interface MatchConfig {
   homeTeam: string;
   awayTeam: string;
+  /** Saved teams picked in setup, so the match counts for them (league tables, linking to competitions). */
+  homeTeamId?: string;
+  awayTeamId?: string;
   homeColor: string;
   awayColor: string;
   halfDuration: number;
   playerTracking: boolean;
   cardTracking: boolean;
   substitutions: boolean;
+  /** Scoring rules (points per score type, sin-bin length, periods). */
+  ruleSet: RuleSet;
+  /** Period plan: named periods with lengths, in order (see db/periods.ts). */
+  periods: MatchPeriod[];
   competition?: string;
+  /** Competition picked in setup (competition holds its name). */
+  competitionId?: string;
   venue?: string;
   referee?: string;
 }
 
-interface MatchState extends MatchConfig {
-  homeScore: number;
-  awayScore: number;
-  scoreEvents: ScoreEvent[];
-  cards: Card[];
+// Card event in the live store (type-only name; Mantine's Card component is the value)
+type Card = CardEvent;
+
+// Score, event lists, period and lastTryTeam are derived from `events` by reduceMatchEvents (db/events.ts)
+interface MatchState extends MatchConfig, MatchEventState {
+  /** Append-only event stream: the source of truth for the live match. */
+  events: MatchEvent[];
+  /** Undone events, most recent last; cleared by any new action. */
+  redoEvents: MatchEvent[];
   players: Player[];
-  substitutionEvents: Substitution[];
-  systemEvents: SystemEvent[];
-  cardReturnEvents: CardReturnEvent[];
-  currentHalf: number;
+  /** Seconds on the clock this period; cached from clockRuns on each tick for rendering. */
   elapsedSeconds: number;
   injuryTime: number;
   isRunning: boolean;
-  lastTryTeam: 'home' | 'away' | null;
+  /** Wall-clock runs of the match clock in the current period (see db/clock.ts). */
+  clockRuns: ClockRun[];
   matchStarted: boolean;
   /** When starting from a scheduled match, we update this row on End instead of creating new. */
   currentMatchId: string | null;
 }
 
+// Store update that replaces the event stream and everything derived from it
+function withEvents(events: MatchEvent[], ruleSet: RuleSet): Pick<MatchState, 'events' | keyof MatchEventState> {
+  return { events, ...reduceMatchEvents(events, ruleSet) };
+}
+
+function newCorrection(eventId: string, action: CorrectionEvent['action'], playerId?: string): CorrectionEvent {
+  return { kind: 'correction', id: crypto.randomUUID(), timestamp: Date.now(), eventId, action, playerId };
+}
+
+// Store update for a new action: append its event and drop the redo stack
+function appendEvent(state: Pick<MatchState, 'events' | 'ruleSet'>, event: MatchEvent): Pick<MatchState, 'events' | 'redoEvents' | keyof MatchEventState> {
+  return { ...withEvents([...state.events, event], state.ruleSet), redoEvents: [] };
+}
+
 // Zustand Store with full persistence
 const useMatchStore = create<MatchState & {
   addScore: (team: 'home' | 'away', type: ScoreEvent['type'], player?: string, pending?: boolean) => void;
-  addMissedKick: (team: 'home' | 'away', type: 'conversion' | 'penalty' | 'drop-goal', player?: string) => void;
+  addMissedKick: (team: 'home' | 'away', type: ScoreType, player?: string) => void;
   addCard: (team: 'home' | 'away', player: string, type: 'yellow' | 'red') => void;
   addPlayer: (player: Omit<Player, 'id'>) => void;
   setPlayers: (players: Player[]) => void;
@@ -153,14 +145,18 @@ const useMatchStore = create<MatchState & {
   removeCard: (cardId: string) => void;
   removeSubstitution: (subId: string) => void;
   undo: () => void;
+  redo: () => void;
   toggleTimer: () => void;
   tick: () => void;
   addInjuryTime: () => void;
+  addTackle: () => void;
+  resetTackles: () => void;
   nextHalf: () => void;
   updateConfig: (config: Partial<MatchConfig>) => void;
   startMatch: () => void;
   endMatch: () => void;
   setCurrentMatchId: (id: string | null) => void;
+  resumeMatch: (match: DbMatch) => void;
   showSubstitutionModal: boolean;
   setShowSubstitutionModal: (v: boolean) => void;
 }>()(
@@ -169,20 +165,14 @@ const useMatchStore = create<MatchState & {
       // Match state
       homeTeam: 'Home',
       awayTeam: 'Away',
-      homeScore: 0,
-      awayScore: 0,
-      scoreEvents: [],
-      cards: [],
+      ...withEvents([], UNION_RULES),
+      redoEvents: [],
       players: [],
-      substitutionEvents: [],
-      systemEvents: [],
-      cardReturnEvents: [],
-      currentHalf: 1,
       elapsedSeconds: 0,
       injuryTime: 0,
       isRunning: false,
+      clockRuns: [],
       halfDuration: 40 * 60,
-      lastTryTeam: null,
       matchStarted: false,
       currentMatchId: null,
 
@@ -192,6 +182,8 @@ const useMatchStore = create<MatchState & {
       playerTracking: true,
       cardTracking: true,
       substitutions: false,
+      ruleSet: UNION_RULES,
+      periods: buildPeriodPlan(UNION_RULES, 40 * 60),
       competition: '',
       venue: '',
       referee: '',
@@ -200,122 +192,122 @@ const useMatchStore = create<MatchState & {
       
       startMatch: () => {
         const ev: SystemEvent = {
+          kind: 'system',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           type: 'match-start',
           half: 1,
           matchTime: 0,
         };
-        set({ matchStarted: true, systemEvents: [ev] });
+        set((state) => ({ matchStarted: true, ...withEvents([ev], state.ruleSet), redoEvents: [], elapsedSeconds: 0, isRunning: false, clockRuns: [] }));
       },
 
-      endMatch: () => set((state) => {
-        const closeEv: SystemEvent = {
-          id: crypto.randomUUID(),
-          timestamp: Date.now(),
-          type: 'match-end',
-          half: state.currentHalf,
-          matchTime: state.elapsedSeconds,
-        };
-        return {
-          matchStarted: false,
-          homeScore: 0,
-          awayScore: 0,
-          scoreEvents: [],
-          cards: [],
-          players: [],
-          substitutionEvents: [],
-          systemEvents: [...state.systemEvents, closeEv],
-          cardReturnEvents: [],
-          currentHalf: 1,
-          elapsedSeconds: 0,
-          injuryTime: 0,
-          isRunning: false,
-          lastTryTeam: null,
-          currentMatchId: null,
-        };
-      }),
+      endMatch: () => set((state) => ({
+        matchStarted: false,
+        ...withEvents([], state.ruleSet),
+        redoEvents: [],
+        players: [],
+        elapsedSeconds: 0,
+        injuryTime: 0,
+        isRunning: false,
+        clockRuns: [],
+        currentMatchId: null,
+      })),
       setCurrentMatchId: (id) => set({ currentMatchId: id }),
+
+      // Restore an autosaved 'playing' match (crash recovery); the clock carries on from its saved runs
+      resumeMatch: (match) => {
+        const live = match.live;
+        const clockRuns = live?.clockRuns ?? clockRunsFromElapsed(match.elapsedSeconds, false);
+        const ruleSet = getMatchRuleSet(match);
+        set({
+          homeTeam: match.homeTeamName,
+          awayTeam: match.awayTeamName,
+          homeTeamId: match.homeTeamId,
+          awayTeamId: match.awayTeamId,
+          homeColor: match.homeColor,
+          awayColor: match.awayColor,
+          halfDuration: match.halfDuration,
+          competition: match.competition ?? '',
+          competitionId: match.competitionId,
+          venue: match.venue ?? '',
+          referee: match.referee ?? '',
+          playerTracking: match.config?.playerTracking ?? true,
+          cardTracking: match.config?.cardTracking ?? true,
+          substitutions: match.config?.substitutions ?? false,
+          ruleSet,
+          periods: getMatchPeriods(match),
+          ...withEvents(live?.events ?? logToEvents(match.log), ruleSet),
+          redoEvents: [],
+          players: live?.players ?? [],
+          injuryTime: match.injuryTime ?? 0,
+          clockRuns,
+          isRunning: isClockRunning(clockRuns),
+          elapsedSeconds: getElapsedSeconds(clockRuns),
+          matchStarted: true,
+          currentMatchId: match.id,
+        });
+      },
       showSubstitutionModal: false,
       setShowSubstitutionModal: (v) => set({ showSubstitutionModal: v }),
 
       addSubstitution: (team, offPlayerId, onPlayerId, onPlayer) => {
         const state = get();
+        const matchTime = getElapsedSeconds(state.clockRuns);
         const sub: Substitution = {
+          kind: 'substitution',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           team,
           offPlayerId,
           onPlayerId,
           half: state.currentHalf,
-          minute: Math.floor(state.elapsedSeconds / 60),
-          matchTime: state.elapsedSeconds,
+          minute: Math.floor(matchTime / 60),
+          matchTime,
         };
         const hasOnPlayer = state.players.some((p) => p.id === onPlayerId);
-        if (!hasOnPlayer && onPlayer) {
-          set({
-            substitutionEvents: [...state.substitutionEvents, sub],
-            players: [...state.players, onPlayer],
-          });
-        } else {
-          set({ substitutionEvents: [...state.substitutionEvents, sub] });
-        }
+        set({
+          ...appendEvent(state, sub),
+          ...(!hasOnPlayer && onPlayer ? { players: [...state.players, onPlayer] } : {}),
+        });
         if ('vibrate' in navigator) navigator.vibrate(50);
       },
 
       updateScoreEventPlayer: (eventId, playerId) => {
-        set((state) => ({
-          scoreEvents: state.scoreEvents.map((e) =>
-            e.id === eventId ? { ...e, player: playerId } : e
-          ),
-        }));
+        set((state) => appendEvent(state, newCorrection(eventId, 'set-player', playerId)));
       },
 
       removeScoreEvent: (eventId) => {
-        set((state) => {
-          const scoreEvents = state.scoreEvents.filter((e) => e.id !== eventId);
-          let homeScore = 0;
-          let awayScore = 0;
-          let lastTryTeam: 'home' | 'away' | null = null;
-          for (const e of scoreEvents) {
-            if (e.pending) continue;
-            if (e.team === 'home') homeScore += e.points ?? 0;
-            else awayScore += e.points ?? 0;
-            if (e.type === 'try' || e.type === 'penalty-try') lastTryTeam = e.team;
-            if (e.type === 'conversion') lastTryTeam = e.team;
-          }
-          return { scoreEvents, homeScore, awayScore, lastTryTeam };
-        });
+        set((state) => appendEvent(state, newCorrection(eventId, 'remove')));
       },
 
       removeCard: (cardId) => {
-        set((state) => ({ cards: state.cards.filter((c) => c.id !== cardId) }));
+        set((state) => appendEvent(state, newCorrection(cardId, 'remove')));
       },
 
       removeSubstitution: (subId) => {
-        set((state) => ({ substitutionEvents: state.substitutionEvents.filter((s) => s.id !== subId) }));
+        set((state) => appendEvent(state, newCorrection(subId, 'remove')));
       },
 
       addScore: (team, type, player, pending = false) => {
         const state = get();
+        const matchTime = getElapsedSeconds(state.clockRuns);
         
-        // Prevent conversion if no recent try or if last try was pending
-        if (type === 'conversion') {
+        const rule = getScoreTypeRule(state.ruleSet, type);
+        if (!rule) return;
+
+        // Prevent conversion if no recent try or if last try was pending (penalty tries are already converted)
+        if (rule.followsTry) {
           const lastTry = state.scoreEvents
-            .filter(e => e.type === 'try' && !e.pending)
+            .filter(e => !e.pending && countsAsTry(state.ruleSet, e.type) && !getScoreTypeRule(state.ruleSet, e.type)?.teamOnly)
             .slice(-1)[0];
           if (!lastTry || lastTry.team !== team) return;
         }
 
-        const points = {
-          'try': 5,
-          'conversion': 2,
-          'penalty': 3,
-          'drop-goal': 3,
-          'penalty-try': 7,
-        }[type];
+        const points = rule.points;
 
         const event: ScoreEvent = {
+          kind: 'score',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           team,
@@ -323,18 +315,16 @@ const useMatchStore = create<MatchState & {
           points,
           player,
           half: state.currentHalf,
-          minute: Math.floor(state.elapsedSeconds / 60),
-          matchTime: state.elapsedSeconds,
+          minute: Math.floor(matchTime / 60),
+          matchTime,
           pending,
         };
 
-        const scoreKey = team === 'home' ? 'homeScore' : 'awayScore';
-        const newScore = pending ? state[scoreKey] : state[scoreKey] + points;
+        const decidesMatch = decidesSuddenDeath(state, event);
         
         set({
-          [scoreKey]: newScore,
-          scoreEvents: [...state.scoreEvents, event],
-          lastTryTeam: (type === 'try' || type === 'penalty-try') && !pending ? team : null,
+          ...appendEvent(state, event),
+          ...(decidesMatch ? stoppedClock(state.clockRuns) : {}),
         });
         
         // Trigger haptic feedback
@@ -345,7 +335,9 @@ const useMatchStore = create<MatchState & {
 
       addMissedKick: (team, type, player) => {
         const state = get();
+        const matchTime = getElapsedSeconds(state.clockRuns);
         const event: ScoreEvent = {
+          kind: 'score',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           team,
@@ -353,29 +345,30 @@ const useMatchStore = create<MatchState & {
           points: 0,
           player,
           half: state.currentHalf,
-          minute: Math.floor(state.elapsedSeconds / 60),
-          matchTime: state.elapsedSeconds,
+          minute: Math.floor(matchTime / 60),
+          matchTime,
         };
-        set({ scoreEvents: [...state.scoreEvents, event] });
+        set(appendEvent(state, event));
         if ('vibrate' in navigator) navigator.vibrate(30);
       },
 
       addCard: (team, player, type) => {
         const state = get();
+        const matchTime = getElapsedSeconds(state.clockRuns);
         const card: Card = {
+          kind: 'card',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           team,
           player,
           type,
           half: state.currentHalf,
-          minute: Math.floor(state.elapsedSeconds / 60),
-          matchTime: state.elapsedSeconds,
-          returnTime: type === 'yellow' ? state.elapsedSeconds + 600 : undefined,
-          returned: false,
+          minute: Math.floor(matchTime / 60),
+          matchTime,
+          returnTime: type === 'yellow' ? matchTime + state.ruleSet.sinBinSeconds : undefined,
         };
 
-        set({ cards: [...state.cards, card] });
+        set(appendEvent(state, card));
         
         if ('vibrate' in navigator) {
           navigator.vibrate([100, 50, 100]);
@@ -412,17 +405,15 @@ const useMatchStore = create<MatchState & {
         const card = state.cards.find(c => c.id === cardId);
         if (!card) return;
         const returnEv: CardReturnEvent = {
+          kind: 'card-return',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           cardId,
           team: card.team,
           playerId: card.player,
-          matchTime: state.elapsedSeconds,
+          matchTime: getElapsedSeconds(state.clockRuns),
         };
-        set({
-          cards: state.cards.map(c => c.id === cardId ? { ...c, returned: true } : c),
-          cardReturnEvents: [...state.cardReturnEvents, returnEv],
-        });
+        set(appendEvent(state, returnEv));
       },
 
       resolvePendingEvent: (eventId, approved) => {
@@ -430,92 +421,87 @@ const useMatchStore = create<MatchState & {
         const event = state.scoreEvents.find(e => e.id === eventId);
         if (!event) return;
 
-        if (approved) {
-          const scoreKey = event.team === 'home' ? 'homeScore' : 'awayScore';
-          set({
-            scoreEvents: state.scoreEvents.map(e => 
-              e.id === eventId ? { ...e, pending: false } : e
-            ),
-            [scoreKey]: state[scoreKey] + event.points,
-            lastTryTeam: (event.type === 'try' || event.type === 'penalty-try') ? event.team : null,
-          });
-        } else {
-          set({
-            scoreEvents: state.scoreEvents.filter(e => e.id !== eventId)
-          });
-        }
+        const correction = newCorrection(eventId, approved ? 'approve' : 'reject');
+        set({
+          ...appendEvent(state, correction),
+          ...(decidesSuddenDeath(state, correction) ? stoppedClock(state.clockRuns) : {}),
+        });
       },
 
+      // Undo/redo step through the event stream (see db/undo.ts); the match-start event stays
       undo: () => {
-        const state = get();
-        const lastEvent = state.scoreEvents[state.scoreEvents.length - 1];
-        const lastCard = state.cards[state.cards.length - 1];
-        const lastSub = state.substitutionEvents[state.substitutionEvents.length - 1];
-
-        const lastEventTime = lastEvent?.timestamp || 0;
-        const lastCardTime = lastCard?.timestamp || 0;
-        const lastSubTime = lastSub?.timestamp || 0;
-
-        if (lastSubTime >= lastEventTime && lastSubTime >= lastCardTime && lastSub) {
-          set({ substitutionEvents: state.substitutionEvents.slice(0, -1) });
-        } else if (lastEventTime > lastCardTime && lastEventTime > lastSubTime && lastEvent) {
-          const scoreKey = lastEvent.team === 'home' ? 'homeScore' : 'awayScore';
-          const scoreAdjustment = lastEvent.pending ? 0 : lastEvent.points;
-          set({
-            [scoreKey]: state[scoreKey] - scoreAdjustment,
-            scoreEvents: state.scoreEvents.slice(0, -1),
-            lastTryTeam: lastEvent.type === 'conversion' ? lastEvent.team :
-                        state.scoreEvents[state.scoreEvents.length - 2]?.type === 'try' ?
-                        state.scoreEvents[state.scoreEvents.length - 2].team : null,
-          });
-        } else if (lastCard) {
-          set({ cards: state.cards.slice(0, -1) });
-        }
-
+        const update = undoEvent(get());
+        if (!update) return;
+        set(update);
         if ('vibrate' in navigator) navigator.vibrate(30);
       },
 
-      toggleTimer: () => set((state) => ({ isRunning: !state.isRunning })),
+      redo: () => {
+        const update = redoEvent(get());
+        if (update) set(update);
+      },
+
+      toggleTimer: () => set((state) => {
+        return state.isRunning ? stoppedClock(state.clockRuns) : startedClock(state.clockRuns);
+      }),
 
+      // Recompute from wall-clock time, so missed ticks (background tab, sleep, reload) catch up
       tick: () => {
         const state = get();
         if (!state.isRunning) return;
-        
-        const newElapsed = state.elapsedSeconds + 1;
-        set({ elapsedSeconds: newElapsed });
+        const elapsed = getElapsedSeconds(state.clockRuns);
+        if (elapsed !== state.elapsedSeconds) set({ elapsedSeconds: elapsed });
       },
 
       addInjuryTime: () => {
         set((state) => ({ injuryTime: state.injuryTime + 60 }));
       },
 
+      // Tackles are events too, so they can be undone; the count is derived (wraps to 0 after the last tackle)
+      addTackle: () => set((state) => appendEvent(state, { kind: 'tackle', id: crypto.randomUUID(), timestamp: Date.now(), action: 'tackle' })),
+
+      resetTackles: () => set((state) => appendEvent(state, { kind: 'tackle', id: crypto.randomUUID(), timestamp: Date.now(), action: 'handover' })),
+
+      // Moves to the next period in the plan; no-op once the plan is finished (the match can only be ended)
       nextHalf: () => set((state) => {
+        if (!getNextPeriod(state.periods, state.currentHalf, state.homeScore === state.awayScore)) return {};
         const halfEv: SystemEvent = {
+          kind: 'system',
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           type: 'half-time',
           half: state.currentHalf,
-          matchTime: state.elapsedSeconds,
-        };
-        return {
-          systemEvents: [...state.systemEvents, halfEv],
-          currentHalf: state.currentHalf + 1,
-          elapsedSeconds: 0,
-          injuryTime: 0,
-          isRunning: false,
+          matchTime: getElapsedSeconds(state.clockRuns),
+          periodClock: { clockRuns: state.clockRuns, injuryTime: state.injuryTime },
         };
+        return { ...appendEvent(state, halfEv), ...NEW_PERIOD_CLOCK };
       }),
     }),
     {
       name: 'rugby-match-storage',
-      version: 5,
+      version: 12,
       partialize: (state) => {
         const { showSubstitutionModal, setShowSubstitutionModal, ...rest } = state as typeof state & { showSubstitutionModal?: boolean; setShowSubstitutionModal?: (v: boolean) => void };
         return rest;
       },
       migrate: (state: unknown) => {
         const s = state as Record<string, unknown>;
-        return { ...s, cardReturnEvents: s.cardReturnEvents ?? [] };
+        // Before v8 the clock was a tick counter; rebuild it as one run ending now (still open if it was running)
+        const clockRuns = s.clockRuns ?? clockRunsFromElapsed(Number(s.elapsedSeconds ?? 0), !!s.isRunning);
+        // Before v12 a stored rule set could lack squad size, players on pitch and positions
+        const ruleSet = withRuleSetDefaults(s.ruleSet as Partial<RuleSet> | undefined);
+        const periods = s.periods ?? buildPeriodPlan(ruleSet, Number(s.halfDuration ?? 40 * 60));
+        // Before v10 events were kept in separate arrays; merge them into one stream in time order
+        const list = (key: string, kind: MatchEvent['kind']) =>
+          ((s[key] as Array<Record<string, unknown>> | undefined) ?? []).map((e) => ({ ...e, kind }) as MatchEvent);
+        const events = (s.events as MatchEvent[] | undefined) ?? [
+          ...list('systemEvents', 'system'),
+          ...list('scoreEvents', 'score'),
+          ...list('cards', 'card'),
+          ...list('substitutionEvents', 'substitution'),
+          ...list('cardReturnEvents', 'card-return'),
+        ].sort((a, b) => a.timestamp - b.timestamp);
+        return { ...s, ...withEvents(events, ruleSet), redoEvents: s.redoEvents ?? [], ruleSet, clockRuns, periods };
       },
     }
   )
@@ -565,16 +551,96 @@ function getSquadStatus(
   return { onPitch, onBench };
 }
 
-// Timer Effect
+// Timer Effect: ticks re-read the wall clock; also catch up as soon as the page is visible again
 const useTimer = () => {
   const tick = useMatchStore((state) => state.tick);
   
   useEffect(() => {
+    tick();
     const interval = setInterval(tick, 1000);
-    return () => clearInterval(interval);
+    const onVisible = () => {
+      if (document.visibilityState === 'visible') tick();
+    };
+    document.addEventListener('visibilitychange', onVisible);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', onVisible);
+    };
   }, [tick]);
 };
 
+// Live state that is not in the match log (see LiveMatchState)
+function stateToLiveState(state: MatchState): LiveMatchState {
+  return {
+    clockRuns: state.clockRuns,
+    players: state.players,
+    events: state.events,
+  };
+}
+
+// True when something worth autosaving changed (event stream, squads or clock start/stop; not the per-second tick)
+function hasLiveChange(state: MatchState, prev: MatchState): boolean {
+  return state.matchStarted !== prev.matchStarted ||
+    state.events !== prev.events ||
+    state.players !== prev.players ||
+    state.clockRuns !== prev.clockRuns ||
+    state.injuryTime !== prev.injuryTime;
+}
+
+// Live saves run one at a time, so the first one creates the row only once
+let liveSaveQueue: Promise<void> = Promise.resolve();
+
+// Queue a save of the match on screen (as it is when the save runs) to its 'playing' row
+function queueLiveSave(): Promise<void> {
+  liveSaveQueue = liveSaveQueue.then(async () => {
+    const current = useMatchStore.getState();
+    if (!current.matchStarted) return;
+    try {
+      const id = await saveLiveMatch(stateToMatchSnapshot(current), stateToLiveState(current), current.currentMatchId ?? undefined);
+      if (useMatchStore.getState().matchStarted && useMatchStore.getState().currentMatchId !== id) current.setCurrentMatchId(id);
+    } catch (e) {
+      console.error('Failed to autosave match', e);
+    }
+  });
+  return liveSaveQueue;
+}
+
+// Autosave: mirror the live match into a 'playing' row in IndexedDB as it changes, so it survives
+// a cleared cache or a localStorage failure, and so other matches can be brought on screen meanwhile.
+const useLiveMatchAutosave = () => {
+  useEffect(() => {
+    const unsubscribe = useMatchStore.subscribe((state, prev) => {
+      if (!state.matchStarted || !hasLiveChange(state, prev)) return;
+      queueLiveSave();
+    });
+    return unsubscribe;
+  }, []);
+};
+
+// Bring another 'playing' match on screen, or none (null) to start a new one. The match on screen is
+// saved first and keeps playing in the database: its clock runs on from its saved clock runs.
+async function switchLiveMatch(matchId: string | null): Promise<void> {
+  await queueLiveSave();
+  const store = useMatchStore.getState();
+  const next = matchId ? await getMatch(matchId) : undefined;
+  if (next?.status === 'playing') store.resumeMatch(next);
+  else if (!matchId) store.endMatch();
+}
+
+// End the match on screen: save it as completed over its 'playing' row and clear the live screen.
+// A queued autosave finishes first, so a first save still creating that row has set its id and the
+// result isn't saved as a second row.
+async function finishLiveMatch(): Promise<void> {
+  await queueLiveSave();
+  const state = useMatchStore.getState();
+  try {
+    await saveFinishedMatch(stateToMatchSnapshot(state), state.currentMatchId ?? undefined);
+  } catch (e) {
+    console.error('Failed to save match', e);
+  }
+  state.endMatch();
+}
+
 // Prevent sleep during match
 const useWakeLock = (isActive: boolean) => {
   useEffect(() => {
@@ -609,12 +675,6 @@ const formatTime = (seconds: number) => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
-const getHalfLabel = (half: number) => {
-  if (half === 1) return '1st Half';
-  if (half === 2) return '2nd Half';
-  return `${half}th Half`;
-};
-
 // Predefined color palette
 const TEAM_COLORS = [
   { name: 'Blue', value: '#3b82f6', contrast: '#ffffff' },
@@ -671,7 +731,7 @@ const ShirtIcon: React.FC<{ fill: string; selected?: boolean }> = ({ fill, selec
   </svg>
 );
 
-export type AppView = 'home' | 'setup' | 'players' | 'matches';
+export type AppView = 'home' | 'setup' | 'players' | 'matches' | 'competitions' | 'tournaments';
 
 const NavContext = React.createContext<((view: AppView) => void) | null>(null);
 
@@ -680,6 +740,7 @@ const NAV_ITEMS: { view: AppView; label: string; icon: React.ReactNode }[] = [
   { view: 'setup', label: 'Setup', icon: <IconCalendar size={22} /> },
   { view: 'players', label: 'Teams', icon: <IconUsers size={22} /> },
   { view: 'matches', label: 'Matches', icon: <IconList size={22} /> },
+  { view: 'competitions', label: 'Leagues', icon: <IconTrophy size={22} /> },
 ];
 
 const HEADER_BG = '#34e5eb';
@@ -769,6 +830,65 @@ const ShellLayout: React.FC<{
   );
 };
 
+/**
+ * Home page season at a glance: each of our teams' record (teams with a player pool) and the top try
+ * and points scorers. Opens on the current season; pick another to compare.
+ */
+const SeasonSummaryCard: React.FC = () => {
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [teams, setTeams] = useState<DbTeam[]>([]);
+  const [players, setPlayers] = useState<DbPlayer[]>([]);
+  const [seasonId, setSeasonId] = useState<string | null>(null);
+  const seasons = useSeasons();
+  useEffect(() => {
+    Promise.all([listMatches(), getTeams(), getAllPlayers()]).then(([m, t, p]) => {
+      setMatches(m);
+      setTeams(t);
+      setPlayers(p);
+    });
+  }, []);
+  if (matches.length === 0) return null;
+
+  const choices = seasonChoices(seasons, matches);
+  const selectedId = seasonId ?? (currentSeason(choices) ?? choices[0])?.id ?? '';
+  const season = choices.find((s) => s.id === selectedId);
+  const seasonMatches = filterBySeason(matches, season);
+  const ownTeams = teams.filter((t) => players.some((p) => p.teamId === t.id));
+  const records = computeLeagueTable(seasonMatches, ownTeams, DEFAULT_POINTS_RULES).filter((r) => r.played > 0);
+  const upcoming = seasonMatches.filter((m) => m.status === 'not_played').length;
+  const stats = computeCareerStats(seasonMatches);
+  const names = new Map(players.map((p) => [p.id, p.name]));
+  const leaders = (key: 'tries' | 'points') =>
+    Object.entries(stats)
+      .filter(([id, s]) => names.has(id) && s[key] > 0)
+      .sort(([, a], [, b]) => b[key] - a[key])
+      .slice(0, 3)
+      .map(([id, s]) => `${names.get(id)} ${s[key]}`)
+      .join(' · ');
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+
+  return (
+    <Card shadow="sm" padding="lg" radius="md" withBorder>
+      <Group justify="space-between" mb="sm">
+        <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle}>Season</Text>
+        <SeasonSelect seasons={choices} value={selectedId} onChange={setSeasonId} />
+      </Group>
+      <Stack gap={6}>
+        {records.length === 0 && <Text size="sm" c="dimmed">No results{season ? ` in ${season.name}` : ''} yet.</Text>}
+        {records.map((r) => (
+          <Text key={r.teamId} size="sm">
+            <b>{r.teamName}</b>{' '}
+            <Text span c="dimmed">P{r.played} W{r.won} D{r.drawn} L{r.lost} · {r.pointsFor}–{r.pointsAgainst}</Text>
+          </Text>
+        ))}
+        {upcoming > 0 && <Text size="sm" c="dimmed">{upcoming} fixture{upcoming === 1 ? '' : 's'} to play</Text>}
+        {leaders('tries') && <Text size="sm"><b>Tries:</b> {leaders('tries')}</Text>}
+        {leaders('points') && <Text size="sm"><b>Points:</b> {leaders('points')}</Text>}
+      </Stack>
+    </Card>
+  );
+};
+
 // Home / Start page – Mantine UI–inspired hero + workflow cards
 const HomePage: React.FC<{ onNavigate: (view: AppView) => void }> = ({ onNavigate }) => (
   <Box maw={560} mx="auto" py="xl">
@@ -798,6 +918,8 @@ const HomePage: React.FC<{ onNavigate: (view: AppView) => void }> = ({ onNavigat
         <Text size="xs" c="dimmed" mt="xs">Configure teams and start a match</Text>
       </Box>
 
+      <SeasonSummaryCard />
+
       {/* Section: Workflows (Mantine UI–style application cards) */}
       <Box pt="md">
         <Text
@@ -849,6 +971,44 @@ const HomePage: React.FC<{ onNavigate: (view: AppView) => void }> = ({ onNavigat
               </ActionIcon>
             </Group>
           </Card>
+          <Card
+            shadow="sm"
+            padding="lg"
+            radius="md"
+            withBorder
+            component="button"
+            onClick={() => onNavigate('competitions')}
+            style={{ textAlign: 'left', cursor: 'pointer' }}
+          >
+            <Group justify="space-between" wrap="nowrap">
+              <Box style={{ minWidth: 0 }}>
+                <Title order={4} mb={4}>Competitions</Title>
+                <Text size="sm" c="dimmed">Fixtures and league tables</Text>
+              </Box>
+              <ActionIcon variant="subtle" size="lg" radius="md" style={{ flexShrink: 0 }}>
+                <IconTrophy size={22} stroke={1.5} />
+              </ActionIcon>
+            </Group>
+          </Card>
+          <Card
+            shadow="sm"
+            padding="lg"
+            radius="md"
+            withBorder
+            component="button"
+            onClick={() => onNavigate('tournaments')}
+            style={{ textAlign: 'left', cursor: 'pointer' }}
+          >
+            <Group justify="space-between" wrap="nowrap">
+              <Box style={{ minWidth: 0 }}>
+                <Title order={4} mb={4}>Tournament day</Title>
+                <Text size="sm" c="dimmed">Pools, pool tables, cup and plate knockouts</Text>
+              </Box>
+              <ActionIcon variant="subtle" size="lg" radius="md" style={{ flexShrink: 0 }}>
+                <IconTournament size={22} stroke={1.5} />
+              </ActionIcon>
+            </Group>
+          </Card>
         </SimpleGrid>
       </Box>
     </Stack>
@@ -864,16 +1024,20 @@ const SelectTeamWizard: React.FC<{
   rosterOptions: Array<{ id: string; name: string }>;
   teamPlayers: DbPlayer[];
   currentLineup: LineupSlot[] | null;
+  /** Rule set decides starters (15 / 13 / 7), default subs and positions. */
+  ruleSet: RuleSet;
   onSave: (lineup: LineupSlot[]) => void;
   onClose: () => void;
-}> = ({ teamId, teamName, teamColor, rosterOptions, teamPlayers, currentLineup, onSave, onClose }) => {
-  const defaultSubsCount = 8;
+}> = ({ teamId, teamName, teamColor, rosterOptions, teamPlayers, currentLineup, ruleSet, onSave, onClose }) => {
+  const starters = ruleSet.playersOnPitch;
+  const defaultSubsCount = Math.max(0, ruleSet.squadSize - starters);
+  const pitchRows = getPitchRows(starters);
   const [step, setStep] = useState<'source' | 'grid'>('source');
   const [sourceChoice, setSourceChoice] = useState<'players' | 'roster' | 'default' | null>(null);
   const [selectedRosterIdForWizard, setSelectedRosterIdForWizard] = useState<string>('');
   const [subsCount, setSubsCount] = useState(defaultSubsCount);
   const [slots, setSlots] = useState<LineupSlot[]>(() => {
-    if (currentLineup && currentLineup.length >= 15) return currentLineup;
+    if (currentLineup && currentLineup.length >= starters) return currentLineup;
     return [];
   });
   const [editingSlot, setEditingSlot] = useState<number | null>(null);
@@ -893,17 +1057,17 @@ const SelectTeamWizard: React.FC<{
   const buildSlotsFromPlayers = () => {
     const sorted = [...teamPlayers].sort((a, b) => a.number - b.number);
     const result: LineupSlot[] = [];
-    for (let n = 1; n <= 15; n++) {
+    for (let n = 1; n <= starters; n++) {
       const p = sorted[n - 1];
       result.push({
         number: n,
-        position: DEFAULT_PLAYER_POSITIONS[n - 1] ?? 'Sub',
+        position: getDefaultPosition(ruleSet, n),
         playerId: p?.id,
         name: p?.name ?? `Player ${n}`,
       });
     }
-    for (let n = 16; n <= 15 + defaultSubsCount; n++) {
-      const p = sorted[15 + (n - 16)];
+    for (let n = starters + 1; n <= starters + defaultSubsCount; n++) {
+      const p = sorted[n - 1];
       result.push({
         number: n,
         position: 'Sub',
@@ -917,13 +1081,13 @@ const SelectTeamWizard: React.FC<{
   const buildSlotsFromRoster = async (rosterId: string) => {
     const entries = await getRosterEntries(rosterId);
     const result: LineupSlot[] = [];
-    for (let n = 1; n <= 15 + defaultSubsCount; n++) {
+    for (let n = 1; n <= starters + defaultSubsCount; n++) {
       const entry = entries.find((e) => e.number === n);
       const p = entry?.playerId ? await getPlayer(entry.playerId) : undefined;
       const usePlayer = p && (p as DbPlayer & { active?: boolean }).active !== false;
       result.push({
         number: n,
-        position: entry?.position ?? (DEFAULT_PLAYER_POSITIONS[n - 1] ?? 'Sub'),
+        position: entry?.position ?? getDefaultPosition(ruleSet, n),
         playerId: usePlayer ? p!.id : undefined,
         name: usePlayer ? p!.name : `Player ${n}`,
       });
@@ -933,10 +1097,10 @@ const SelectTeamWizard: React.FC<{
 
   const buildSlotsDefault = () => {
     const result: LineupSlot[] = [];
-    for (let n = 1; n <= 15 + defaultSubsCount; n++) {
+    for (let n = 1; n <= starters + defaultSubsCount; n++) {
       result.push({
         number: n,
-        position: DEFAULT_PLAYER_POSITIONS[n - 1] ?? 'Sub',
+        position: getDefaultPosition(ruleSet, n),
         name: `Player ${n}`,
       });
     }
@@ -966,14 +1130,14 @@ const SelectTeamWizard: React.FC<{
   };
 
   const ensureSlotsForSubs = () => {
-    const maxNum = 15 + subsCount;
+    const maxNum = starters + subsCount;
     setSlots((prev) => {
       const next = [...prev];
       for (let n = 1; n <= maxNum; n++) {
         if (!next.some((s) => s.number === n)) {
           next.push({
             number: n,
-            position: n <= 15 ? (DEFAULT_PLAYER_POSITIONS[n - 1] ?? 'Sub') : 'Sub',
+            position: getDefaultPosition(ruleSet, n),
             name: `Player ${n}`,
           });
         }
@@ -985,12 +1149,12 @@ const SelectTeamWizard: React.FC<{
   const handleDone = () => {
     const existingByNumber = new Map(slots.map((s) => [s.number, s]));
     const final: LineupSlot[] = [];
-    for (let n = 1; n <= 15 + subsCount; n++) {
+    for (let n = 1; n <= starters + subsCount; n++) {
       const s = existingByNumber.get(n);
       final.push(
         s ?? {
           number: n,
-          position: DEFAULT_PLAYER_POSITIONS[n - 1] ?? 'Sub',
+          position: getDefaultPosition(ruleSet, n),
           name: `Player ${n}`,
         }
       );
@@ -1002,7 +1166,7 @@ const SelectTeamWizard: React.FC<{
   const handleSaveAsRoster = async () => {
     if (!saveAsRosterName.trim()) return;
     ensureSlotsForSubs();
-    const rosterId = await createRoster(teamId, saveAsRosterName.trim());
+    const rosterId = await createRoster(teamId, saveAsRosterName.trim(), { slotCount: starters + subsCount, positions: ruleSet.positions });
     const entries = await getRosterEntries(rosterId);
     const playerByNumber = new Map(slots.map((s) => [s.number, s]));
     for (const entry of entries) {
@@ -1072,7 +1236,7 @@ const SelectTeamWizard: React.FC<{
           minHeight: 320,
         }}
       >
-        {PITCH_ROWS.map((row, rowIdx) => (
+        {pitchRows.map((row, rowIdx) => (
           <Group key={rowIdx} justify="center" gap="xs" mb="xs">
             {row.map((num) => {
               const slot = getSlot(num);
@@ -1104,7 +1268,7 @@ const SelectTeamWizard: React.FC<{
           </Group>
         ))}
         <Group justify="center" gap="xs" mt="sm">
-          {Array.from({ length: subsCount }, (_, i) => 16 + i).map((num) => {
+          {Array.from({ length: subsCount }, (_, i) => starters + 1 + i).map((num) => {
             const subSlot = getSlot(num);
             return (
               <button
@@ -1164,6 +1328,7 @@ const SelectTeamWizard: React.FC<{
           teamColor={teamColor}
           teamPlayers={teamPlayers}
           allSlots={slots}
+          ruleSet={ruleSet}
           onAssign={(primary, secondary) => {
             if (secondary) {
               setSlot(editingSlot, primary);
@@ -1177,7 +1342,7 @@ const SelectTeamWizard: React.FC<{
                   next = next.filter((s) => s.number !== prevSlot.number);
                   next.push({
                     number: prevSlot.number,
-                    position: prevSlot.number <= 15 ? (DEFAULT_PLAYER_POSITIONS[prevSlot.number - 1] ?? 'Sub') : 'Sub',
+                    position: getDefaultPosition(ruleSet, prevSlot.number),
                     name: `Player ${prevSlot.number}`,
                   });
                 }
@@ -1202,17 +1367,18 @@ const SlotEditorModal: React.FC<{
   teamColor: string;
   teamPlayers: DbPlayer[];
   allSlots: LineupSlot[];
+  ruleSet: RuleSet;
   onAssign: (primary: LineupSlot, secondary?: LineupSlot) => void;
   onClose: () => void;
-}> = ({ slotNumber, slot, teamId, teamPlayers, allSlots, onAssign, onClose }) => {
+}> = ({ slotNumber, slot, teamId, teamPlayers, allSlots, ruleSet, onAssign, onClose }) => {
   const [mode, setMode] = useState<'select' | 'add'>('select');
-  const [newPlayerForm, setNewPlayerForm] = useState({ name: '', number: String(slotNumber), position: DEFAULT_PLAYER_POSITIONS[slotNumber - 1] ?? 'Sub' });
+  const [newPlayerForm, setNewPlayerForm] = useState({ name: '', number: String(slotNumber), position: getDefaultPosition(ruleSet, slotNumber) });
 
   const usedPlayerIds = new Set(allSlots.filter((s) => s.playerId && s.number !== slotNumber).map((s) => s.playerId!));
   const notPicked = teamPlayers.filter((p) => !usedPlayerIds.has(p.id));
   const inLineup = teamPlayers.filter((p) => usedPlayerIds.has(p.id));
 
-  const positionFor = (num: number) => (num <= 15 ? (DEFAULT_PLAYER_POSITIONS[num - 1] ?? 'Sub') : 'Sub');
+  const positionFor = (num: number) => getDefaultPosition(ruleSet, num);
 
   const handleSelectPlayer = (player: DbPlayer, doSwap: boolean) => {
     const primary: LineupSlot = { number: slotNumber, position: positionFor(slotNumber), playerId: player.id, name: player.name };
@@ -1239,15 +1405,15 @@ const SlotEditorModal: React.FC<{
       name: newPlayerForm.name.trim(),
       number: num,
       position: newPlayerForm.position,
-      isStarter: slotNumber <= 15,
+      isStarter: slotNumber <= ruleSet.playersOnPitch,
     });
-    const position = slotNumber <= 15 ? (DEFAULT_PLAYER_POSITIONS[slotNumber - 1] ?? 'Sub') : 'Sub';
+    const position = positionFor(slotNumber);
     onAssign({ number: slotNumber, position, playerId: id, name: newPlayerForm.name.trim() });
     onClose();
   };
 
   const handleClear = () => {
-    const position = slotNumber <= 15 ? (DEFAULT_PLAYER_POSITIONS[slotNumber - 1] ?? 'Sub') : 'Sub';
+    const position = positionFor(slotNumber);
     onAssign({ number: slotNumber, position, name: `Player ${slotNumber}` });
     onClose();
   };
@@ -1311,6 +1477,10 @@ const SlotEditorModal: React.FC<{
   );
 };
 
+/** Competition select values that aren't competition ids. */
+const LEGACY_COMPETITION = '__legacy';
+const NEW_COMPETITION = '__new';
+
 // Game Setup Screen
 const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => void }> = ({ onBack: _onBack, onNavigate: _onNavigate }) => {
   const config = useMatchStore();
@@ -1341,12 +1511,31 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
   const [awayCustomLineup, setAwayCustomLineup] = useState<LineupSlot[] | null>(null);
   const [homePlayersForWizard, setHomePlayersForWizard] = useState<DbPlayer[]>([]);
   const [awayPlayersForWizard, setAwayPlayersForWizard] = useState<DbPlayer[]>([]);
+  const [setupCompetitions, setSetupCompetitions] = useState<Competition[]>([]);
+  const [teamSheets, setTeamSheets] = useState<{ fixture: TeamSheetFixture; sheets: TeamSheet[] } | null>(null);
+  const [teamSheetError, setTeamSheetError] = useState<string | null>(null);
 
   // Reset advanced meta (competition, venue, referee) to blank for each new game setup
   useEffect(() => {
-    updateConfig({ competition: '', venue: '', referee: '' });
+    updateConfig({ competition: '', competitionId: undefined, venue: '', referee: '' });
+    getCompetitions().then(setSetupCompetitions);
   }, []);
 
+  const handleCompetitionChange = async (value: string) => {
+    if (value === LEGACY_COMPETITION) return;
+    if (value === NEW_COMPETITION) {
+      const name = prompt('Competition name (e.g. Counties 2 League)');
+      if (!name?.trim()) return;
+      const id = await addCompetition(name.trim(), [homeTeamId, awayTeamId].filter(Boolean));
+      setSetupCompetitions(await getCompetitions());
+      updateConfig({ competitionId: id, competition: name.trim() });
+    } else {
+      const competition = setupCompetitions.find((c) => c.id === value);
+      updateConfig({ competitionId: competition?.id, competition: competition?.name ?? '' });
+    }
+    setIsDirty(true);
+  };
+
   const handleCreateTeamFromSetup = async () => {
     if (!newTeamForm.name.trim() || !addTeamFor) return;
     const id = await addTeam(newTeamForm.name.trim(), newTeamForm.color);
@@ -1404,6 +1593,8 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
   }, [selectedHomeTeam?.id, selectedAwayTeam?.id, homeColors.join(','), awayColors.join(',')]);
 
   // Load roster options for both teams and players (from custom lineup, rosters, or team pool)
+  const starters = config.ruleSet.playersOnPitch;
+  const squadSize = config.ruleSet.squadSize;
   useEffect(() => {
     let cancelled = false;
     (async () => {
@@ -1417,17 +1608,17 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
       setRosterOptions(homeRosters.map((r) => ({ id: r.id, name: r.name })));
       setAwayRosterOptions(awayRosters.map((r) => ({ id: r.id, name: r.name })));
       let homeMapped: Player[];
-      if (homeCustomLineup && homeCustomLineup.length >= 15) {
+      if (homeCustomLineup && homeCustomLineup.length >= starters) {
         homeMapped = homeCustomLineup.map((s) => ({
           id: s.playerId ?? `placeholder-home-${s.number}`,
           number: s.number,
           name: s.name,
           position: s.position,
-          isStarter: s.number <= 15,
+          isStarter: s.number <= starters,
           team: 'home' as const,
         }));
       } else if (selectedRosterId && homeRosters.some((r) => r.id === selectedRosterId)) {
-        const entries = await getRosterEntries(selectedRosterId);
+        const entries = (await getRosterEntries(selectedRosterId)).filter((e) => e.number <= squadSize);
         if (cancelled) return;
         homeMapped = await Promise.all(
           entries.map(async (entry) => {
@@ -1438,7 +1629,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
               number: entry.number,
               name: usePlayer ? p!.name : `Player ${entry.number}`,
               position: entry.position,
-              isStarter: entry.number <= 15,
+              isStarter: entry.number <= starters,
               team: 'home' as const,
             };
           })
@@ -1454,17 +1645,17 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
         }));
       }
       let awayMapped: Player[];
-      if (awayCustomLineup && awayCustomLineup.length >= 15) {
+      if (awayCustomLineup && awayCustomLineup.length >= starters) {
         awayMapped = awayCustomLineup.map((s) => ({
           id: s.playerId ?? `placeholder-away-${s.number}`,
           number: s.number,
           name: s.name,
           position: s.position,
-          isStarter: s.number <= 15,
+          isStarter: s.number <= starters,
           team: 'away' as const,
         }));
       } else if (selectedAwayRosterId && awayRosters.some((r) => r.id === selectedAwayRosterId)) {
-        const entries = await getRosterEntries(selectedAwayRosterId);
+        const entries = (await getRosterEntries(selectedAwayRosterId)).filter((e) => e.number <= squadSize);
         if (cancelled) return;
         awayMapped = await Promise.all(
           entries.map(async (entry) => {
@@ -1475,7 +1666,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
               number: entry.number,
               name: usePlayer ? p!.name : `Player ${entry.number}`,
               position: entry.position,
-              isStarter: entry.number <= 15,
+              isStarter: entry.number <= starters,
               team: 'away' as const,
             };
           })
@@ -1493,7 +1684,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
       setPlayers([...homeMapped, ...awayMapped]);
     })();
     return () => { cancelled = true; };
-  }, [homeTeamId, awayTeamId, selectedRosterId, selectedAwayRosterId, homeCustomLineup, awayCustomLineup, updateConfig, setPlayers]);
+  }, [homeTeamId, awayTeamId, selectedRosterId, selectedAwayRosterId, homeCustomLineup, awayCustomLineup, starters, squadSize, updateConfig, setPlayers]);
 
   useEffect(() => {
     loadScheduledMatches();
@@ -1505,6 +1696,27 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
     if (errors[field]) setErrors({ ...errors, [field]: '' });
   };
 
+  // Period plan = normal time (halves or quarters of halfDuration) + optional extra time
+  const normalPeriods = config.periods.filter((p) => !p.extraTime);
+  const extraPeriods = config.periods.filter((p) => p.extraTime);
+  const extraTimeChoice: 'none' | 'rules' | 'cup' = extraPeriods.length === 0
+    ? 'none'
+    : JSON.stringify(extraPeriods) === JSON.stringify(cupExtraTimePeriods()) ? 'cup' : 'rules';
+  const handlePeriodMinutes = (seconds: number) => {
+    updateConfig({ halfDuration: seconds, periods: withNormalTimeDuration(config.periods, seconds) });
+    setIsDirty(true);
+    if (errors.halfDuration) setErrors({ ...errors, halfDuration: '' });
+  };
+  const handleNormalPeriodCount = (count: number) => {
+    updateConfig({ periods: [...normalTimePeriods(count, config.halfDuration), ...extraPeriods] });
+    setIsDirty(true);
+  };
+  const handleExtraTimeChoice = (choice: 'none' | 'rules' | 'cup') => {
+    const extra = choice === 'cup' ? cupExtraTimePeriods() : choice === 'rules' ? ruleExtraTimePeriods(config.ruleSet) : [];
+    updateConfig({ periods: [...normalPeriods, ...extra] });
+    setIsDirty(true);
+  };
+
   const validate = () => {
     const newErrors: Record<string, string> = {};
     
@@ -1535,6 +1747,8 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
       updateConfig({
         homeTeam: selectedHomeTeam?.name ?? 'Home',
         awayTeam: selectedAwayTeam?.name ?? 'Away',
+        homeTeamId,
+        awayTeamId,
         homeColor: config.homeColor,
         awayColor: config.awayColor,
       });
@@ -1558,6 +1772,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
         awayColor: config.awayColor,
         halfDuration: config.halfDuration,
         competition: config.competition ?? '',
+        competitionId: config.competitionId,
         venue: config.venue ?? '',
         referee: config.referee ?? '',
         scheduledAt,
@@ -1567,6 +1782,8 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
           playerTracking: config.playerTracking,
           cardTracking: config.cardTracking,
           substitutions: config.substitutions,
+          ruleSet: config.ruleSet,
+          periods: config.periods,
         },
       });
       setEditingMatchId(id);
@@ -1583,15 +1800,20 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
     updateConfig({
       homeTeam: m.homeTeamName,
       awayTeam: m.awayTeamName,
+      homeTeamId: m.homeTeamId,
+      awayTeamId: m.awayTeamId,
       homeColor: m.homeColor,
       awayColor: m.awayColor,
       halfDuration: m.halfDuration,
       competition: m.competition ?? '',
+      competitionId: m.competitionId,
       venue: m.venue ?? '',
       referee: m.referee ?? '',
       playerTracking: m.config?.playerTracking ?? true,
       cardTracking: m.config?.cardTracking ?? true,
       substitutions: m.config?.substitutions ?? false,
+      ruleSet: getMatchRuleSet(m),
+      periods: getMatchPeriods(m),
     });
     setScheduledDate(m.scheduledAt ? new Date(m.scheduledAt).toISOString().slice(0, 10) : '');
     setScheduledTime(m.scheduledAt ? new Date(m.scheduledAt).toISOString().slice(11, 16) : '');
@@ -1601,66 +1823,59 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
     setIsDirty(false);
   };
 
-  const handleStartScheduledMatch = async (m: DbMatch) => {
-    const [homeRosters, awayRosters, homePlayers, awayPlayers] = await Promise.all([
-      getRostersByTeam(m.homeTeamId),
-      getRostersByTeam(m.awayTeamId),
-      getPlayersByTeam(m.homeTeamId),
-      getPlayersByTeam(m.awayTeamId),
+  // Team sheets for the match being set up: the lineups as currently selected (wizard, roster or team players)
+  const handleOpenTeamSheets = async () => {
+    if (!validate()) return;
+    const [homeCaptain, awayCaptain] = await Promise.all([
+      getRosterCaptainNumber(homeCustomLineup ? undefined : selectedRosterId ?? undefined),
+      getRosterCaptainNumber(awayCustomLineup ? undefined : selectedAwayRosterId ?? undefined),
     ]);
-    let homeMapped: Player[];
-    if (m.rosterId && homeRosters.some((r) => r.id === m.rosterId)) {
-      const entries = await getRosterEntries(m.rosterId);
-      homeMapped = await Promise.all(
-        entries.map(async (entry) => {
-          const p = entry.playerId ? await getPlayer(entry.playerId) : undefined;
-          const usePlayer = p && (p as DbPlayer & { active?: boolean }).active !== false;
-          return {
-            id: usePlayer ? p!.id : `roster-${m.rosterId}-${entry.number}`,
-            number: entry.number,
-            name: usePlayer ? p!.name : `Player ${entry.number}`,
-            position: entry.position,
-            isStarter: entry.number <= 15,
-            team: 'home' as const,
-          };
-        })
-      );
-    } else {
-      homeMapped = homePlayers.map((p) => ({ id: p.id, number: p.number, name: p.name, position: p.position, isStarter: p.isStarter, team: 'home' as const }));
-    }
-    let awayMapped: Player[];
-    if (m.awayRosterId && awayRosters.some((r) => r.id === m.awayRosterId)) {
-      const entries = await getRosterEntries(m.awayRosterId);
-      awayMapped = await Promise.all(
-        entries.map(async (entry) => {
-          const p = entry.playerId ? await getPlayer(entry.playerId) : undefined;
-          const usePlayer = p && (p as DbPlayer & { active?: boolean }).active !== false;
-          return {
-            id: usePlayer ? p!.id : `roster-away-${m.awayRosterId}-${entry.number}`,
-            number: entry.number,
-            name: usePlayer ? p!.name : `Player ${entry.number}`,
-            position: entry.position,
-            isStarter: entry.number <= 15,
-            team: 'away' as const,
-          };
-        })
-      );
-    } else {
-      awayMapped = awayPlayers.map((p) => ({ id: p.id, number: p.number, name: p.name, position: p.position, isStarter: p.isStarter, team: 'away' as const }));
+    setTeamSheets({
+      fixture: {
+        homeTeamName: config.homeTeam,
+        awayTeamName: config.awayTeam,
+        competition: config.competition,
+        venue: config.venue,
+        referee: config.referee,
+        scheduledAt: scheduledDate && scheduledTime ? new Date(scheduledDate + 'T' + scheduledTime).getTime() : undefined,
+      },
+      sheets: [
+        { team: 'home', teamName: config.homeTeam, rows: buildTeamSheetRows(config.players.filter((p) => p.team === 'home'), homePlayersForWizard), captainNumber: homeCaptain },
+        { team: 'away', teamName: config.awayTeam, rows: buildTeamSheetRows(config.players.filter((p) => p.team === 'away'), awayPlayersForWizard), captainNumber: awayCaptain },
+      ],
+    });
+  };
+
+  const handleOpenScheduledTeamSheets = async (m: DbMatch) => {
+    setTeamSheetError(null);
+    try {
+      setTeamSheets({ fixture: m, sheets: await getScheduledMatchTeamSheets(m) });
+    } catch (e) {
+      console.error('Failed to load team sheets', e);
+      setTeamSheetError('Could not load the team sheets for this match.');
     }
+  };
+
+  const handleStartScheduledMatch = async (m: DbMatch) => {
+    const [homeMapped, awayMapped] = await Promise.all([getScheduledMatchSquad(m, 'home'), getScheduledMatchSquad(m, 'away')]);
     const mapped: Player[] = [...homeMapped, ...awayMapped];
     updateConfig({
       homeTeam: m.homeTeamName,
       awayTeam: m.awayTeamName,
+      homeTeamId: m.homeTeamId,
+      awayTeamId: m.awayTeamId,
       homeColor: m.homeColor,
       awayColor: m.awayColor,
       halfDuration: m.halfDuration,
       competition: m.competition ?? '',
+      competitionId: m.competitionId,
       venue: m.venue ?? '',
       referee: m.referee ?? '',
       playerTracking: m.config?.playerTracking ?? true,
       cardTracking: m.config?.cardTracking ?? true,
       substitutions: m.config?.substitutions ?? false,
+      ruleSet: getMatchRuleSet(m),
+      periods: getMatchPeriods(m),
     });
     setPlayers(mapped);
     setCurrentMatchId(m.id);
@@ -1782,7 +1997,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
               color="blue"
               onClick={() => setShowSelectTeamWizard('home')}
               disabled={!homeTeamId}
-              title="Select team lineup (15 + subs)"
+              title={`Select team lineup (${starters} + subs)`}
             >
               Select Team
             </Button>
@@ -1840,7 +2055,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
               color="red"
               onClick={() => setShowSelectTeamWizard('away')}
               disabled={!awayTeamId}
-              title="Select team lineup (15 + subs)"
+              title={`Select team lineup (${starters} + subs)`}
             >
               Select Team
             </Button>
@@ -1875,12 +2090,78 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
         </Card>
 
         <Card shadow="sm" padding="lg" radius="md" withBorder>
-          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Minutes per half</Text>
-          <SimpleGrid cols={4} spacing="sm" mb="md">
-            {[20, 30, 40, 45].map((mins) => (
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Rules</Text>
+          <SimpleGrid cols={3} spacing="sm">
+            {RULE_SETS.map((r) => (
+              <button
+                key={r.id}
+                onClick={() => {
+                  // Switching code resets the period plan and any hand-picked lineups (squad sizes differ)
+                  updateConfig({ ruleSet: r, halfDuration: r.periodDuration, periods: buildPeriodPlan(r, r.periodDuration) });
+                  if (r.id !== config.ruleSet.id) {
+                    setHomeCustomLineup(null);
+                    setAwayCustomLineup(null);
+                  }
+                  setIsDirty(true);
+                }}
+                className={`p-4 rounded-xl font-black text-lg transition-all
+                           ${config.ruleSet.id === r.id
+                             ? 'bg-blue-600 text-white scale-95'
+                             : 'bg-zinc-900 text-zinc-400 active:scale-90'}`}
+              >
+                {r.name}
+              </button>
+            ))}
+          </SimpleGrid>
+          <Text size="xs" c="dimmed" fw={700} mt="xs">
+            {config.ruleSet.scoreTypes.map((t) => `${t.label} ${t.points}`).join(' · ')}
+          </Text>
+        </Card>
+
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Periods</Text>
+          <SimpleGrid cols={2} spacing="sm" mb="sm">
+            {[{ count: 2, label: 'Halves' }, { count: 4, label: 'Quarters' }].map(({ count, label }) => (
+              <button
+                key={count}
+                onClick={() => handleNormalPeriodCount(count)}
+                className={`p-4 rounded-xl font-black text-lg transition-all
+                           ${normalPeriods.length === count
+                             ? 'bg-blue-600 text-white scale-95'
+                             : 'bg-zinc-900 text-zinc-400 active:scale-90'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </SimpleGrid>
+          <SimpleGrid cols={config.ruleSet.extraTime ? 3 : 2} spacing="sm" mb="xs">
+            {([
+              { choice: 'none', label: 'No extra time' },
+              ...(config.ruleSet.extraTime ? [{ choice: 'rules', label: config.ruleSet.extraTime.label }] : []),
+              { choice: 'cup', label: 'Cup extra time' },
+            ] as Array<{ choice: 'none' | 'rules' | 'cup'; label: string }>).map(({ choice, label }) => (
+              <button
+                key={choice}
+                onClick={() => handleExtraTimeChoice(choice)}
+                className={`p-3 rounded-xl font-black text-sm transition-all
+                           ${extraTimeChoice === choice
+                             ? 'bg-blue-600 text-white scale-95'
+                             : 'bg-zinc-900 text-zinc-400 active:scale-90'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </SimpleGrid>
+          <Text size="xs" c="dimmed" fw={700} mb="md">
+            {config.periods.map((p) => `${p.label} ${p.duration / 60}'${p.suddenDeath ? ' (sudden death)' : ''}`).join(' · ')}
+          </Text>
+
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Minutes per period</Text>
+          <SimpleGrid cols={3} spacing="sm" mb="md">
+            {[7, 10, 20, 30, 40, 45].map((mins) => (
               <button
                 key={mins}
-                onClick={() => handleFieldChange('halfDuration', mins * 60)}
+                onClick={() => handlePeriodMinutes(mins * 60)}
                 className={`p-4 rounded-xl font-black text-xl transition-all
                            ${config.halfDuration === mins * 60
                              ? 'bg-blue-600 text-white scale-95'
@@ -1893,7 +2174,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
           <input
             type="number"
             value={config.halfDuration / 60}
-            onChange={(e) => handleFieldChange('halfDuration', parseInt(e.target.value) * 60)}
+            onChange={(e) => handlePeriodMinutes(parseInt(e.target.value) * 60)}
             min="5"
             max="60"
             className="w-full bg-zinc-900 text-white text-xl font-black p-4 rounded-xl
@@ -1936,15 +2217,17 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
           <Stack gap="md" mt="md">
             <Box>
               <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="xs">Competition (optional)</Text>
-              <input
-                type="text"
-                value={config.competition}
-                onChange={(e) => handleFieldChange('competition', e.target.value)}
-                placeholder="e.g. Six Nations, Rugby World Cup"
+              <select
+                value={config.competitionId ?? (config.competition ? LEGACY_COMPETITION : '')}
+                onChange={(e) => handleCompetitionChange(e.target.value)}
                 className="w-full bg-zinc-900 text-white text-lg font-bold p-4 rounded-xl
-                           border-2 border-zinc-800 focus:border-zinc-600 focus:outline-none
-                           placeholder:text-zinc-700"
-              />
+                           border-2 border-zinc-800 focus:border-zinc-600 focus:outline-none"
+              >
+                <option value="">No competition (friendly)</option>
+                {!config.competitionId && config.competition && <option value={LEGACY_COMPETITION}>{config.competition} (not linked)</option>}
+                {setupCompetitions.map((c) => <option key={c.id} value={c.id}>{c.name}</option>)}
+                <option value={NEW_COMPETITION}>+ New competition…</option>
+              </select>
             </Box>
             <Box>
               <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="xs">Referee (optional)</Text>
@@ -1988,6 +2271,12 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
                     >
                       Edit
                     </button>
+                    <button
+                      onClick={() => handleOpenScheduledTeamSheets(m)}
+                      className="bg-zinc-700 text-white font-bold px-3 py-2 rounded-lg active:bg-zinc-600"
+                    >
+                      Sheet
+                    </button>
                     <button
                       onClick={() => handleStartScheduledMatch(m)}
                       disabled={m.status === 'playing'}
@@ -1999,6 +2288,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
                 </div>
               ))}
             </Stack>
+            {teamSheetError && <Text size="sm" c="red" mt="sm">{teamSheetError}</Text>}
             <Button variant="subtle" size="sm" c="dimmed" onClick={() => { setEditingMatchId(null); setScheduledDate(''); setScheduledTime(''); setIsDirty(true); }} mt="sm">
               + New match
             </Button>
@@ -2044,6 +2334,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
             rosterOptions={rosterOptions}
             teamPlayers={homePlayersForWizard}
             currentLineup={homeCustomLineup}
+            ruleSet={config.ruleSet}
             onSave={(lineup) => {
               setHomeCustomLineup(lineup);
               setSelectedRosterId(null);
@@ -2060,6 +2351,7 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
             rosterOptions={awayRosterOptions}
             teamPlayers={awayPlayersForWizard}
             currentLineup={awayCustomLineup}
+            ruleSet={config.ruleSet}
             onSave={(lineup) => {
               setAwayCustomLineup(lineup);
               setSelectedAwayRosterId(null);
@@ -2070,8 +2362,10 @@ const GameSetup: React.FC<{ onBack: () => void; onNavigate: (view: AppView) => v
 
         <Stack gap="md" pt="xl" pb={100}>
           <Button size="lg" variant="light" onClick={handleSaveMatch} fullWidth>Save match</Button>
+          <Button size="lg" variant="default" onClick={handleOpenTeamSheets} fullWidth>Team sheets</Button>
           <Button size="xl" onClick={handleStartMatch} fullWidth>Start match →</Button>
         </Stack>
+        {teamSheets && <TeamSheetPrint fixture={teamSheets.fixture} sheets={teamSheets.sheets} onClose={() => setTeamSheets(null)} />}
       </Stack>
     </Box>
   );
@@ -2082,6 +2376,20 @@ const PLAYER_POSITION_OPTIONS = [...new Set(DEFAULT_PLAYER_POSITIONS)];
 
 /** Pitch display order: row 1 = 1,2,3; row 2 = 4,5; row 3 = 6,8,7; row 4 = 9,10; row 5 = 11,12,13,14; row 6 = 15; then subs */
 const PITCH_ROWS: number[][] = [[1, 2, 3], [4, 5], [6, 8, 7], [9, 10], [11, 12, 13, 14], [15]];
+/** Sevens: front row 1,2,3; half-backs 4,5; centre and wing 6,7 */
+const SEVENS_PITCH_ROWS: number[][] = [[1, 2, 3], [4, 5], [6, 7]];
+/** League: props/hooker 8,9,10; second row 11,12; loose forward 13; halves 7,6; backs 2–5; full-back 1 */
+const LEAGUE_PITCH_ROWS: number[][] = [[8, 9, 10], [11, 12], [13], [7, 6], [5, 4, 3, 2], [1]];
+
+/** Pitch layout for a number of starters; unknown sizes fall back to rows of four. */
+function getPitchRows(starters: number): number[][] {
+  if (starters === 15) return PITCH_ROWS;
+  if (starters === 13) return LEAGUE_PITCH_ROWS;
+  if (starters === 7) return SEVENS_PITCH_ROWS;
+  const rows: number[][] = [];
+  for (let n = 1; n <= starters; n += 4) rows.push(Array.from({ length: Math.min(4, starters - n + 1) }, (_, i) => n + i));
+  return rows;
+}
 
 // Shirt colours editor for a team (Manage Teams) – overlay with ShirtIcon like game setup
 const ShirtColoursEditor: React.FC<{ teamId: string; team: DbTeam; onUpdate: () => void }> = ({ teamId, team, onUpdate }) => {
@@ -2141,47 +2449,352 @@ const ShirtColoursEditor: React.FC<{ teamId: string; team: DbTeam; onUpdate: ()
   );
 };
 
-// Manage Teams (DB) – Team → Roster → Players
-const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
-  const [teams, setTeams] = useState<DbTeam[]>([]);
-  const [players, setPlayers] = useState<DbPlayer[]>([]);
-  const [rosters, setRosters] = useState<Array<{ id: string; name: string }>>([]);
-  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
-  const [showForm, setShowForm] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [form, setForm] = useState({ name: '', number: '', position: '', isStarter: true, active: true });
-  const [selectedRosterId, setSelectedRosterId] = useState<string | null>(null);
-  const [rosterEntries, setRosterEntries] = useState<Array<{ id: string; number: number; position: string; playerId?: string }>>([]);
-  const [showAddTeamForm, setShowAddTeamForm] = useState(false);
-  const [addTeamForm, setAddTeamForm] = useState({ name: '', color: '#3b82f6' });
-
-  const loadTeams = async () => {
-    const list = await getTeams();
-    setTeams(list);
-    return list;
-  };
-  const loadPlayers = async () => {
-    if (!selectedTeamId) return;
-    const list = await getPlayersByTeam(selectedTeamId);
-    setPlayers(list);
-  };
-  const loadRosters = async () => {
-    if (!selectedTeamId) return;
-    const list = await getRostersByTeam(selectedTeamId);
-    setRosters(list.map((r) => ({ id: r.id, name: r.name })));
-  };
+// Goal kicking – kicking tables, player profile and kicker ranking
+/** Kicking table: made/attempts (%) per kick type and in total, one row per kicker (or match). */
+const KickingStatsTable: React.FC<{ rows: Array<{ key: string; label: React.ReactNode; stats: KickingStats; onClick?: () => void }> }> = ({ rows }) => {
+  const types = KICK_TYPE_RULES.filter((t) => rows.some((r) => r.stats.byType[t.type]));
+  return (
+    <ScrollArea>
+      <Table withTableBorder withColumnBorders style={{ minWidth: 320 }}>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th />
+            {types.map((t) => <Table.Th key={t.type}>{t.label}</Table.Th>)}
+            <Table.Th>Total</Table.Th>
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {rows.map((r) => (
+            <Table.Tr key={r.key} onClick={r.onClick} style={r.onClick ? { cursor: 'pointer' } : undefined}>
+              <Table.Td fw={700}>{r.label}</Table.Td>
+              {types.map((t) => <Table.Td key={t.type} c="dimmed">{formatKickRecord(r.stats.byType[t.type])}</Table.Td>)}
+              <Table.Td fw={700}>{formatKickRecord(r.stats.total)}</Table.Td>
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+    </ScrollArea>
+  );
+};
 
+// Seasons from the database; bump `version` to reload after editing them
+const useSeasons = (version = 0) => {
+  const [seasons, setSeasons] = useState<Season[]>([]);
   useEffect(() => {
-    loadTeams();
-  }, []);
-  useEffect(() => { loadPlayers(); }, [selectedTeamId]);
-  useEffect(() => { loadRosters(); }, [selectedTeamId]);
-  useEffect(() => {
-    if (!selectedRosterId) { setRosterEntries([]); return; }
-    getRosterEntries(selectedRosterId).then((entries) =>
-      setRosterEntries(entries.map((e) => ({ id: e.id, number: e.number, position: e.position, playerId: e.playerId })))
-    );
-  }, [selectedRosterId]);
+    getSeasons().then(setSeasons);
+  }, [version]);
+  return seasons;
+};
+
+/** Season picker (see seasonChoices); '' = all seasons. */
+const SeasonSelect: React.FC<{ seasons: SeasonRange[]; value: string; onChange: (value: string) => void }> = ({ seasons, value, onChange }) => (
+  <select value={value} onChange={(e) => onChange(e.target.value)} className="bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold">
+    <option value="">All seasons</option>
+    {seasons.map((s) => <option key={s.id} value={s.id}>{s.name}</option>)}
+  </select>
+);
+
+/** Player profile: career counters and the goal-kicking report (season total and per match). */
+const PlayerProfileModal: React.FC<{ player: DbPlayer | null; onClose: () => void }> = ({ player, onClose }) => {
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [seasonId, setSeasonId] = useState('');
+  const seasons = useSeasons();
+  useEffect(() => {
+    if (!player) return;
+    listMatches({ status: 'completed' }).then(setMatches);
+  }, [player]);
+  if (!player) return null;
+  const choices = seasonChoices(seasons, matches);
+  const season = choices.find((s) => s.id === seasonId);
+  const seasonMatches = filterBySeason(matches, season);
+  const counts = season ? computeCareerStats(seasonMatches)[player.id] ?? { gamesPlayed: 0, tries: 0, points: 0, yellowCards: 0, redCards: 0 } : player;
+  const seasonTotal = kickingOverMatches(seasonMatches)[player.id];
+  const perMatch = playerKickingByMatch(seasonMatches, player.id);
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+  return (
+    <Modal opened onClose={onClose} title={`#${player.number} ${player.name}`} size="lg" centered>
+      <Stack gap="md">
+        <Group justify="space-between">
+          <Text size="sm" c="dimmed" fw={700}>
+            {player.position} · {season ? `${season.name}: ` : ''}{counts.gamesPlayed} games · {counts.tries} tries · {counts.points} pts · {counts.yellowCards} YC · {counts.redCards} RC
+          </Text>
+          <SeasonSelect seasons={choices} value={seasonId} onChange={setSeasonId} />
+        </Group>
+        <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle}>Goal kicking</Text>
+        {!seasonTotal ? (
+          <Text size="sm" c="dimmed">No kicks recorded{season ? ` in ${season.name}` : ''}.</Text>
+        ) : (
+          <>
+            <KickingStatsTable rows={[{ key: 'total', label: season?.name ?? 'Career', stats: seasonTotal }]} />
+            <KickingStatsTable
+              rows={perMatch.map(({ match, stats }) => ({
+                key: match.id,
+                label: `${new Date(match.startedAt || match.scheduledAt || match.createdAt).toLocaleDateString()} ${match.homeTeamName} v ${match.awayTeamName}`,
+                stats,
+              }))}
+            />
+          </>
+        )}
+      </Stack>
+    </Modal>
+  );
+};
+
+/** Team's goal kickers ranked by success rate for a season, so the coach can pick the kicker. */
+const KickerRankingCard: React.FC<{ teamName: string; players: DbPlayer[]; onSelectPlayer: (player: DbPlayer) => void }> = ({ teamName, players, onSelectPlayer }) => {
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [seasonId, setSeasonId] = useState('');
+  const [minAttempts, setMinAttempts] = useState(1);
+  const seasons = useSeasons();
+  useEffect(() => {
+    listMatches({ status: 'completed' }).then(setMatches);
+  }, []);
+  const choices = seasonChoices(seasons, matches);
+  const byId = new Map(players.map((p) => [p.id, p]));
+  const stats = kickingOverMatches(filterBySeason(matches, choices.find((s) => s.id === seasonId)));
+  const ranked = rankKickers(stats, minAttempts).filter((r) => byId.has(r.playerId));
+  return (
+    <Card shadow="sm" padding="lg" radius="md" withBorder>
+      <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={{ letterSpacing: '0.05em' }} mb="sm">Goal kickers — {teamName}</Text>
+      <Group gap="xs" mb="sm">
+        <SeasonSelect seasons={choices} value={seasonId} onChange={setSeasonId} />
+        <select value={minAttempts} onChange={(e) => setMinAttempts(Number(e.target.value))} className="bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold">
+          {[1, 3, 5, 10, 20].map((n) => <option key={n} value={n}>Min {n} kick{n === 1 ? '' : 's'}</option>)}
+        </select>
+      </Group>
+      {ranked.length === 0 ? (
+        <Text size="sm" c="dimmed">No kickers with enough attempts.</Text>
+      ) : (
+        <KickingStatsTable
+          rows={ranked.map((r, i) => {
+            const p = byId.get(r.playerId)!;
+            return { key: r.playerId, label: `${i + 1}. ${p.name}`, stats: r.stats, onClick: () => onSelectPlayer(p) };
+          })}
+        />
+      )}
+    </Card>
+  );
+};
+
+// Player import – CSV or pasted spreadsheet into a team's pool
+/** CSV / pasted spreadsheet import into a team's player pool: map columns, preview, then add / update / skip per row. */
+const PlayerImportModal: React.FC<{
+  opened: boolean;
+  teamId: string;
+  teamName: string;
+  existingPlayers: DbPlayer[];
+  onClose: () => void;
+  onImported: () => void;
+}> = ({ opened, teamId, teamName, existingPlayers, onClose, onImported }) => {
+  const [text, setText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<PlayerColumnMapping>({ name: null, number: null, position: null, active: null });
+  const [actions, setActions] = useState<Record<number, PlayerImportAction>>({});
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const csvRows = React.useMemo(() => parseCsv(text), [text]);
+  const preview = React.useMemo(
+    () => buildPlayerImportRows(csvRows, mapping, hasHeader, existingPlayers).map((r) => (r.error ? r : { ...r, action: actions[r.line] ?? r.action })),
+    [csvRows, mapping, hasHeader, existingPlayers, actions]
+  );
+
+  const handleText = (value: string, header?: boolean) => {
+    const rows = parseCsv(value);
+    const useHeader = header ?? (rows.length > 0 && looksLikeHeader(rows[0]));
+    setText(value);
+    setHasHeader(useHeader);
+    setMapping(guessColumnMapping(rows[0] ?? [], useHeader));
+    setActions({});
+  };
+  const reset = () => {
+    setText('');
+    setActions({});
+    setError('');
+    onClose();
+  };
+  const handleImport = async () => {
+    setImporting(true);
+    setError('');
+    try {
+      await applyPlayerImport(teamId, preview);
+      onImported();
+      reset();
+    } catch (e) {
+      console.error('Failed to import players', e);
+      setError("Could not save the players. Check the team's list before importing again.");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const columnCount = Math.max(0, ...csvRows.map((r) => r.length));
+  const columnLabel = (i: number) => (hasHeader && csvRows[0]?.[i] ? csvRows[0][i] : `Column ${i + 1}`);
+  const toAdd = preview.filter((r) => !r.error && r.action === 'add').length;
+  const toUpdate = preview.filter((r) => !r.error && r.action === 'update').length;
+  const missingRequired = PLAYER_IMPORT_FIELDS.some((f) => f.required && mapping[f.field] == null);
+  const selectClass = 'bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold';
+
+  return (
+    <Modal opened={opened} onClose={reset} title={`Import players — ${teamName}`} size="xl" centered>
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">Paste rows from a spreadsheet or choose a CSV file. Columns: name, number, position, active.</Text>
+        <textarea
+          value={text}
+          onChange={(e) => handleText(e.target.value)}
+          placeholder={'Name,Number,Position,Active\nJane Smith,9,Scrum-half,yes'}
+          rows={5}
+          className="w-full bg-zinc-800 text-white p-3 rounded-lg font-mono text-sm"
+        />
+        <Group gap="sm">
+          <input
+            type="file"
+            accept=".csv,.tsv,.txt,text/csv,text/plain"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (!file) return;
+              try {
+                setError('');
+                handleText(await file.text());
+              } catch {
+                setError('Could not read that file.');
+              }
+            }}
+            className="text-sm text-zinc-400"
+          />
+          {csvRows.length > 0 && (
+            <label className="flex items-center gap-2 text-sm font-bold">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => handleText(text, e.target.checked)} />
+              First row is headings
+            </label>
+          )}
+        </Group>
+        {csvRows.length > 0 && (
+          <>
+            <Group gap="xs">
+              {PLAYER_IMPORT_FIELDS.map((f) => (
+                <label key={f.field} className="flex flex-col gap-1 text-xs font-bold text-zinc-400">
+                  {f.label}{f.required ? ' *' : ''}
+                  <select
+                    value={mapping[f.field] ?? ''}
+                    onChange={(e) => setMapping((m) => ({ ...m, [f.field]: e.target.value === '' ? null : Number(e.target.value) }))}
+                    className={selectClass}
+                  >
+                    <option value="">— None</option>
+                    {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                  </select>
+                </label>
+              ))}
+            </Group>
+            <ScrollArea style={{ maxHeight: '40vh' }}>
+              <Table withTableBorder withColumnBorders style={{ minWidth: 560 }}>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Row</Table.Th>
+                    <Table.Th>Name</Table.Th>
+                    <Table.Th>No.</Table.Th>
+                    <Table.Th>Position</Table.Th>
+                    <Table.Th ta="center">Active</Table.Th>
+                    <Table.Th>Existing player</Table.Th>
+                    <Table.Th>Action</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {preview.map((r) => (
+                    <Table.Tr key={r.line} style={r.error || r.action === 'skip' ? { opacity: 0.6 } : undefined}>
+                      <Table.Td c="dimmed">{r.line}</Table.Td>
+                      <Table.Td fw={700}>{r.name || '—'}</Table.Td>
+                      <Table.Td>{r.number ?? '—'}</Table.Td>
+                      <Table.Td c="dimmed">{r.position || '—'}</Table.Td>
+                      <Table.Td ta="center">{r.active ?? r.existing?.active ?? true ? '✓' : '—'}</Table.Td>
+                      <Table.Td c="dimmed">
+                        {r.existing
+                          ? r.matchedBy === 'number'
+                            ? <Text span size="sm" c="yellow">#{r.existing.number} is {r.existing.name} – updating renames them</Text>
+                            : `Same name: ${r.existing.name} #${r.existing.number}`
+                          : '—'}
+                      </Table.Td>
+                      <Table.Td>
+                        {r.error ? (
+                          <Text size="sm" c="red" fw={700}>{r.error}</Text>
+                        ) : (
+                          <select
+                            value={r.action}
+                            onChange={(e) => setActions((a) => ({ ...a, [r.line]: e.target.value as PlayerImportAction }))}
+                            className={selectClass}
+                          >
+                            {r.existing ? <option value="update">Update</option> : <option value="add">Add</option>}
+                            <option value="skip">Skip</option>
+                          </select>
+                        )}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </ScrollArea>
+          </>
+        )}
+        {error && <Text size="sm" c="red" fw={700}>{error}</Text>}
+        <Group justify="flex-end" gap="sm">
+          <Button variant="default" onClick={reset} disabled={importing}>Cancel</Button>
+          <Button color="green" onClick={handleImport} loading={importing} disabled={missingRequired || toAdd + toUpdate === 0}>
+            Import ({toAdd} new, {toUpdate} updated)
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+// Manage Teams (DB) – Team → Roster → Players
+const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
+  const [teams, setTeams] = useState<DbTeam[]>([]);
+  const [players, setPlayers] = useState<DbPlayer[]>([]);
+  const [rosters, setRosters] = useState<Array<{ id: string; name: string }>>([]);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', number: '', position: '', isStarter: true, active: true });
+  const [selectedRosterId, setSelectedRosterId] = useState<string | null>(null);
+  const [rosterEntries, setRosterEntries] = useState<Array<{ id: string; number: number; position: string; playerId?: string; captain?: boolean }>>([]);
+  const [showAddTeamForm, setShowAddTeamForm] = useState(false);
+  const [addTeamForm, setAddTeamForm] = useState({ name: '', color: '#3b82f6' });
+  const [profilePlayer, setProfilePlayer] = useState<DbPlayer | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [completedMatches, setCompletedMatches] = useState<DbMatch[]>([]);
+  const [statsSeasonId, setStatsSeasonId] = useState('');
+  const seasons = useSeasons();
+
+  const loadTeams = async () => {
+    const list = await getTeams();
+    setTeams(list);
+    return list;
+  };
+  const loadPlayers = async () => {
+    if (!selectedTeamId) return;
+    const list = await getPlayersByTeam(selectedTeamId);
+    setPlayers(list);
+  };
+  const loadRosters = async () => {
+    if (!selectedTeamId) return;
+    const list = await getRostersByTeam(selectedTeamId);
+    setRosters(list.map((r) => ({ id: r.id, name: r.name })));
+  };
+
+  useEffect(() => {
+    loadTeams();
+    listMatches({ status: 'completed' }).then(setCompletedMatches);
+  }, []);
+  useEffect(() => { loadPlayers(); }, [selectedTeamId]);
+  useEffect(() => { loadRosters(); }, [selectedTeamId]);
+  useEffect(() => {
+    if (!selectedRosterId) { setRosterEntries([]); return; }
+    getRosterEntries(selectedRosterId).then((entries) =>
+      setRosterEntries(entries.map((e) => ({ id: e.id, number: e.number, position: e.position, playerId: e.playerId, captain: e.captain })))
+    );
+  }, [selectedRosterId]);
 
   const handleSave = async () => {
     if (!form.name.trim() || !form.number) return;
@@ -2217,6 +2830,13 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
     setRosterEntries((prev) => prev.map((e) => (e.id === entryId ? { ...e, playerId } : e)));
   };
 
+  const handleRosterCaptain = async (entryId: string) => {
+    if (!selectedRosterId) return;
+    const wasCaptain = rosterEntries.some((e) => e.id === entryId && e.captain);
+    await setRosterCaptain(selectedRosterId, wasCaptain ? null : entryId);
+    setRosterEntries((prev) => prev.map((e) => ({ ...e, captain: !wasCaptain && e.id === entryId })));
+  };
+
   const handleDeleteRoster = async (id: string) => {
     if (!confirm('Delete this roster and all its slot assignments?')) return;
     await deleteRoster(id);
@@ -2235,6 +2855,11 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
 
   const selectedTeam = teams.find((t) => t.id === selectedTeamId);
   const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+  // Player counters are career totals; for one season they are recounted from its matches
+  const statsSeasons = seasonChoices(seasons, completedMatches);
+  const statsSeason = statsSeasons.find((s) => s.id === statsSeasonId);
+  const seasonStats = statsSeason ? computeCareerStats(filterBySeason(completedMatches, statsSeason)) : null;
+  const statsOf = (p: DbPlayer) => (seasonStats ? seasonStats[p.id] ?? { gamesPlayed: 0, tries: 0, points: 0, yellowCards: 0, redCards: 0 } : p);
 
   return (
     <Box maw={720} mx="auto" py="md" pb={80}>
@@ -2302,7 +2927,10 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
           <ShirtColoursEditor teamId={selectedTeam.id} team={selectedTeam} onUpdate={loadTeams} />
         </Card>
         <Card shadow="sm" padding="lg" radius="md" withBorder>
-          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Players — {selectedTeam.name}</Text>
+          <Group justify="space-between" mb="sm">
+            <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle}>Players — {selectedTeam.name}</Text>
+            <SeasonSelect seasons={statsSeasons} value={statsSeasonId} onChange={setStatsSeasonId} />
+          </Group>
           <ScrollArea>
           <Table withTableBorder withColumnBorders style={{ minWidth: 320 }}>
             <Table.Thead>
@@ -2320,17 +2948,19 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
               </Table.Tr>
             </Table.Thead>
             <Table.Tbody>
-              {players.map((p) => (
+              {players.map((p) => {
+                const stats = statsOf(p);
+                return (
                 <Table.Tr key={p.id}>
                   <Table.Td fw={700}>{p.number}</Table.Td>
-                  <Table.Td fw={700}>{p.name}</Table.Td>
+                  <Table.Td fw={700} onClick={() => setProfilePlayer(p)} style={{ cursor: 'pointer' }}>{p.name}</Table.Td>
                   <Table.Td c="dimmed"><Text size="sm">{p.position}</Text></Table.Td>
                   <Table.Td ta="center">{(p as DbPlayer & { active?: boolean }).active !== false ? '✓' : '—'}</Table.Td>
-                  <Table.Td ta="center" c="dimmed">{p.yellowCards > 0 ? p.yellowCards : '—'}</Table.Td>
-                  <Table.Td ta="center" c="dimmed">{p.redCards > 0 ? p.redCards : '—'}</Table.Td>
-                  <Table.Td ta="center" c="dimmed">{p.gamesPlayed}</Table.Td>
-                  <Table.Td ta="center" c="dimmed">{p.tries}</Table.Td>
-                  <Table.Td ta="center" c="dimmed">{p.points}</Table.Td>
+                  <Table.Td ta="center" c="dimmed">{stats.yellowCards > 0 ? stats.yellowCards : '—'}</Table.Td>
+                  <Table.Td ta="center" c="dimmed">{stats.redCards > 0 ? stats.redCards : '—'}</Table.Td>
+                  <Table.Td ta="center" c="dimmed">{stats.gamesPlayed}</Table.Td>
+                  <Table.Td ta="center" c="dimmed">{stats.tries}</Table.Td>
+                  <Table.Td ta="center" c="dimmed">{stats.points}</Table.Td>
                   <Table.Td>
                     <Group gap="xs">
                       <Button variant="subtle" size="xs" color="blue" onClick={() => { setForm({ name: p.name, number: String(p.number), position: p.position, isStarter: p.isStarter, active: (p as DbPlayer & { active?: boolean }).active !== false }); setEditingId(p.id); setShowForm(true); }}>Edit</Button>
@@ -2338,13 +2968,26 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
                     </Group>
                   </Table.Td>
                 </Table.Tr>
-              ))}
+                );
+              })}
             </Table.Tbody>
           </Table>
           </ScrollArea>
           <Button color="violet" fullWidth mt="md" onClick={() => { setForm({ name: '', number: '', position: '', isStarter: true, active: true }); setEditingId(null); setShowForm(true); }}>+ Add player</Button>
+          <Button variant="light" color="violet" fullWidth mt="xs" onClick={() => setShowImport(true)}>Import players (CSV)</Button>
+          <PlayerImportModal
+            opened={showImport}
+            teamId={selectedTeam.id}
+            teamName={selectedTeam.name}
+            existingPlayers={players}
+            onClose={() => setShowImport(false)}
+            onImported={loadPlayers}
+          />
         </Card>
 
+        <KickerRankingCard teamName={selectedTeam.name} players={players} onSelectPlayer={setProfilePlayer} />
+        <PlayerProfileModal player={profilePlayer} onClose={() => setProfilePlayer(null)} />
+
         <Card shadow="sm" padding="lg" radius="md" withBorder>
           <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Rosters — {selectedTeam.name}</Text>
           <div className="space-y-2 mb-2">
@@ -2361,7 +3004,7 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
           <Button variant="subtle" size="sm" color="violet" onClick={handleAddRoster}>+ Add roster</Button>
           {selectedRosterId && rosterEntries.length > 0 && (
             <Box mt="md" p="md" style={{ background: 'var(--mantine-color-dark-6)', borderRadius: 12, border: '2px solid var(--mantine-color-violet-6)' }}>
-              <Text size="sm" fw={800} mb="sm">Assign players to slots (active players overwrite “Player N” in match)</Text>
+              <Text size="sm" fw={800} mb="sm">Assign players to slots (active players overwrite “Player N” in match); C marks the captain for team sheets</Text>
               <div className="space-y-2 max-h-64 overflow-auto">
                 {rosterEntries.map((e) => (
                   <div key={e.id} className="flex items-center gap-2">
@@ -2377,6 +3020,13 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
                         <option key={p.id} value={p.id}>{p.name} (#{p.number})</option>
                       ))}
                     </select>
+                    <button
+                      onClick={() => handleRosterCaptain(e.id)}
+                      title="Captain"
+                      className={`w-9 p-2 rounded-lg font-bold text-sm ${e.captain ? 'bg-amber-500 text-black' : 'bg-zinc-800 text-zinc-500'}`}
+                    >
+                      C
+                    </button>
                   </div>
                 ))}
               </div>
@@ -2423,124 +3073,1429 @@ const ManageTeamsPage: React.FC<{ onBack: () => void }> = () => {
   );
 };
 
-// Match management – all matches: date, time, location, status; completed = winner/draw
-const MatchManagementPage: React.FC<{ onBack: () => void }> = () => {
-  const [matches, setMatches] = useState<DbMatch[]>([]);
+/** League table: played, won, drawn, lost, points for/against/difference, try and losing bonuses, league points. */
+const LeagueTable: React.FC<{ rows: LeagueTableRow[] }> = ({ rows }) => (
+  <ScrollArea>
+    <Table withTableBorder withColumnBorders style={{ minWidth: 520 }}>
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th />
+          <Table.Th>Team</Table.Th>
+          <Table.Th title="Played">P</Table.Th>
+          <Table.Th title="Won">W</Table.Th>
+          <Table.Th title="Drawn">D</Table.Th>
+          <Table.Th title="Lost">L</Table.Th>
+          <Table.Th title="Points for">PF</Table.Th>
+          <Table.Th title="Points against">PA</Table.Th>
+          <Table.Th title="Points difference">PD</Table.Th>
+          <Table.Th title="Try bonus points">TB</Table.Th>
+          <Table.Th title="Losing bonus points">LB</Table.Th>
+          <Table.Th title="League points">Pts</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {rows.map((r, i) => (
+          <Table.Tr key={r.teamId}>
+            <Table.Td c="dimmed">{i + 1}</Table.Td>
+            <Table.Td fw={700}>{r.teamName}</Table.Td>
+            <Table.Td>{r.played}</Table.Td>
+            <Table.Td>{r.won}</Table.Td>
+            <Table.Td>{r.drawn}</Table.Td>
+            <Table.Td>{r.lost}</Table.Td>
+            <Table.Td>{r.pointsFor}</Table.Td>
+            <Table.Td>{r.pointsAgainst}</Table.Td>
+            <Table.Td>{r.difference > 0 ? `+${r.difference}` : r.difference}</Table.Td>
+            <Table.Td>{r.tryBonus}</Table.Td>
+            <Table.Td>{r.losingBonus}</Table.Td>
+            <Table.Td fw={800}>{r.points}</Table.Td>
+          </Table.Tr>
+        ))}
+      </Table.Tbody>
+    </Table>
+  </ScrollArea>
+);
+
+const POINTS_RULE_FIELDS: Array<{ key: keyof CompetitionPointsRules; label: string }> = [
+  { key: 'win', label: 'Win' },
+  { key: 'draw', label: 'Draw' },
+  { key: 'loss', label: 'Loss' },
+  { key: 'tryBonus', label: 'Try bonus' },
+  { key: 'tryBonusThreshold', label: 'Tries for bonus' },
+  { key: 'losingBonus', label: 'Losing bonus' },
+  { key: 'losingBonusMargin', label: 'Losing margin' },
+];
+
+// Competitions – teams, points rules, fixtures and league table per competition
+const CompetitionsPage: React.FC<{ onBack: () => void }> = () => {
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [teams, setTeams] = useState<DbTeam[]>([]);
+  const [allMatches, setAllMatches] = useState<DbMatch[]>([]);
   const [selectedId, setSelectedId] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [fixtures, setFixtures] = useState<DbMatch[]>([]);
+  // Bumped after each change to reload from the database
+  const [version, setVersion] = useState(0);
+  const [showScheduler, setShowScheduler] = useState(false);
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+  const selected = competitions.find((c) => c.id === selectedId) ?? null;
 
+  const load = () => setVersion((v) => v + 1);
   useEffect(() => {
-    listMatches({ limit: 100 }).then((list) => {
-      setMatches(list);
-      setLoading(false);
+    Promise.all([getCompetitions(), getTeams(), listMatches(), selectedId ? getCompetitionMatches(selectedId) : []]).then(([list, teamList, matches, fixtureList]) => {
+      setCompetitions(list);
+      setTeams(teamList);
+      setAllMatches(matches);
+      setFixtures(fixtureList);
     });
-  }, []);
+  }, [selectedId, version]);
 
-  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+  const handleAdd = async () => {
+    const name = prompt('Competition name (e.g. Counties 2 League)');
+    if (!name?.trim()) return;
+    const id = await addCompetition(name.trim());
+    setSelectedId(id);
+    load();
+  };
+  const handleUpdate = async (updates: Parameters<typeof updateCompetition>[1]) => {
+    if (!selected) return;
+    await updateCompetition(selected.id, updates);
+    load();
+  };
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete ${selected.name}? Its matches are kept.`)) return;
+    await deleteCompetition(selected.id);
+    setSelectedId(null);
+    load();
+  };
+  const handleLink = async (matchId: string, link: boolean) => {
+    await setMatchCompetition(matchId, link ? selected : null);
+    load();
+  };
+
+  // Table: the competition's teams plus any saved team that has played one of its fixtures
+  const tableTeams = selected
+    ? teams.filter((t) => selected.teamIds.includes(t.id) || fixtures.some((m) => m.homeTeamId === t.id || m.awayTeamId === t.id))
+    : [];
+  const linkable = selected
+    ? allMatches.filter((m) => !m.competitionId && (selected.teamIds.includes(m.homeTeamId) || selected.teamIds.includes(m.awayTeamId)))
+    : [];
+  const matchDate = (m: DbMatch) => {
+    const ms = m.scheduledAt || m.startedAt;
+    return ms ? new Date(ms).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' }) : '—';
+  };
 
   return (
     <Box maw={720} mx="auto" py="md" pb={80}>
       <Stack gap="lg">
         <Box>
-          <Title order={3} mb={4}>Match management</Title>
-          <Text size="sm" c="dimmed">Date, time, location · Not played / Playing / Completed</Text>
+          <Title order={3} mb={4}>Competitions</Title>
+          <Text size="sm" c="dimmed">Leagues and cups: teams, fixtures and league tables</Text>
         </Box>
-        {loading ? (
-          <Text size="sm" c="dimmed">Loading…</Text>
-        ) : selectedId ? (
-          <MatchDetailView matchId={selectedId} onBack={() => setSelectedId(null)} />
-        ) : matches.length === 0 ? (
-          <Card shadow="sm" padding="lg" radius="md" withBorder>
-            <Text size="sm" c="dimmed">No matches yet. Save a match in Match setup or end a match from the in-game menu.</Text>
-          </Card>
-        ) : (
-          <Card shadow="sm" padding="lg" radius="md" withBorder>
-            <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="xs">Matches</Text>
-            <Text size="xs" c="dimmed" mb="sm">Tap a row to view match details</Text>
-            <ScrollArea>
-              <Table withTableBorder withColumnBorders>
-                <Table.Thead>
-                  <Table.Tr>
-                    <Table.Th>Home</Table.Th>
-                    <Table.Th ta="center">Score</Table.Th>
-                    <Table.Th>Away</Table.Th>
-                    <Table.Th>Date / Time</Table.Th>
-                    <Table.Th>Location</Table.Th>
-                    <Table.Th>Status</Table.Th>
-                    <Table.Th>Result</Table.Th>
-                  </Table.Tr>
-                </Table.Thead>
-                <Table.Tbody>
-                  {matches.map((m) => (
-                    <Table.Tr
-                      key={m.id}
-                      style={{ cursor: 'pointer' }}
-                      onClick={() => setSelectedId(m.id)}
-                      className="hover:bg-zinc-800/50"
-                    >
-                      <Table.Td fw={700}>{m.homeTeamName}</Table.Td>
-                      <Table.Td ta="center" c="dimmed" fw={700}>{m.status === 'completed' ? `${m.homeScore} – ${m.awayScore}` : 'vs'}</Table.Td>
-                      <Table.Td fw={700}>{m.awayTeamName}</Table.Td>
-                      <Table.Td c="dimmed"><Text size="sm">{m.scheduledAt ? new Date(m.scheduledAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : m.startedAt ? new Date(m.startedAt).toLocaleString() : '—'}</Text></Table.Td>
-                      <Table.Td c="dimmed"><Text size="sm">{m.venue || '—'}</Text></Table.Td>
-                      <Table.Td>
-                        <Text size="xs" fw={700} component="span" c={m.status === 'completed' ? 'green' : m.status === 'playing' ? 'yellow' : 'dimmed'}>
-                          {m.status === 'not_played' ? 'Not played' : m.status === 'playing' ? 'Playing' : 'Completed'}
-                        </Text>
-                      </Table.Td>
-                      <Table.Td c="dimmed"><Text size="sm">{m.status === 'completed' ? (m.homeScore > m.awayScore ? `${m.homeTeamName} won` : m.awayScore > m.homeScore ? `${m.awayTeamName} won` : 'Draw') : '—'}</Text></Table.Td>
-                    </Table.Tr>
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Stack gap="xs">
+            {competitions.length === 0 && <Text size="sm" c="dimmed">No competitions yet.</Text>}
+            {competitions.map((c) => (
+              <Button
+                key={c.id}
+                variant={c.id === selectedId ? 'filled' : 'light'}
+                fullWidth
+                onClick={() => setSelectedId(c.id === selectedId ? null : c.id)}
+                style={{ justifyContent: 'flex-start' }}
+              >
+                {c.name} ({c.teamIds.length} teams)
+              </Button>
+            ))}
+          </Stack>
+          <Button variant="subtle" size="sm" color="violet" mt="sm" onClick={handleAdd}>+ New competition</Button>
+        </Card>
+
+        {selected && (
+          <>
+            <Card shadow="sm" padding="lg" radius="md" withBorder>
+              <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">League table</Text>
+              {tableTeams.length === 0 ? (
+                <Text size="sm" c="dimmed">Add teams to see the table.</Text>
+              ) : (
+                <LeagueTable rows={computeLeagueTable(fixtures, tableTeams, selected.pointsRules)} />
+              )}
+            </Card>
+
+            <Card shadow="sm" padding="lg" radius="md" withBorder>
+              <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Fixtures and results</Text>
+              <Stack gap="xs">
+                {fixtures.length === 0 && <Text size="sm" c="dimmed">No fixtures. Schedule a round robin, pick this competition in match setup, or link a match below.</Text>}
+                {fixtures.map((m) => (
+                  <Group key={m.id} justify="space-between" wrap="nowrap" gap="xs">
+                    <Text size="sm" c="dimmed" style={{ width: 96, flexShrink: 0 }}>{matchDate(m)}</Text>
+                    <Text size="sm" fw={700} style={{ flex: 1, minWidth: 0 }} truncate>
+                      {m.homeTeamName} {m.status === 'completed' ? `${m.homeScore} – ${m.awayScore}` : 'v'} {m.awayTeamName}
+                    </Text>
+                    <Button variant="subtle" size="xs" color="red" onClick={() => handleLink(m.id, false)}>Unlink</Button>
+                  </Group>
+                ))}
+              </Stack>
+              {linkable.length > 0 && (
+                <select
+                  value=""
+                  onChange={(e) => e.target.value && handleLink(e.target.value, true)}
+                  className="w-full mt-3 bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold"
+                >
+                  <option value="">Link a match…</option>
+                  {linkable.map((m) => (
+                    <option key={m.id} value={m.id}>
+                      {matchDate(m)} · {m.homeTeamName} v {m.awayTeamName}{m.competition ? ` (${m.competition})` : ''}
+                    </option>
                   ))}
-                </Table.Tbody>
-              </Table>
-            </ScrollArea>
-          </Card>
+                </select>
+              )}
+              <Button variant="subtle" size="sm" color="violet" mt="sm" onClick={() => setShowScheduler(true)}>Schedule round robin…</Button>
+              <FixtureSchedulerModal key={selected.id} opened={showScheduler} competitionId={selected.id} onClose={() => setShowScheduler(false)} onSaved={load} />
+            </Card>
+
+            <Card shadow="sm" padding="lg" radius="md" withBorder>
+              <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Settings</Text>
+              <Stack gap="md">
+                <TextInput
+                  key={`${selected.id}-${selected.name}`}
+                  label="Name"
+                  defaultValue={selected.name}
+                  onBlur={(e) => {
+                    const name = e.currentTarget.value.trim();
+                    if (name && name !== selected.name) handleUpdate({ name });
+                  }}
+                />
+                <MultiSelect
+                  label="Teams"
+                  placeholder="Pick teams"
+                  data={teams.map((t) => ({ value: t.id, label: t.name }))}
+                  value={selected.teamIds}
+                  onChange={(teamIds) => handleUpdate({ teamIds })}
+                  searchable
+                />
+                <Box>
+                  <Text size="sm" fw={500} mb={4}>League points</Text>
+                  <SimpleGrid cols={{ base: 2, sm: 4 }} spacing="xs">
+                    {POINTS_RULE_FIELDS.map(({ key, label }) => (
+                      <label key={key} className="text-zinc-400 text-xs font-bold">
+                        {label}
+                        {/* Saved on blur like the name, so a value can be cleared and retyped; a bad value goes back to the saved one */}
+                        <input
+                          key={`${selected.id}-${key}-${selected.pointsRules[key]}`}
+                          type="number"
+                          min={0}
+                          defaultValue={selected.pointsRules[key]}
+                          onBlur={(e) => {
+                            const value = parseInt(e.currentTarget.value, 10);
+                            if (Number.isNaN(value) || value < 0) e.currentTarget.value = String(selected.pointsRules[key]);
+                            else if (value !== selected.pointsRules[key]) handleUpdate({ pointsRules: { ...selected.pointsRules, [key]: value } });
+                          }}
+                          className="w-full bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold"
+                        />
+                      </label>
+                    ))}
+                  </SimpleGrid>
+                  <Button variant="subtle" size="xs" mt="xs" onClick={() => handleUpdate({ pointsRules: DEFAULT_POINTS_RULES })}>
+                    Reset to 4 / 2 / 0 with bonus points
+                  </Button>
+                </Box>
+                <Button variant="light" color="red" onClick={handleDelete}>Delete competition</Button>
+              </Stack>
+            </Card>
+          </>
         )}
       </Stack>
     </Box>
   );
 };
 
-function getContrastTextColorForMatch(hex: string): string {
-  const h = hex.replace(/^#/, '');
-  if (h.length !== 6 && h.length !== 3) return '#000';
-  const r = h.length === 6 ? parseInt(h.slice(0, 2), 16) : parseInt(h[0] + h[0], 16);
-  const g = h.length === 6 ? parseInt(h.slice(2, 4), 16) : parseInt(h[1] + h[1], 16);
-  const b = h.length === 6 ? parseInt(h.slice(4, 6), 16) : parseInt(h[2] + h[2], 16);
-  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
-  return luminance < 0.4 ? '#fff' : '#000';
-}
+type TournamentDraft = Omit<NewTournament, 'startAt' | 'periodDuration'> & { date: string; time: string; periodMinutes: number };
+
+const numberFieldClass = 'w-full bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold';
+
+/** New tournament: day and match settings, teams per pool and which pool places go into each knockout. */
+const TournamentBuilder: React.FC<{ teams: DbTeam[]; onTeamsChanged: () => void; onCreated: (id: string) => void; onCancel: () => void }> = ({ teams, onTeamsChanged, onCreated, onCancel }) => {
+  const [draft, setDraft] = useState<TournamentDraft>(() => ({
+    name: '',
+    venue: '',
+    date: toDateString(Date.now()),
+    time: '10:00',
+    slotMinutes: 20,
+    pitches: 1,
+    ruleSetId: 'sevens',
+    periodMinutes: 7,
+    pointsRules: TOURNAMENT_POINTS_RULES,
+    pools: [{ name: 'Pool A', teamIds: [] }, { name: 'Pool B', teamIds: [] }],
+    brackets: [{ name: 'Cup', places: [1, 2] }, { name: 'Plate', places: [3] }],
+  }));
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
 
-const MatchLogTable: React.FC<{
-  log: LogEvent[];
-  homeTeamName: string;
-  awayTeamName: string;
-  playerNameMap: Record<string, string>;
-}> = ({ log, homeTeamName, awayTeamName, playerNameMap }) => {
-  const sorted = [...log].sort((a, b) => a.timestamp - b.timestamp);
-  const scoreAtEvent = new Map<string, string>();
-  let h = 0, a = 0;
-  for (const ev of sorted) {
-    if (ev.type === 'score' && ev.points != null && !ev.pending) {
-      if (ev.team === 'home') h += ev.points;
-      else if (ev.team === 'away') a += ev.points;
-    }
-    scoreAtEvent.set(ev.id, `${h} – ${a}`);
-  }
-  const getEventLabel = (ev: LogEvent): string => {
-    if (ev.type === 'match-start') return 'Game started';
-    if (ev.type === 'half-time') return `Half time (H${ev.half ?? 1})`;
-    if (ev.type === 'match-end') return 'Match closed';
-    if (ev.type === 'score') {
-      if ((ev.points ?? 0) === 0 && (ev.scoreType === 'conversion' || ev.scoreType === 'penalty' || ev.scoreType === 'drop-goal'))
-        return ev.scoreType === 'conversion' ? 'Conversion missed' : ev.scoreType === 'penalty' ? 'Penalty missed' : 'Drop goal missed';
-      const label = ev.scoreType === 'try' ? 'Try' : ev.scoreType === 'conversion' ? 'Conversion' : ev.scoreType === 'penalty' ? 'Penalty' : ev.scoreType === 'drop-goal' ? 'Drop goal' : ev.scoreType === 'penalty-try' ? 'Penalty try' : ev.scoreType ?? 'Score';
-      return `${label}${ev.points != null ? ` +${ev.points}` : ''}${ev.pending ? ' (TMO)' : ''}`;
+  const update = (changes: Partial<TournamentDraft>) => setDraft((d) => ({ ...d, ...changes }));
+  const numberField = (key: 'slotMinutes' | 'pitches' | 'periodMinutes', label: string) => (
+    <label className="text-zinc-400 text-xs font-bold">
+      {label}
+      <input
+        type="number"
+        min={1}
+        value={draft[key]}
+        onChange={(e) => {
+          const value = parseInt(e.target.value, 10);
+          if (!Number.isNaN(value) && value >= 1) update({ [key]: value });
+        }}
+        className={numberFieldClass}
+      />
+    </label>
+  );
+  const toTournament = (d: TournamentDraft): NewTournament => {
+    const { date, time, periodMinutes, ...rest } = d;
+    return { ...rest, startAt: new Date(`${date}T${time || '10:00'}`).getTime(), periodDuration: periodMinutes * 60 };
+  };
+
+  const handleAddTeam = async () => {
+    const name = prompt('Team name');
+    if (!name?.trim()) return;
+    await addTeam(name.trim(), '#3b82f6');
+    onTeamsChanged();
+  };
+  const handleCreate = async () => {
+    setSaving(true);
+    setError('');
+    try {
+      const result = await createTournament(toTournament(draft), teams);
+      if (result.ok) onCreated(result.id);
+      else setError(result.error);
+    } catch (e) {
+      console.error('Failed to create tournament', e);
+      setError('Could not save the tournament. Nothing was drawn – try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const poolLetter = (i: number) => String.fromCharCode(65 + i);
+  const largestPool = Math.max(0, ...draft.pools.map((p) => p.teamIds.length));
+  const poolMatchCount = draft.pools.reduce((n, p) => n + (p.teamIds.length * (p.teamIds.length - 1)) / 2, 0);
+
+  return (
+    <Card shadow="sm" padding="lg" radius="md" withBorder>
+      <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">New tournament</Text>
+      <Stack gap="md">
+        <TextInput label="Name" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="e.g. U12 Festival" />
+        <TextInput label="Venue" value={draft.venue} onChange={(e) => update({ venue: e.target.value })} />
+        <SimpleGrid cols={2} spacing="xs">
+          <label className="text-zinc-400 text-xs font-bold">
+            Date
+            <input type="date" value={draft.date} onChange={(e) => update({ date: e.target.value })} className={numberFieldClass} />
+          </label>
+          <label className="text-zinc-400 text-xs font-bold">
+            First kick-off
+            <input type="time" value={draft.time} onChange={(e) => update({ time: e.target.value })} className={numberFieldClass} />
+          </label>
+        </SimpleGrid>
+        <SimpleGrid cols={{ base: 2, sm: 4 }} spacing="xs">
+          <label className="text-zinc-400 text-xs font-bold">
+            Rules
+            <select value={draft.ruleSetId} onChange={(e) => update({ ruleSetId: e.target.value })} className={numberFieldClass}>
+              {RULE_SETS.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </label>
+          {numberField('periodMinutes', 'Minutes per half')}
+          {numberField('slotMinutes', 'Minutes between kick-offs')}
+          {numberField('pitches', 'Pitches')}
+        </SimpleGrid>
+
+        <Box>
+          <Group justify="space-between" mb={4}>
+            <Text size="sm" fw={500}>Pools</Text>
+            <Button variant="subtle" size="xs" onClick={handleAddTeam}>+ New team</Button>
+          </Group>
+          <Stack gap="xs">
+            {draft.pools.map((pool, i) => (
+              <MultiSelect
+                key={i}
+                label={pool.name}
+                placeholder="Pick teams"
+                data={teams
+                  .filter((t) => !draft.pools.some((other, j) => j !== i && other.teamIds.includes(t.id)))
+                  .map((t) => ({ value: t.id, label: t.name }))}
+                value={pool.teamIds}
+                onChange={(teamIds) => update({ pools: draft.pools.map((p, j) => (j === i ? { ...p, teamIds } : p)) })}
+                searchable
+              />
+            ))}
+          </Stack>
+          <Group gap="xs" mt="xs">
+            <Button variant="subtle" size="xs" onClick={() => update({ pools: [...draft.pools, { name: `Pool ${poolLetter(draft.pools.length)}`, teamIds: [] }] })}>+ Pool</Button>
+            {draft.pools.length > 1 && (
+              <Button variant="subtle" size="xs" color="red" onClick={() => update({ pools: draft.pools.slice(0, -1) })}>Remove {draft.pools[draft.pools.length - 1].name}</Button>
+            )}
+          </Group>
+        </Box>
+
+        <Box>
+          <Text size="sm" fw={500} mb={4}>Knockouts</Text>
+          <Stack gap="xs">
+            {draft.brackets.map((bracket, i) => (
+              <Group key={i} gap="xs" align="flex-end" wrap="nowrap">
+                <TextInput
+                  label="Name"
+                  value={bracket.name}
+                  onChange={(e) => update({ brackets: draft.brackets.map((b, j) => (j === i ? { ...b, name: e.target.value } : b)) })}
+                  style={{ flex: 1 }}
+                />
+                <MultiSelect
+                  label="Pool places"
+                  data={Array.from({ length: Math.max(largestPool, ...bracket.places) }, (_, n) => String(n + 1))}
+                  value={bracket.places.map(String)}
+                  onChange={(places) => update({ brackets: draft.brackets.map((b, j) => (j === i ? { ...b, places: places.map(Number).sort((x, y) => x - y) } : b)) })}
+                  style={{ flex: 1 }}
+                />
+                <Button variant="subtle" size="xs" color="red" onClick={() => update({ brackets: draft.brackets.filter((_, j) => j !== i) })}>Del</Button>
+              </Group>
+            ))}
+          </Stack>
+          <Button variant="subtle" size="xs" mt="xs" onClick={() => update({ brackets: [...draft.brackets, { name: '', places: [] }] })}>+ Knockout</Button>
+        </Box>
+
+        <Text size="xs" c="dimmed">
+          {poolMatchCount} pool match{poolMatchCount === 1 ? '' : 'es'}. Pool tables: {draft.pointsRules.win} for a win, {draft.pointsRules.draw} for a draw, {draft.pointsRules.loss} for a loss.
+        </Text>
+        {error && <Text size="sm" c="red">{error}</Text>}
+        <Group gap="sm">
+          <Button variant="default" style={{ flex: 1 }} onClick={onCancel}>Cancel</Button>
+          <Button color="green" style={{ flex: 1 }} onClick={handleCreate} loading={saving}>Create and draw pools</Button>
+        </Group>
+      </Stack>
+    </Card>
+  );
+};
+
+/** One tournament match: kick-off, pitch, sides and score. A level knockout gets buttons to pick who goes through. */
+const TournamentMatchRow: React.FC<{ match: DbMatch; onPickWinner?: (side: 'home' | 'away') => void }> = ({ match, onPickWinner }) => {
+  const stage = match.tournamentStage;
+  const needsWinner = stage?.kind === 'knockout' && match.status === 'completed' && !stage.winner && !knockoutWinner(match);
+  return (
+    <Box>
+      <Group justify="space-between" wrap="nowrap" gap="xs">
+        <Text size="sm" c="dimmed" style={{ width: 56, flexShrink: 0 }}>
+          {match.scheduledAt ? new Date(match.scheduledAt).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' }) : '—'}
+        </Text>
+        <Text size="sm" fw={700} style={{ flex: 1, minWidth: 0 }} truncate>
+          {match.homeTeamName} {match.status === 'completed' ? `${match.homeScore} – ${match.awayScore}` : 'v'} {match.awayTeamName}
+        </Text>
+        <Text size="xs" c={match.status === 'playing' ? 'yellow' : 'dimmed'} style={{ flexShrink: 0 }}>
+          {match.status === 'playing' ? 'Playing' : match.venue}
+        </Text>
+      </Group>
+      {needsWinner && onPickWinner && (
+        <Group gap="xs" mt={4}>
+          <Text size="xs" c="dimmed">Level — who goes through?</Text>
+          <Button variant="light" size="xs" onClick={() => onPickWinner('home')}>{match.homeTeamName}</Button>
+          <Button variant="light" size="xs" onClick={() => onPickWinner('away')}>{match.awayTeamName}</Button>
+        </Group>
+      )}
+    </Box>
+  );
+};
+
+// Tournaments – festival days: pools, pool tables, then cup / plate knockouts
+const TournamentsPage: React.FC<{ onBack: () => void }> = () => {
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [teams, setTeams] = useState<DbTeam[]>([]);
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [building, setBuilding] = useState(false);
+  // Bumped after each change to reload from the database
+  const [version, setVersion] = useState(0);
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+  const selected = tournaments.find((t) => t.id === selectedId) ?? null;
+
+  const load = () => setVersion((v) => v + 1);
+  useEffect(() => {
+    Promise.all([getTournaments(), getTeams(), selectedId ? getTournamentMatches(selectedId) : []]).then(([list, teamList, matchList]) => {
+      setTournaments(list);
+      setTeams(teamList);
+      setMatches(matchList);
+    });
+  }, [selectedId, version]);
+
+  const handleDraw = async () => {
+    if (!selected) return;
+    if (!poolsComplete(matches) && !confirm('Some pool matches have not been played. Draw the knockouts from the tables as they stand?')) return;
+    const result = await drawKnockouts(selected, matches, teams);
+    if (!result.ok) alert(result.error);
+    load();
+  };
+  const handleDelete = async () => {
+    if (!selected || !confirm(`Delete ${selected.name}? Matches not yet played are deleted; played ones are kept.`)) return;
+    await deleteTournament(selected.id);
+    setSelectedId(null);
+    load();
+  };
+  const handlePickWinner = async (matchId: string, side: 'home' | 'away') => {
+    await setKnockoutWinner(matchId, side);
+    load();
+  };
+
+  const standings = selected ? poolStandings(selected, matches, teams) : [];
+  const knockoutMatches = matches.filter((m) => m.tournamentStage?.kind === 'knockout');
+
+  return (
+    <Box maw={720} mx="auto" py="md" pb={80}>
+      <Stack gap="lg">
+        <Box>
+          <Title order={3} mb={4}>Tournaments</Title>
+          <Text size="sm" c="dimmed">Festival days: pools, then cup and plate knockouts. Start each match from Match setup.</Text>
+        </Box>
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Stack gap="xs">
+            {tournaments.length === 0 && <Text size="sm" c="dimmed">No tournaments yet.</Text>}
+            {tournaments.map((t) => (
+              <Button
+                key={t.id}
+                variant={t.id === selectedId ? 'filled' : 'light'}
+                fullWidth
+                onClick={() => { setSelectedId(t.id === selectedId ? null : t.id); setBuilding(false); }}
+                style={{ justifyContent: 'flex-start' }}
+              >
+                {t.name} ({new Date(t.startAt).toLocaleDateString()})
+              </Button>
+            ))}
+          </Stack>
+          {!building && <Button variant="subtle" size="sm" color="violet" mt="sm" onClick={() => { setBuilding(true); setSelectedId(null); }}>+ New tournament</Button>}
+        </Card>
+
+        {building && (
+          <TournamentBuilder
+            teams={teams}
+            onTeamsChanged={load}
+            onCreated={(id) => { setBuilding(false); setSelectedId(id); load(); }}
+            onCancel={() => setBuilding(false)}
+          />
+        )}
+
+        {selected && (
+          <>
+            {standings.map(({ pool, rows }) => (
+              <Card key={pool.name} shadow="sm" padding="lg" radius="md" withBorder>
+                <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">{pool.name}</Text>
+                <LeagueTable rows={rows} />
+                <Stack gap="xs" mt="md">
+                  {matches
+                    .filter((m) => m.tournamentStage?.kind === 'pool' && m.tournamentStage.pool === pool.name)
+                    .map((m) => <TournamentMatchRow key={m.id} match={m} />)}
+                </Stack>
+              </Card>
+            ))}
+
+            <Card shadow="sm" padding="lg" radius="md" withBorder>
+              <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Knockouts</Text>
+              {!selected.seededAt ? (
+                selected.brackets.length === 0 ? (
+                  <Text size="sm" c="dimmed">This tournament has no knockouts.</Text>
+                ) : (
+                  <>
+                    <Text size="sm" c="dimmed" mb="sm">
+                      {selected.brackets.map((b) => `${b.name}: pool place${b.places.length === 1 ? '' : 's'} ${b.places.join(', ')}`).join(' · ')}
+                    </Text>
+                    <Button onClick={handleDraw} disabled={matches.length === 0}>Draw knockouts from the pool tables</Button>
+                  </>
+                )
+              ) : (
+                <Stack gap="md">
+                  {selected.brackets.map((bracket) => {
+                    const bracketMatches = knockoutMatches.filter((m) => m.tournamentStage?.kind === 'knockout' && m.tournamentStage.bracket === bracket.name);
+                    const rounds = [...new Set(bracketMatches.map((m) => (m.tournamentStage?.kind === 'knockout' ? m.tournamentStage.round : 0)))].sort((a, b) => a - b);
+                    const roundCount = rounds.length > 0 ? rounds[rounds.length - 1] + 1 : 0;
+                    return (
+                      <Box key={bracket.name}>
+                        <Text fw={800} mb="xs">{bracket.name}</Text>
+                        <Stack gap="sm">
+                          {rounds.map((round) => (
+                            <Box key={round}>
+                              <Text size="xs" fw={700} c="dimmed" tt="uppercase" mb={4}>{knockoutRoundName(round, roundCount)}</Text>
+                              <Stack gap={6}>
+                                {bracketMatches
+                                  .filter((m) => m.tournamentStage?.kind === 'knockout' && m.tournamentStage.round === round)
+                                  .map((m) => <TournamentMatchRow key={m.id} match={m} onPickWinner={(side) => handlePickWinner(m.id, side)} />)}
+                              </Stack>
+                            </Box>
+                          ))}
+                        </Stack>
+                      </Box>
+                    );
+                  })}
+                </Stack>
+              )}
+            </Card>
+
+            <Button variant="light" color="red" onClick={handleDelete}>Delete tournament</Button>
+          </>
+        )}
+      </Stack>
+    </Box>
+  );
+};
+
+// Seasons – named date ranges that matches and stats are filtered by
+type SeasonDraft = { id?: string; name: string; startDate: string; endDate: string };
+
+/** List of seasons with add / edit / delete. A new season starts the day after the latest one ends and runs a year. */
+const SeasonsCard: React.FC<{ seasons: Season[]; onChange: () => void }> = ({ seasons, onChange }) => {
+  const [draft, setDraft] = useState<SeasonDraft | null>(null);
+  const [error, setError] = useState('');
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+
+  const handleNew = () => {
+    const [y, m, d] = seasons[0] ? seasons[0].endDate.split('-').map(Number) : [new Date().getFullYear() - 1, 12, 31];
+    setDraft({ name: '', startDate: toDateString(new Date(y, m - 1, d + 1).getTime()), endDate: toDateString(new Date(y + 1, m - 1, d).getTime()) });
+    setError('');
+  };
+  const handleSave = async () => {
+    if (!draft) return;
+    const result = await saveSeason(draft);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setDraft(null);
+    onChange();
+  };
+  const handleDelete = async (season: Season) => {
+    if (!confirm(`Delete ${season.name}? Its matches are kept.`)) return;
+    await deleteSeason(season.id);
+    onChange();
+  };
+
+  const dateInputClass = 'w-full bg-zinc-900 text-white font-bold p-2 rounded-lg border-2 border-zinc-800 focus:border-blue-500 focus:outline-none';
+  return (
+    <Card shadow="sm" padding="lg" radius="md" withBorder>
+      <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="xs">Seasons</Text>
+      <Text size="xs" c="dimmed" mb="sm">Matches go in the season their date falls in. Without seasons, calendar years are used.</Text>
+      <Stack gap={4}>
+        {seasons.map((season) => (
+          <Group key={season.id} justify="space-between" wrap="nowrap">
+            <Text size="sm" fw={700}>
+              {season.name}{' '}
+              <Text span size="xs" c="dimmed">
+                {new Date(seasonBounds(season).from).toLocaleDateString()} – {new Date(seasonBounds(season).to).toLocaleDateString()}
+              </Text>
+            </Text>
+            <Group gap="xs" wrap="nowrap">
+              <Button variant="subtle" size="xs" color="blue" onClick={() => { setDraft({ ...season }); setError(''); }}>Edit</Button>
+              <Button variant="subtle" size="xs" color="red" onClick={() => handleDelete(season)}>Del</Button>
+            </Group>
+          </Group>
+        ))}
+      </Stack>
+      {draft ? (
+        <Stack gap="xs" mt="sm">
+          <TextInput label="Name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. 2025/26" />
+          <SimpleGrid cols={2} spacing="sm">
+            <Box>
+              <Text size="sm" fw={500} mb={4}>Starts</Text>
+              <input type="date" value={draft.startDate} onChange={(e) => setDraft({ ...draft, startDate: e.target.value })} className={dateInputClass} />
+            </Box>
+            <Box>
+              <Text size="sm" fw={500} mb={4}>Ends</Text>
+              <input type="date" value={draft.endDate} onChange={(e) => setDraft({ ...draft, endDate: e.target.value })} className={dateInputClass} />
+            </Box>
+          </SimpleGrid>
+          {error && <Text size="sm" c="red">{error}</Text>}
+          <Group gap="sm">
+            <Button variant="default" fullWidth style={{ flex: 1 }} onClick={() => setDraft(null)}>Cancel</Button>
+            <Button color="green" style={{ flex: 1 }} onClick={handleSave}>Save</Button>
+          </Group>
+        </Stack>
+      ) : (
+        <Button variant="subtle" size="sm" color="violet" mt="sm" onClick={handleNew}>+ New season</Button>
+      )}
+    </Card>
+  );
+};
+
+// Fixture scheduler – a season's fixtures laid out week by week, reviewed, then saved
+/**
+ * Bulk scheduling: a run of weekly fixtures against a list of opponents (alternating home and away) or a
+ * competition round robin, skipping chosen dates. The fixtures are listed for review before they are saved.
+ */
+const FixtureSchedulerModal: React.FC<{ opened: boolean; competitionId?: string; onClose: () => void; onSaved: () => void }> = ({ opened, competitionId, onClose, onSaved }) => {
+  const [teams, setTeams] = useState<DbTeam[]>([]);
+  const [competitions, setCompetitions] = useState<Competition[]>([]);
+  const [mode, setMode] = useState<'opposition' | 'round-robin'>(competitionId ? 'round-robin' : 'opposition');
+  const [ourTeamId, setOurTeamId] = useState('');
+  const [opponentIds, setOpponentIds] = useState<string[]>([]);
+  const [firstAtHome, setFirstAtHome] = useState(true);
+  const [homeVenue, setHomeVenue] = useState('');
+  const [chosenCompetitionId, setChosenCompetitionId] = useState(competitionId ?? '');
+  const [homeAndAway, setHomeAndAway] = useState(true);
+  const [startDate, setStartDate] = useState('');
+  const [weekday, setWeekday] = useState(6);
+  const [kickOff, setKickOff] = useState('15:00');
+  const [skipDates, setSkipDates] = useState<string[]>([]);
+  const [skipInput, setSkipInput] = useState('');
+  const [ruleSetId, setRuleSetId] = useState(UNION_RULES.id);
+  const [drafts, setDrafts] = useState<Array<FixtureDraft & { included: boolean }> | null>(null);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!opened) return;
+    Promise.all([getTeams(), getCompetitions()]).then(([teamList, competitionList]) => {
+      setTeams(teamList);
+      setCompetitions(competitionList);
+      setOurTeamId((id) => id || (teamList.find((t) => t.isOurTeam)?.id ?? ''));
+    });
+  }, [opened]);
+
+  const competition = competitions.find((c) => c.id === chosenCompetitionId);
+  const schedule = { startDate, weekday, kickOff, skipDates };
+
+  const handleBuild = () => {
+    let plan: FixturePlan;
+    if (mode === 'opposition') {
+      const ourTeam = teams.find((t) => t.id === ourTeamId);
+      if (!ourTeam) {
+        setError('Choose our team.');
+        return;
+      }
+      const opponents = opponentIds.map((id) => teams.find((t) => t.id === id)).filter((t): t is DbTeam => t != null);
+      plan = oppositionFixtures(ourTeam, opponents, schedule, { firstAtHome, homeVenue, competition });
+    } else {
+      if (!competition) {
+        setError('Choose a competition.');
+        return;
+      }
+      plan = roundRobinFixtures(teams.filter((t) => competition.teamIds.includes(t.id)), schedule, homeAndAway);
+    }
+    if (!plan.ok) {
+      setError(plan.error);
+      return;
+    }
+    setError('');
+    setDrafts(plan.drafts.map((d) => ({ ...d, included: true })));
+  };
+  const updateDraft = (i: number, update: (d: FixtureDraft & { included: boolean }) => FixtureDraft & { included: boolean }) => {
+    setDrafts((list) => list && list.map((d, j) => (j === i ? update(d) : d)));
+  };
+  const swapDraft = (d: FixtureDraft & { included: boolean }) => ({
+    ...d,
+    home: d.away,
+    away: d.home,
+    venue: mode === 'opposition' && d.away.id === ourTeamId ? homeVenue.trim() : '',
+  });
+  const reset = () => {
+    setDrafts(null);
+    setError('');
+    onClose();
+  };
+  const handleSave = async () => {
+    if (!drafts) return;
+    setSaving(true);
+    setError('');
+    try {
+      await saveFixtureDrafts(drafts.filter((d) => d.included), {
+        ruleSet: RULE_SETS.find((r) => r.id === ruleSetId) ?? UNION_RULES,
+        competition: competition?.name ?? '',
+        competitionId: competition?.id,
+      });
+      onSaved();
+      reset();
+    } catch (e) {
+      console.error('Failed to save fixtures', e);
+      setError('Could not save the fixtures. None were saved – try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClass = 'bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold';
+  const fieldClass = 'w-full bg-zinc-900 text-white font-bold p-2 rounded-lg border-2 border-zinc-800 focus:border-blue-500 focus:outline-none';
+  // With a competition chosen, our fixtures are against its teams
+  const teamOptions = teams.filter((t) => mode === 'round-robin' || !competition || competition.teamIds.includes(t.id)).map((t) => ({ value: t.id, label: t.name }));
+  const included = drafts?.filter((d) => d.included).length ?? 0;
+
+  return (
+    <Modal opened={opened} onClose={reset} title="Schedule fixtures" size="xl" centered>
+      {drafts ? (
+        <Stack gap="sm">
+          <Text size="sm" c="dimmed">
+            Check the fixtures before saving. Swap home and away, or untick a fixture to leave it out.
+            {competition ? ` They are saved as ${competition.name} fixtures.` : ''}
+          </Text>
+          <ScrollArea style={{ maxHeight: '50vh' }}>
+            <Table withTableBorder withColumnBorders style={{ minWidth: 560 }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th />
+                  <Table.Th>Rd</Table.Th>
+                  <Table.Th>Kick-off</Table.Th>
+                  <Table.Th>Fixture</Table.Th>
+                  <Table.Th>Venue</Table.Th>
+                  <Table.Th />
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {drafts.map((d, i) => (
+                  <Table.Tr key={i} style={d.included ? undefined : { opacity: 0.5 }}>
+                    <Table.Td ta="center">
+                      <input type="checkbox" checked={d.included} onChange={(e) => updateDraft(i, (x) => ({ ...x, included: e.target.checked }))} />
+                    </Table.Td>
+                    <Table.Td c="dimmed">{d.round}</Table.Td>
+                    <Table.Td style={{ whiteSpace: 'nowrap' }}>
+                      {new Date(d.scheduledAt).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}
+                    </Table.Td>
+                    <Table.Td fw={700}>{d.home.name} v {d.away.name}</Table.Td>
+                    <Table.Td c="dimmed">{d.venue || '—'}</Table.Td>
+                    <Table.Td>
+                      <Button variant="subtle" size="xs" onClick={() => updateDraft(i, swapDraft)}>Swap</Button>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+          {error && <Text size="sm" c="red">{error}</Text>}
+          <Group justify="flex-end" gap="sm">
+            <Button variant="default" onClick={() => { setDrafts(null); setError(''); }} disabled={saving}>Back</Button>
+            <Button color="green" onClick={handleSave} loading={saving} disabled={included === 0}>Save {included} matches</Button>
+          </Group>
+        </Stack>
+      ) : (
+        <Stack gap="sm">
+          <Group gap="xs" grow>
+            <Button variant={mode === 'opposition' ? 'filled' : 'light'} onClick={() => setMode('opposition')}>Our fixtures</Button>
+            <Button variant={mode === 'round-robin' ? 'filled' : 'light'} onClick={() => setMode('round-robin')}>Competition round robin</Button>
+          </Group>
+          {mode === 'opposition' ? (
+            <>
+              <label className="flex flex-col gap-1 text-sm font-bold">
+                Our team
+                <select value={ourTeamId} onChange={(e) => setOurTeamId(e.target.value)} className={selectClass}>
+                  <option value="">Choose…</option>
+                  {teams.map((t) => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+              </label>
+              <MultiSelect
+                label="Opponents, in order"
+                placeholder="Pick teams"
+                data={teamOptions.filter((o) => o.value !== ourTeamId)}
+                value={opponentIds}
+                onChange={setOpponentIds}
+                searchable
+              />
+              <label className="flex items-center gap-2 text-sm font-bold">
+                <input type="checkbox" checked={firstAtHome} onChange={(e) => setFirstAtHome(e.target.checked)} />
+                First match at home, then alternate
+              </label>
+              <TextInput label="Home venue" value={homeVenue} onChange={(e) => setHomeVenue(e.target.value)} placeholder="Our ground, for home fixtures" />
+            </>
+          ) : (
+            <label className="flex items-center gap-2 text-sm font-bold">
+              <input type="checkbox" checked={homeAndAway} onChange={(e) => setHomeAndAway(e.target.checked)} />
+              Home and away (each pair meets twice)
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-sm font-bold">
+            Competition{mode === 'opposition' ? ' (optional)' : ''}
+            <select
+              value={chosenCompetitionId}
+              onChange={(e) => {
+                const chosen = competitions.find((c) => c.id === e.target.value);
+                setChosenCompetitionId(e.target.value);
+                if (chosen) setOpponentIds((ids) => ids.filter((id) => chosen.teamIds.includes(id)));
+              }}
+              className={selectClass}
+            >
+              <option value="">{mode === 'opposition' ? 'None' : 'Choose…'}</option>
+              {competitions.map((c) => <option key={c.id} value={c.id}>{c.name} ({c.teamIds.length} teams)</option>)}
+            </select>
+          </label>
+          <SimpleGrid cols={3} spacing="sm">
+            <Box>
+              <Text size="sm" fw={500} mb={4}>From</Text>
+              <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={fieldClass} />
+            </Box>
+            <Box>
+              <Text size="sm" fw={500} mb={4}>On</Text>
+              <select value={weekday} onChange={(e) => setWeekday(Number(e.target.value))} className={`${selectClass} w-full`}>
+                {WEEKDAYS.map((day, i) => <option key={day} value={i}>{day}s</option>)}
+              </select>
+            </Box>
+            <Box>
+              <Text size="sm" fw={500} mb={4}>Kick-off</Text>
+              <input type="time" value={kickOff} onChange={(e) => setKickOff(e.target.value)} className={fieldClass} />
+            </Box>
+          </SimpleGrid>
+          <Box>
+            <Text size="sm" fw={500} mb={4}>Skip dates (holidays)</Text>
+            <Group gap="xs" wrap="nowrap">
+              <input type="date" value={skipInput} onChange={(e) => setSkipInput(e.target.value)} className={fieldClass} />
+              <Button
+                variant="light"
+                disabled={!skipInput || skipDates.includes(skipInput)}
+                onClick={() => { setSkipDates((list) => [...list, skipInput].sort()); setSkipInput(''); }}
+              >
+                Skip
+              </Button>
+            </Group>
+            {skipDates.length > 0 && (
+              <Group gap={6} mt={6}>
+                {skipDates.map((date) => (
+                  <Button key={date} size="compact-xs" variant="light" color="gray" onClick={() => setSkipDates((list) => list.filter((d) => d !== date))}>
+                    {new Date(`${date}T00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })} ✕
+                  </Button>
+                ))}
+              </Group>
+            )}
+          </Box>
+          <label className="flex items-center gap-2 text-sm font-bold">
+            Rules
+            <select value={ruleSetId} onChange={(e) => setRuleSetId(e.target.value)} className={selectClass}>
+              {RULE_SETS.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </label>
+          {error && <Text size="sm" c="red">{error}</Text>}
+          <Group justify="flex-end" gap="sm">
+            <Button variant="default" onClick={reset}>Cancel</Button>
+            <Button color="green" onClick={handleBuild}>Review fixtures</Button>
+          </Group>
+        </Stack>
+      )}
+    </Modal>
+  );
+};
+
+// Fixture calendar – .ics import of a league's fixtures and export of ours
+/** .ics import of a league's fixtures: preview each event against the teams and matches we have, then add / update / skip. */
+const FixtureImportModal: React.FC<{ opened: boolean; onClose: () => void; onImported: () => void }> = ({ opened, onClose, onImported }) => {
+  const [events, setEvents] = useState<IcsEvent[]>([]);
+  const [fileError, setFileError] = useState('');
+  const [importError, setImportError] = useState('');
+  const [context, setContext] = useState<{ teams: DbTeam[]; competitions: Competition[]; matches: DbMatch[] }>({ teams: [], competitions: [], matches: [] });
+  const [ruleSetId, setRuleSetId] = useState(UNION_RULES.id);
+  const [actions, setActions] = useState<Record<number, FixtureImportAction>>({});
+  const [importing, setImporting] = useState(false);
+
+  const preview = React.useMemo(
+    () => buildFixtureImportRows(events, context.teams, context.competitions, context.matches).map((r) => (r.error ? r : { ...r, action: actions[r.line] ?? r.action })),
+    [events, context, actions]
+  );
+
+  const handleFile = async (file: File) => {
+    setActions({});
+    setImportError('');
+    try {
+      const parsed = parseIcs(await file.text());
+      if (!parsed.ok) {
+        setEvents([]);
+        setFileError(parsed.error);
+        return;
+      }
+      const [teams, competitions, matches] = await Promise.all([getTeams(), getCompetitions(), listMatches()]);
+      setContext({ teams, competitions, matches });
+      setEvents(parsed.events);
+      setFileError('');
+    } catch (e) {
+      console.error('Failed to read fixtures file', e);
+      setEvents([]);
+      setFileError('Could not read that file.');
+    }
+  };
+  const reset = () => {
+    setEvents([]);
+    setFileError('');
+    setImportError('');
+    setActions({});
+    onClose();
+  };
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError('');
+    try {
+      await applyFixtureImport(preview, RULE_SETS.find((r) => r.id === ruleSetId) ?? UNION_RULES);
+      onImported();
+      reset();
+    } catch (e) {
+      console.error('Failed to import fixtures', e);
+      setImportError('Could not save the fixtures. Some may have been saved – check Match management before importing again.');
+      onImported();
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const toAdd = preview.filter((r) => !r.error && r.action === 'add');
+  const toUpdate = preview.filter((r) => !r.error && r.action === 'update').length;
+  const newTeams = new Set(toAdd.flatMap((r) => [r.homeTeam ? '' : r.homeName.toLowerCase(), r.awayTeam ? '' : r.awayName.toLowerCase()]).filter(Boolean)).size;
+  const selectClass = 'bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold';
+  const teamCell = (name: string, team: DbTeam | undefined) => (
+    <>{name || '—'}{name && !team && <Text span size="xs" c="yellow"> new</Text>}</>
+  );
+
+  return (
+    <Modal opened={opened} onClose={reset} title="Import fixtures (.ics)" size="xl" centered>
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">
+          Choose a calendar file from your league. Event titles need to read "Home v Away"; teams are matched by name and created when missing.
+          Fixtures imported before are updated rather than added again.
+        </Text>
+        <Group gap="sm">
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            onChange={async (e) => {
+              const file = e.target.files?.[0];
+              if (file) await handleFile(file);
+              e.target.value = '';
+            }}
+            className="text-sm text-zinc-400"
+          />
+          <label className="flex items-center gap-2 text-sm font-bold">
+            Rules for new matches
+            <select value={ruleSetId} onChange={(e) => setRuleSetId(e.target.value)} className={selectClass}>
+              {RULE_SETS.map((r) => <option key={r.id} value={r.id}>{r.name}</option>)}
+            </select>
+          </label>
+        </Group>
+        {fileError && <Text size="sm" c="red" fw={700}>{fileError}</Text>}
+        {preview.length > 0 && (
+          <ScrollArea style={{ maxHeight: '45vh' }}>
+            <Table withTableBorder withColumnBorders style={{ minWidth: 640 }}>
+              <Table.Thead>
+                <Table.Tr>
+                  <Table.Th>Kick-off</Table.Th>
+                  <Table.Th>Home</Table.Th>
+                  <Table.Th>Away</Table.Th>
+                  <Table.Th>Venue</Table.Th>
+                  <Table.Th>Competition</Table.Th>
+                  <Table.Th>Action</Table.Th>
+                </Table.Tr>
+              </Table.Thead>
+              <Table.Tbody>
+                {preview.map((r) => (
+                  <Table.Tr key={r.line} style={r.error || r.action === 'skip' ? { opacity: 0.6 } : undefined}>
+                    <Table.Td style={{ whiteSpace: 'nowrap' }}>
+                      {r.scheduledAt ? new Date(r.scheduledAt).toLocaleString(undefined, r.allDay ? { dateStyle: 'short' } : { dateStyle: 'short', timeStyle: 'short' }) : '—'}
+                      {r.warning && <Text size="xs" c="yellow" style={{ whiteSpace: 'normal' }}>{r.warning}</Text>}
+                    </Table.Td>
+                    <Table.Td fw={700}>{teamCell(r.homeName, r.homeTeam)}</Table.Td>
+                    <Table.Td fw={700}>{teamCell(r.awayName, r.awayTeam)}</Table.Td>
+                    <Table.Td c="dimmed">{r.venue || '—'}</Table.Td>
+                    <Table.Td c="dimmed">{r.competition || '—'}</Table.Td>
+                    <Table.Td>
+                      {r.error ? (
+                        <Text size="sm" c="red" fw={700}>{r.error}</Text>
+                      ) : r.existing && r.existing.status !== 'not_played' ? (
+                        <Text size="sm" c="dimmed">{r.note}</Text>
+                      ) : (
+                        <Group gap={6} wrap="nowrap">
+                          <select
+                            value={r.action}
+                            onChange={(e) => setActions((a) => ({ ...a, [r.line]: e.target.value as FixtureImportAction }))}
+                            className={selectClass}
+                          >
+                            {r.existing ? <option value="update">Update</option> : <option value="add">Add</option>}
+                            <option value="skip">Skip</option>
+                          </select>
+                          {r.note && r.action === 'skip' && <Text size="xs" c="dimmed">{r.note}</Text>}
+                        </Group>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea>
+        )}
+        {importError && <Text size="sm" c="red">{importError}</Text>}
+        <Group justify="flex-end" gap="sm">
+          <Button variant="default" onClick={reset} disabled={importing}>Cancel</Button>
+          <Button color="green" onClick={handleImport} loading={importing} disabled={toAdd.length + toUpdate === 0}>
+            Import ({toAdd.length} new, {toUpdate} updated{newTeams > 0 ? `, ${newTeams} new teams` : ''})
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+};
+
+/** Fixtures in bulk: schedule a run of them, export the scheduled matches as .ics, import a league's .ics. */
+const FixturesCard: React.FC<{ onImported: () => void }> = ({ onImported }) => {
+  const [showImport, setShowImport] = useState(false);
+  const [showScheduler, setShowScheduler] = useState(false);
+
+  const exportFixtures = async () => {
+    const [scheduled, teams] = await Promise.all([listMatches({ status: 'not_played' }), getTeams()]);
+    const ourTeam = teams.find((t) => t.isOurTeam)?.name;
+    // Past fixtures never played are left out of the calendar
+    const now = Date.now();
+    const upcoming = scheduled.filter((m) => m.scheduledAt && m.scheduledAt >= now).reverse();
+    downloadFile(fixturesIcsFileName(ourTeam), fixturesIcs(upcoming, ourTeam ? `${ourTeam} fixtures` : 'Fixtures'), 'text/calendar');
+  };
+
+  return (
+    <Card shadow="sm" padding="lg" radius="md" withBorder>
+      <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={{ letterSpacing: '0.05em' }} mb={4}>Fixtures</Text>
+      <Text size="xs" c="dimmed" mb="sm">Schedule a season's fixtures at once, share scheduled matches with a calendar app (.ics), or import the league's fixtures.</Text>
+      <Group gap="xs">
+        <Button variant="light" size="sm" color="green" onClick={() => setShowScheduler(true)}>Schedule fixtures…</Button>
+        <Button variant="light" size="sm" onClick={exportFixtures}>Export fixtures (.ics)</Button>
+        <Button variant="default" size="sm" onClick={() => setShowImport(true)}>Import fixtures…</Button>
+      </Group>
+      <FixtureSchedulerModal opened={showScheduler} onClose={() => setShowScheduler(false)} onSaved={onImported} />
+      <FixtureImportModal opened={showImport} onClose={() => setShowImport(false)} onImported={onImported} />
+    </Card>
+  );
+};
+
+// Match management – all matches: date, time, location, status; completed = winner/draw
+const MatchManagementPage: React.FC<{ onBack: () => void }> = () => {
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [seasonId, setSeasonId] = useState('');
+  const [seasonsVersion, setSeasonsVersion] = useState(0);
+  const [matchesVersion, setMatchesVersion] = useState(0);
+  const seasons = useSeasons(seasonsVersion);
+  const choices = seasonChoices(seasons, matches);
+  const season = choices.find((s) => s.id === seasonId);
+  const shown = filterBySeason(matches, season).slice(0, 100);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const exportMatchLog = async (match: DbMatch) => {
+    setExportError(null);
+    try {
+      const names = await getPlayerNameMap(logPlayerIds(match.log));
+      downloadFile(matchLogCsvFileName(match), matchLogCsv(match, names), 'text/csv');
+    } catch (e) {
+      console.error('Failed to export match log', e);
+      setExportError('Failed to export match log.');
+    }
+  };
+  const exportSeasonSummary = async () => {
+    setExportError(null);
+    try {
+      const [completed, players, teams] = await Promise.all([
+        listMatches({ status: 'completed', ...(season && seasonBounds(season)) }),
+        getAllPlayers(),
+        getTeams(),
+      ]);
+      downloadFile(seasonSummaryCsvFileName(season?.name), seasonSummaryCsv(completed, players, teams), 'text/csv');
+    } catch (e) {
+      console.error('Failed to export player stats', e);
+      setExportError('Failed to export player stats.');
+    }
+  };
+
+  useEffect(() => {
+    listMatches().then((list) => {
+      setMatches(list);
+      setLoading(false);
+    });
+  }, [matchesVersion]);
+
+  const sectionLabelStyle = { letterSpacing: '0.05em' as const };
+
+  return (
+    <Box maw={720} mx="auto" py="md" pb={80}>
+      <Stack gap="lg">
+        <Box>
+          <Title order={3} mb={4}>Match management</Title>
+          <Text size="sm" c="dimmed">Date, time, location · Not played / Playing / Completed</Text>
+        </Box>
+        {loading ? (
+          <Text size="sm" c="dimmed">Loading…</Text>
+        ) : selectedId ? (
+          <MatchDetailView matchId={selectedId} onBack={() => setSelectedId(null)} />
+        ) : matches.length === 0 ? (
+          <>
+          <Card shadow="sm" padding="lg" radius="md" withBorder>
+            <Text size="sm" c="dimmed">No matches yet. Save a match in Match setup, schedule or import fixtures below, or end a match from the in-game menu.</Text>
+          </Card>
+          <FixturesCard onImported={() => setMatchesVersion((v) => v + 1)} />
+          </>
+        ) : (
+          <>
+          <SeasonsCard seasons={seasons} onChange={() => setSeasonsVersion((v) => v + 1)} />
+          <FixturesCard onImported={() => setMatchesVersion((v) => v + 1)} />
+          <Card shadow="sm" padding="lg" radius="md" withBorder>
+            <Group justify="space-between" mb="xs">
+              <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle}>Matches</Text>
+              <Group gap="xs">
+                <SeasonSelect seasons={choices} value={seasonId} onChange={setSeasonId} />
+                <Button variant="light" size="sm" onClick={exportSeasonSummary}>Export player stats (CSV)</Button>
+              </Group>
+            </Group>
+            <Text size="xs" c="dimmed" mb="sm">Tap a row to view match details</Text>
+            {exportError && <Text size="sm" c="red" mb="sm">{exportError}</Text>}
+            {shown.length === 0 && <Text size="sm" c="dimmed">No matches in {season?.name}.</Text>}
+            <ScrollArea>
+              <Table withTableBorder withColumnBorders>
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th>Home</Table.Th>
+                    <Table.Th ta="center">Score</Table.Th>
+                    <Table.Th>Away</Table.Th>
+                    <Table.Th>Date / Time</Table.Th>
+                    <Table.Th>Location</Table.Th>
+                    <Table.Th>Status</Table.Th>
+                    <Table.Th>Result</Table.Th>
+                    <Table.Th>Log</Table.Th>
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {shown.map((m) => (
+                    <Table.Tr
+                      key={m.id}
+                      style={{ cursor: 'pointer' }}
+                      onClick={() => setSelectedId(m.id)}
+                      className="hover:bg-zinc-800/50"
+                    >
+                      <Table.Td fw={700}>{m.homeTeamName}</Table.Td>
+                      <Table.Td ta="center" c="dimmed" fw={700}>{m.status === 'completed' ? `${m.homeScore} – ${m.awayScore}` : 'vs'}</Table.Td>
+                      <Table.Td fw={700}>{m.awayTeamName}</Table.Td>
+                      <Table.Td c="dimmed"><Text size="sm">{m.scheduledAt ? new Date(m.scheduledAt).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' }) : m.startedAt ? new Date(m.startedAt).toLocaleString() : '—'}</Text></Table.Td>
+                      <Table.Td c="dimmed"><Text size="sm">{m.venue || '—'}</Text></Table.Td>
+                      <Table.Td>
+                        <Text size="xs" fw={700} component="span" c={m.status === 'completed' ? 'green' : m.status === 'playing' ? 'yellow' : 'dimmed'}>
+                          {m.status === 'not_played' ? 'Not played' : m.status === 'playing' ? 'Playing' : 'Completed'}
+                        </Text>
+                      </Table.Td>
+                      <Table.Td c="dimmed"><Text size="sm">{m.status === 'completed' ? (m.homeScore > m.awayScore ? `${m.homeTeamName} won` : m.awayScore > m.homeScore ? `${m.awayTeamName} won` : 'Draw') : '—'}</Text></Table.Td>
+                      <Table.Td>
+                        {m.log.length > 0 ? (
+                          <Button variant="subtle" size="xs" onClick={(e) => { e.stopPropagation(); exportMatchLog(m); }}>CSV</Button>
+                        ) : '—'}
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </ScrollArea>
+          </Card>
+          </>
+        )}
+      </Stack>
+    </Box>
+  );
+};
+
+/** Save text or an image as a file via a temporary download link. */
+function downloadFile(fileName: string, content: string | Blob, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+function getContrastTextColorForMatch(hex: string): string {
+  const h = hex.replace(/^#/, '');
+  if (h.length !== 6 && h.length !== 3) return '#000';
+  const r = h.length === 6 ? parseInt(h.slice(0, 2), 16) : parseInt(h[0] + h[0], 16);
+  const g = h.length === 6 ? parseInt(h.slice(2, 4), 16) : parseInt(h[1] + h[1], 16);
+  const b = h.length === 6 ? parseInt(h.slice(4, 6), 16) : parseInt(h[2] + h[2], 16);
+  const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+  return luminance < 0.4 ? '#fff' : '#000';
+}
+
+/** Result card image sizes: square for feed posts, 9:16 for stories. */
+const RESULT_CARD_SIZES = {
+  square: { width: 1080, height: 1080, label: 'Square' },
+  story: { width: 1080, height: 1920, label: 'Story' },
+} as const;
+type ResultCardSize = keyof typeof RESULT_CARD_SIZES;
+
+const canvasFont = (px: number, weight = 700) => `${weight} ${px}px system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif`;
+
+/** Set the largest font (from `px` down to `minPx`) at which `text` fits in `maxWidth`. */
+function fitCanvasFont(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, px: number, minPx: number, weight = 700): void {
+  let size = px;
+  ctx.font = canvasFont(size, weight);
+  while (size > minPx && ctx.measureText(text).width > maxWidth) {
+    size -= 2;
+    ctx.font = canvasFont(size, weight);
+  }
+}
+
+/** Draw text, cut short with an ellipsis when wider than `maxWidth`. */
+function fillTextClipped(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, maxWidth: number): void {
+  let shown = text;
+  while (shown.length > 1 && ctx.measureText(shown).width > maxWidth) shown = shown.slice(0, -2) + '…';
+  ctx.fillText(shown, x, y);
+}
+
+/** PNG result card in the match's shirt colours: score, competition, venue, date and scorers. */
+async function renderResultCard(match: DbMatch, playerNames: Record<string, string>, size: ResultCardSize): Promise<Blob | null> {
+  const { width, height } = RESULT_CARD_SIZES[size];
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  const story = size === 'story';
+  const pad = 64;
+  const ruleSet = getMatchRuleSet(match);
+  const sides = [
+    { team: 'home' as const, name: match.homeTeamName, score: match.homeScore, color: match.homeColor },
+    { team: 'away' as const, name: match.awayTeamName, score: match.awayScore, color: match.awayColor },
+  ];
+
+  ctx.fillStyle = '#18181b';
+  ctx.fillRect(0, 0, width, height);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  let y = story ? 160 : pad;
+  if (match.competition) {
+    ctx.fillStyle = '#a1a1aa';
+    fitCanvasFont(ctx, match.competition.toUpperCase(), width - 2 * pad, 40, 24, 800);
+    ctx.fillText(match.competition.toUpperCase(), width / 2, y);
+  }
+  y += 64;
+  ctx.fillStyle = '#fff';
+  ctx.font = canvasFont(34, 800);
+  ctx.fillText('FULL TIME', width / 2, y);
+  y += 64;
+
+  // Score panels in team colours
+  const gap = 16;
+  const panelW = (width - 2 * pad - gap) / 2;
+  const panelH = story ? 560 : 400;
+  sides.forEach((side, i) => {
+    const x = pad + i * (panelW + gap);
+    ctx.beginPath();
+    ctx.roundRect(x, y, panelW, panelH, 24);
+    ctx.fillStyle = side.color;
+    ctx.fill();
+    ctx.strokeStyle = 'rgba(255,255,255,0.2)';
+    ctx.lineWidth = 4;
+    ctx.stroke();
+    ctx.fillStyle = getContrastTextColorForMatch(side.color);
+    ctx.textBaseline = 'middle';
+    ctx.font = canvasFont(story ? 260 : 200, 900);
+    ctx.fillText(String(side.score), x + panelW / 2, y + panelH * 0.42);
+    fitCanvasFont(ctx, side.name, panelW - 48, 52, 26, 800);
+    fillTextClipped(ctx, side.name, x + panelW / 2, y + panelH * 0.82, panelW - 48);
+  });
+  y += panelH + 40;
+
+  const dateMs = match.startedAt || match.scheduledAt;
+  const meta = [match.venue?.trim(), dateMs ? new Date(dateMs).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }) : '']
+    .filter(Boolean).join('  ·  ');
+  ctx.textBaseline = 'top';
+  if (meta) {
+    ctx.fillStyle = '#d4d4d8';
+    fitCanvasFont(ctx, meta, width - 2 * pad, 34, 22, 600);
+    ctx.fillText(meta, width / 2, y);
+    y += 72;
+  }
+
+  // Scorers in two columns, cut off with "…" when they don't fit
+  ctx.textAlign = 'left';
+  const lineH = story ? 48 : 38;
+  const textPx = story ? 34 : 28;
+  const bottom = height - (story ? 160 : pad);
+  sides.forEach((side, i) => {
+    const x = pad + i * (panelW + gap);
+    const lines = scorersByHeading(match.log, ruleSet, side.team).flatMap(({ heading, scorers }) => [
+      { text: heading, bold: true },
+      ...scorers.map((s) => ({
+        text: `${s.teamOnly ? side.name : (s.playerId && playerNames[s.playerId]) || '—'} ${s.minutes.map((m) => `${m}'`).join(', ')}`,
+        bold: false,
+      })),
+    ]);
+    ctx.fillStyle = side.color;
+    ctx.fillRect(x, y, panelW, 6);
+    let ly = y + 24;
+    lines.forEach((line, n) => {
+      if (ly + lineH > bottom) return;
+      const last = ly + 2 * lineH > bottom && n < lines.length - 1;
+      ctx.font = canvasFont(textPx, line.bold ? 800 : 500);
+      ctx.fillStyle = line.bold ? '#a1a1aa' : '#fff';
+      fillTextClipped(ctx, last ? '…' : line.text, x, ly, panelW);
+      ly += lineH;
+      if (last) ly = bottom;
+    });
+  });
+
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
+}
+
+/** Result card preview (square or story) with share-as-file and download. */
+const ResultCardModal: React.FC<{ match: DbMatch; playerNameMap: Record<string, string>; opened: boolean; onClose: () => void }> = ({ match, playerNameMap, opened, onClose }) => {
+  const [size, setSize] = useState<ResultCardSize>('square');
+  const [image, setImage] = useState<{ blob: Blob; url: string } | null>(null);
+  useEffect(() => {
+    if (!opened) return;
+    let cancelled = false;
+    let url = '';
+    renderResultCard(match, playerNameMap, size).then((blob) => {
+      if (cancelled || !blob) return;
+      url = URL.createObjectURL(blob);
+      setImage({ blob, url });
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setImage(null);
+    };
+  }, [opened, match, playerNameMap, size]);
+
+  const fileName = `${matchFileBaseName(match)}-${size}.png`;
+  const share = async () => {
+    if (!image) return;
+    const file = new File([image.blob], fileName, { type: 'image/png' });
+    if (navigator.canShare?.({ files: [file] })) {
+      await navigator.share({ files: [file], title: `${match.homeTeamName} ${match.homeScore}–${match.awayScore} ${match.awayTeamName}` }).catch(() => {});
+    } else {
+      downloadFile(fileName, image.blob, 'image/png');
     }
-    if (ev.type === 'card') return ev.cardType === 'red' ? 'Red card' : 'Yellow card';
-    if (ev.type === 'substitution') return 'Substitution';
-    return '—';
   };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title="Result image" size="md" centered>
+      <Group gap="xs" mb="sm">
+        {(Object.keys(RESULT_CARD_SIZES) as ResultCardSize[]).map((s) => (
+          <Button key={s} size="xs" variant={size === s ? 'filled' : 'default'} onClick={() => setSize(s)}>
+            {RESULT_CARD_SIZES[s].label}
+          </Button>
+        ))}
+      </Group>
+      <Box mb="md" style={{ textAlign: 'center' }}>
+        {image ? (
+          <img src={image.url} alt="Result card" style={{ maxWidth: '100%', maxHeight: '60vh', borderRadius: 8 }} />
+        ) : (
+          <Text size="sm" c="dimmed" fw={700}>Drawing…</Text>
+        )}
+      </Box>
+      <Group gap="sm">
+        <Button variant="default" fullWidth onClick={() => image && downloadFile(fileName, image.blob, 'image/png')} disabled={!image}>Download</Button>
+        <Button color="green" fullWidth leftSection={<IconShare size={18} />} onClick={share} disabled={!image}>Share</Button>
+      </Group>
+    </Modal>
+  );
+};
+
+const MatchLogTable: React.FC<{
+  log: LogEvent[];
+  homeTeamName: string;
+  awayTeamName: string;
+  playerNameMap: Record<string, string>;
+  ruleSet: RuleSet;
+  periods: MatchPeriod[];
+}> = ({ log, homeTeamName, awayTeamName, playerNameMap, ruleSet, periods }) => {
+  const sorted = [...log].sort((a, b) => a.timestamp - b.timestamp);
+  const scoreAtEvent = new Map<string, string>();
+  let h = 0, a = 0;
+  for (const ev of sorted) {
+    if (ev.type === 'score' && ev.points != null && !ev.pending) {
+      if (ev.team === 'home') h += ev.points;
+      else if (ev.team === 'away') a += ev.points;
+    }
+    scoreAtEvent.set(ev.id, `${h} – ${a}`);
+  }
   const getTeamForEvent = (ev: LogEvent): string => {
     if (ev.team === 'home') return homeTeamName;
     if (ev.team === 'away') return awayTeamName;
@@ -2552,43 +4507,579 @@ const MatchLogTable: React.FC<{
       const onP = playerNameMap[ev.onPlayerId];
       return off && onP ? `${off} → ${onP}` : '—';
     }
-    if ((ev.type === 'score' || ev.type === 'card') && ev.playerId) return playerNameMap[ev.playerId] ?? '—';
+    if (ev.type !== 'substitution' && ev.playerId) return playerNameMap[ev.playerId] ?? '—';
     return '—';
   };
   const timeStr = (ev: LogEvent): string => {
-    if (ev.matchTime != null) return `H${ev.half ?? 1} ${formatTime(ev.matchTime)}`;
-    if (ev.half != null) return `H${ev.half}`;
+    if (ev.matchTime != null) return `${getPeriodShortLabel(periods, ev.half ?? 1)} ${formatTime(ev.matchTime)}`;
+    if (ev.half != null) return getPeriodShortLabel(periods, ev.half);
     return '—';
   };
   return (
-    <Table withTableBorder withColumnBorders style={{ background: 'var(--mantine-color-dark-7)' }}>
-      <Table.Thead>
-        <Table.Tr>
-          <Table.Th>Time</Table.Th>
-          <Table.Th>Team</Table.Th>
-          <Table.Th>Event</Table.Th>
-          <Table.Th>Player</Table.Th>
-          <Table.Th>Match score</Table.Th>
-        </Table.Tr>
-      </Table.Thead>
-      <Table.Tbody>
-        {sorted.map((ev) => (
-          <Table.Tr key={ev.id}>
-            <Table.Td>{timeStr(ev)}</Table.Td>
-            <Table.Td>{getTeamForEvent(ev)}</Table.Td>
-            <Table.Td>{getEventLabel(ev)}</Table.Td>
-            <Table.Td>{getPlayerLabel(ev)}</Table.Td>
-            <Table.Td>{scoreAtEvent.get(ev.id) ?? '–'}</Table.Td>
-          </Table.Tr>
-        ))}
-      </Table.Tbody>
-    </Table>
+    <Table withTableBorder withColumnBorders style={{ background: 'var(--mantine-color-dark-7)' }}>
+      <Table.Thead>
+        <Table.Tr>
+          <Table.Th>Time</Table.Th>
+          <Table.Th>Team</Table.Th>
+          <Table.Th>Event</Table.Th>
+          <Table.Th>Player</Table.Th>
+          <Table.Th>Match score</Table.Th>
+        </Table.Tr>
+      </Table.Thead>
+      <Table.Tbody>
+        {sorted.map((ev) => (
+          <Table.Tr key={ev.id}>
+            <Table.Td>{timeStr(ev)}</Table.Td>
+            <Table.Td>{getTeamForEvent(ev)}</Table.Td>
+            <Table.Td>{describeLogEvent(ev, ruleSet, periods)}</Table.Td>
+            <Table.Td>{getPlayerLabel(ev)}</Table.Td>
+            <Table.Td>{scoreAtEvent.get(ev.id) ?? '–'}</Table.Td>
+          </Table.Tr>
+        ))}
+      </Table.Tbody>
+    </Table>
+  );
+};
+
+/** Edit mode for a completed match's log: change, add or remove scores, cards and substitutions. */
+const MatchLogEditor: React.FC<{
+  match: DbMatch;
+  playerNameMap: Record<string, string>;
+  onCancel: () => void;
+  onSaved: (match: DbMatch) => void;
+}> = ({ match, playerNameMap, onCancel, onSaved }) => {
+  const ruleSet = getMatchRuleSet(match);
+  const periods = getMatchPeriods(match);
+  const [draft, setDraft] = useState<LogEvent[]>(() => [...match.log].sort((a, b) => a.timestamp - b.timestamp));
+  const [teamPlayers, setTeamPlayers] = useState<Record<'home' | 'away', Array<{ id: string; name: string }>>>({ home: [], away: [] });
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState('');
+  useEffect(() => {
+    // Team pool players (scheduled matches) plus anyone already in the log for that side
+    const load = async (teamId: string, team: 'home' | 'away') => {
+      const pool = teamId === 'home' || teamId === 'away' ? [] : await getPlayersByTeam(teamId);
+      const options = new Map(pool.map((p) => [p.id, `${p.name} (#${p.number})`]));
+      match.log.forEach((ev) => {
+        if (ev.team !== team) return;
+        for (const id of [ev.playerId, ev.offPlayerId, ev.onPlayerId]) {
+          if (id && !options.has(id)) options.set(id, playerNameMap[id] ?? '—');
+        }
+      });
+      return [...options].map(([id, name]) => ({ id, name }));
+    };
+    Promise.all([load(match.homeTeamId, 'home'), load(match.awayTeamId, 'away')]).then(([home, away]) => setTeamPlayers({ home, away }));
+  }, [match, playerNameMap]);
+
+  // Sin-bin returns follow their card (team, player) and go when it is no longer a yellow card
+  const syncCardReturns = (log: LogEvent[]): LogEvent[] =>
+    log.flatMap((e) => {
+      if (e.type !== 'card-return') return [e];
+      const card = log.find((c) => c.id === e.cardId);
+      if (card?.type !== 'card' || card.cardType !== 'yellow') return [];
+      return [{ ...e, team: card.team, playerId: card.playerId }];
+    });
+  const updateEvent = (id: string, changes: Partial<LogEvent>) => {
+    setDraft((log) => {
+      const ev = log.find((e) => e.id === id);
+      if (!ev) return log;
+      const next = { ...ev, ...changes };
+      return syncCardReturns('half' in changes || 'matchTime' in changes ? placeLogEvent(log, next) : log.map((e) => (e.id === id ? next : e)));
+    });
+  };
+  const removeEvent = (id: string) => setDraft((log) => {
+    const ev = log.find((e) => e.id === id);
+    return syncCardReturns(log
+      .filter((e) => e.id !== id)
+      .map((e) => (ev?.type === 'card-return' && e.id === ev.cardId ? { ...e, returned: false } : e)));
+  });
+  const addEvent = (type: 'score' | 'card') => {
+    const rule = ruleSet.scoreTypes[0];
+    const ev: LogEvent = type === 'score'
+      ? { id: crypto.randomUUID(), timestamp: Date.now(), type: 'score', team: 'home', scoreType: rule.type, points: rule.points, kickOutcome: rule.isKick ? 'made' : undefined, half: 1, matchTime: 0 }
+      : { id: crypto.randomUUID(), timestamp: Date.now(), type: 'card', team: 'home', cardType: 'yellow', returnTime: ruleSet.sinBinSeconds, half: 1, matchTime: 0 };
+    setDraft((log) => placeLogEvent(log, ev));
+  };
+
+  // One select covers score types, missed kicks and cards, so an event can be re-typed either way
+  const typeValue = (ev: LogEvent): string => {
+    if (ev.type === 'card') return `card:${ev.cardType ?? 'yellow'}`;
+    return `${ev.scoreType}${ev.type === 'kick-attempt' ? ':missed' : ''}`;
+  };
+  const setType = (ev: LogEvent, value: string) => {
+    const [kind, variant] = value.split(':');
+    if (kind === 'card') {
+      const cardType = variant === 'red' ? 'red' : 'yellow';
+      updateEvent(ev.id, {
+        type: 'card',
+        cardType,
+        returnTime: cardType === 'yellow' ? (ev.matchTime ?? 0) + ruleSet.sinBinSeconds : undefined,
+        scoreType: undefined,
+        points: undefined,
+        pending: undefined,
+        kickOutcome: undefined,
+      });
+      return;
+    }
+    const rule = getScoreTypeRule(ruleSet, kind);
+    const missed = variant === 'missed';
+    updateEvent(ev.id, {
+      type: missed ? 'kick-attempt' : 'score',
+      scoreType: kind,
+      points: missed ? 0 : rule?.points ?? 0,
+      pending: missed ? undefined : ev.pending,
+      kickOutcome: rule?.isKick ? (missed ? 'missed' : 'made') : undefined,
+      playerId: rule?.teamOnly ? undefined : ev.playerId,
+      cardType: undefined,
+      returned: undefined,
+      returnTime: undefined,
+    });
+  };
+  const setMinute = (ev: LogEvent, minute: number) => {
+    const matchTime = Math.max(0, Math.floor(minute)) * 60;
+    updateEvent(ev.id, {
+      matchTime,
+      ...(ev.type === 'card' && ev.cardType === 'yellow' ? { returnTime: matchTime + ruleSet.sinBinSeconds } : {}),
+    });
+  };
+  const systemLabel = (ev: LogEvent): string => {
+    if (ev.type === 'match-start') return 'Game started';
+    if (ev.type === 'half-time') return `End of ${getPeriodLabel(periods, ev.half ?? 1)}`;
+    return 'Match closed';
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError('');
+    try {
+      const updated = await updateCompletedMatchLog(match.id, draft);
+      if (updated) onSaved(updated);
+    } catch (e) {
+      console.error('Failed to save match log', e);
+      setSaveError('Could not save the log. Try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const selectClass = 'bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold';
+  const periodCount = Math.max(match.currentHalf, 1);
+  const { homeScore, awayScore } = scoreFromLog(draft);
+  const incompleteSubs = draft.some((ev) => ev.type === 'substitution' && (!ev.offPlayerId || !ev.onPlayerId));
+  return (
+    <Stack gap="sm">
+      {draft.map((ev) => {
+        if (ev.type === 'match-start' || ev.type === 'half-time' || ev.type === 'match-end') {
+          return (
+            <Text key={ev.id} size="xs" c="dimmed" fw={700}>
+              {getPeriodShortLabel(periods, ev.half ?? 1)} {formatTime(ev.matchTime ?? 0)} · {systemLabel(ev)}
+            </Text>
+          );
+        }
+        const team = ev.team ?? 'home';
+        const players = teamPlayers[team];
+        return (
+          <Box key={ev.id} p="xs" style={{ background: 'var(--mantine-color-dark-6)', borderRadius: 8 }}>
+            <div className="flex flex-wrap items-center gap-2">
+              <select value={ev.half ?? 1} onChange={(e) => updateEvent(ev.id, { half: Number(e.target.value) })} className={selectClass}>
+                {Array.from({ length: periodCount }, (_, i) => i + 1).map((n) => (
+                  <option key={n} value={n}>{getPeriodShortLabel(periods, n)}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={Math.floor((ev.matchTime ?? 0) / 60)}
+                onChange={(e) => setMinute(ev, Number(e.target.value) || 0)}
+                className={`w-16 ${selectClass}`}
+                aria-label="Minute"
+              />
+              {ev.type !== 'card-return' && (
+                <select value={team} onChange={(e) => updateEvent(ev.id, { team: e.target.value as 'home' | 'away', playerId: undefined, offPlayerId: undefined, onPlayerId: undefined })} className={selectClass}>
+                  <option value="home">{match.homeTeamName}</option>
+                  <option value="away">{match.awayTeamName}</option>
+                </select>
+              )}
+              <Button variant="subtle" size="xs" color="red" ml="auto" onClick={() => removeEvent(ev.id)}>Remove</Button>
+            </div>
+            {ev.type === 'substitution' ? (
+              // Off and on come from the chosen side's players, so changing the side means picking them again
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <Text size="sm" fw={700}>Substitution</Text>
+                <select value={ev.offPlayerId ?? ''} onChange={(e) => updateEvent(ev.id, { offPlayerId: e.target.value || undefined })} className={`flex-1 ${selectClass}`} aria-label="Player off">
+                  <option value="">— Off</option>
+                  {players.filter((p) => p.id !== ev.onPlayerId).map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                <Text size="sm" fw={700}>→</Text>
+                <select value={ev.onPlayerId ?? ''} onChange={(e) => updateEvent(ev.id, { onPlayerId: e.target.value || undefined })} className={`flex-1 ${selectClass}`} aria-label="Player on">
+                  <option value="">— On</option>
+                  {players.filter((p) => p.id !== ev.offPlayerId).map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+                {(!ev.offPlayerId || !ev.onPlayerId) && <Text size="xs" c="yellow" fw={700}>Pick both players</Text>}
+              </div>
+            ) : ev.type === 'card-return' ? (
+              <Text size="sm" fw={700} mt="xs">
+                Back from sin bin: {(ev.playerId && (players.find((p) => p.id === ev.playerId)?.name ?? playerNameMap[ev.playerId])) ?? '—'}
+              </Text>
+            ) : (
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                <select value={typeValue(ev)} onChange={(e) => setType(ev, e.target.value)} className={selectClass}>
+                  {ruleSet.scoreTypes.map((r) => (
+                    <React.Fragment key={r.type}>
+                      <option value={r.type}>{r.label} +{r.points}</option>
+                      {r.isKick && <option value={`${r.type}:missed`}>{r.label} missed</option>}
+                    </React.Fragment>
+                  ))}
+                  <option value="card:yellow">Yellow card</option>
+                  <option value="card:red">Red card</option>
+                </select>
+                {!(ev.type === 'score' && getScoreTypeRule(ruleSet, ev.scoreType)?.teamOnly) && (
+                  <select value={ev.playerId ?? ''} onChange={(e) => updateEvent(ev.id, { playerId: e.target.value || undefined })} className={`flex-1 ${selectClass}`}>
+                    <option value="">— Unassigned</option>
+                    {players.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                )}
+                {ev.pending && <Text size="xs" c="yellow" fw={700}>TMO pending</Text>}
+              </div>
+            )}
+          </Box>
+        );
+      })}
+      <Group gap="xs">
+        <Button variant="light" size="xs" color="green" onClick={() => addEvent('score')}>+ Score</Button>
+        <Button variant="light" size="xs" color="yellow" onClick={() => addEvent('card')}>+ Card</Button>
+      </Group>
+      <Text size="sm" fw={800}>Result: {match.homeTeamName} {homeScore} – {awayScore} {match.awayTeamName}</Text>
+      {saveError && <Text size="sm" c="red">{saveError}</Text>}
+      <Group>
+        <Button variant="default" onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button color="green" onClick={handleSave} loading={saving} disabled={incompleteSubs}>Save log</Button>
+      </Group>
+    </Stack>
+  );
+};
+
+/** Details printed at the top of a team sheet. */
+interface TeamSheetFixture {
+  homeTeamName: string;
+  awayTeamName: string;
+  competition?: string;
+  venue?: string;
+  referee?: string;
+  scheduledAt?: number;
+}
+
+/** Printable pre-match team sheets (one page per team) with captain, front-row replacements and signature lines. */
+const TeamSheetPrint: React.FC<{ fixture: TeamSheetFixture; sheets: TeamSheet[]; onClose: () => void }> = ({ fixture, sheets, onClose }) => {
+  const [which, setWhich] = useState<'both' | 'home' | 'away'>('both');
+  const [captains, setCaptains] = useState<Record<string, number | null>>(() => Object.fromEntries(sheets.map((s) => [s.team, s.captainNumber])));
+  const shown = sheets.filter((s) => which === 'both' || s.team === which);
+  const details = [
+    fixture.scheduledAt ? new Date(fixture.scheduledAt).toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'short' }) : '',
+    fixture.venue,
+    fixture.competition,
+    fixture.referee && `Referee: ${fixture.referee}`,
+  ].filter(Boolean).join(' · ');
+
+  return createPortal(
+    <div className="report-overlay">
+      <div className="report-toolbar">
+        <select value={which} onChange={(e) => setWhich(e.target.value as typeof which)} className="bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold">
+          <option value="both">Both teams</option>
+          <option value="home">{fixture.homeTeamName}</option>
+          <option value="away">{fixture.awayTeamName}</option>
+        </select>
+        {shown.map((s) => (
+          <select
+            key={s.team}
+            value={captains[s.team] ?? ''}
+            onChange={(e) => setCaptains((prev) => ({ ...prev, [s.team]: e.target.value ? Number(e.target.value) : null }))}
+            className="bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold"
+          >
+            <option value="">{s.teamName}: no captain</option>
+            {s.rows.map((r) => <option key={r.number} value={r.number}>Captain: {r.number}. {r.name}</option>)}
+          </select>
+        ))}
+        <Button variant="default" onClick={onClose}>Close</Button>
+        <Button color="green" onClick={() => window.print()}>Print / Save as PDF</Button>
+      </div>
+      {shown.map((sheet) => {
+        const replacements = sheet.rows.filter((r) => !r.isStarter);
+        const frontRowReplacements = replacements.filter((r) => r.frontRow);
+        const row = (r: TeamSheetRow) => (
+          <tr key={r.number}>
+            <td>{r.number}</td>
+            <td>{r.name}{captains[sheet.team] === r.number && ' (C)'}</td>
+            <td>{r.position}</td>
+            <td>{!r.isStarter && r.frontRow ? 'FR' : ''}</td>
+          </tr>
+        );
+        return (
+          <article key={sheet.team} className="match-report">
+            <header>
+              <div className="report-muted">Team sheet</div>
+              <h1>{sheet.teamName}</h1>
+              <div>{sheet.team === 'home' ? `v ${fixture.awayTeamName} (home)` : `v ${fixture.homeTeamName} (away)`}</div>
+              {details && <div className="report-muted">{details}</div>}
+            </header>
+            <section>
+              <h2>Starting players</h2>
+              <table>
+                <thead><tr><th style={{ width: 40 }}>No.</th><th>Name</th><th>Position</th><th style={{ width: 40 }}></th></tr></thead>
+                <tbody>{sheet.rows.filter((r) => r.isStarter).map(row)}</tbody>
+              </table>
+            </section>
+            <section>
+              <h2>Replacements</h2>
+              {replacements.length === 0 ? <p className="report-muted">None named.</p> : (
+                <table>
+                  <thead><tr><th style={{ width: 40 }}>No.</th><th>Name</th><th>Position</th><th style={{ width: 40 }}>FR</th></tr></thead>
+                  <tbody>{replacements.map(row)}</tbody>
+                </table>
+              )}
+              <p>
+                <b>Front-row replacements:</b>{' '}
+                {frontRowReplacements.length ? frontRowReplacements.map((r) => `${r.number}. ${r.name}`).join(', ') : 'none'}
+              </p>
+              <p><b>Captain:</b> {sheet.rows.find((r) => r.number === captains[sheet.team])?.name ?? '________________________'}</p>
+            </section>
+            <section>
+              <h2>Signatures</h2>
+              <div className="signature-lines">
+                <div>Team captain</div>
+                <div>Coach / team manager</div>
+                <div>Referee</div>
+                <div>Opposition captain</div>
+              </div>
+            </section>
+          </article>
+        );
+      })}
+    </div>,
+    document.body
+  );
+};
+
+/** Print-ready match report (lineups, scorers, cards, substitutions, period scores, timeline). Printing shows only the report (see index.css). */
+const MatchReport: React.FC<{ match: DbMatch; playerNameMap: Record<string, string>; onClose: () => void }> = ({ match, playerNameMap, onClose }) => {
+  const ruleSet = getMatchRuleSet(match);
+  const periods = getMatchPeriods(match);
+  const log = [...match.log].sort((a, b) => a.timestamp - b.timestamp);
+  const squad = match.squad ?? [];
+  const squadById = new Map(squad.map((p) => [p.id, p]));
+  const nameOf = (id: string | undefined) => {
+    if (!id) return '—';
+    const p = squadById.get(id);
+    return p ? `${p.name} (${p.number})` : playerNameMap[id] ?? '—';
+  };
+  const teamName = (team: 'home' | 'away' | undefined) => (team === 'home' ? match.homeTeamName : team === 'away' ? match.awayTeamName : '');
+  const at = (ev: LogEvent) => (ev.matchTime != null ? `${getPeriodShortLabel(periods, ev.half ?? 1)} ${formatTime(ev.matchTime)}` : '');
+  const dateMs = match.startedAt || match.scheduledAt;
+  const periodScores = periodEndScores(match.log);
+  const scoreAt = new Map<string, string>();
+  let h = 0, a = 0;
+  for (const ev of log) {
+    if (ev.type === 'score' && !ev.pending && ev.points != null) {
+      if (ev.team === 'home') h += ev.points;
+      else if (ev.team === 'away') a += ev.points;
+    }
+    scoreAt.set(ev.id, `${h}–${a}`);
+  }
+  const cards = log.filter((e) => e.type === 'card');
+  const subs = log.filter((e) => e.type === 'substitution');
+
+  const lineup = (team: 'home' | 'away') => {
+    const players = squad.filter((p) => p.team === team).sort((x, y) => x.number - y.number);
+    if (players.length === 0) return <p className="report-muted">Lineup not recorded.</p>;
+    const row = (p: MatchSquadPlayer) => (
+      <tr key={p.id}><td>{p.number}</td><td>{p.name}</td><td>{p.position}</td></tr>
+    );
+    const starters = players.filter((p) => p.isStarter);
+    const replacements = players.filter((p) => !p.isStarter);
+    return (
+      <table>
+        <thead><tr><th>No.</th><th>Name</th><th>Position</th></tr></thead>
+        <tbody>
+          {starters.map(row)}
+          {replacements.length > 0 && <tr><th colSpan={3}>Replacements</th></tr>}
+          {replacements.map(row)}
+        </tbody>
+      </table>
+    );
+  };
+
+  const scorers = (team: 'home' | 'away') => {
+    const lines = scorersByHeading(match.log, ruleSet, team).map(({ heading, scorers }) => {
+      const who = scorers.map((s) => `${s.teamOnly ? teamName(team) : nameOf(s.playerId)} ${s.minutes.map((m) => `${m}'`).join(', ')}`).join('; ');
+      return <p key={heading}><b>{heading}:</b> {who}</p>;
+    });
+    const kicks = kickingByPlayer(match.log, team);
+    const kickLines = Object.entries(kicks).map(([id, k]) => `${id === UNASSIGNED_KICKER ? 'Unassigned' : nameOf(id)} ${formatKickRecord(k.total)}`);
+    return (
+      <>
+        {lines.length ? lines : <p className="report-muted">No scores.</p>}
+        {kickLines.length > 0 && <p><b>Goal kicking:</b> {kickLines.join('; ')}</p>}
+      </>
+    );
+  };
+
+  return createPortal(
+    <div className="report-overlay">
+      <div className="report-toolbar">
+        <Button variant="default" onClick={onClose}>Close</Button>
+        <Button color="green" onClick={() => window.print()}>Print / Save as PDF</Button>
+      </div>
+      <article className="match-report">
+        <header>
+          {match.competition && <div className="report-muted">{match.competition}</div>}
+          <h1>{match.homeTeamName} {match.homeScore} – {match.awayScore} {match.awayTeamName}</h1>
+          <div className="report-muted">
+            {[dateMs ? new Date(dateMs).toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'short' }) : '', match.venue, match.referee && `Referee: ${match.referee}`, ruleSet.name]
+              .filter(Boolean).join(' · ')}
+          </div>
+          {periodScores.length > 0 && (
+            <div>
+              {periodScores.map((p) => `${p.half === 1 ? 'Half-time' : `End of ${getPeriodLabel(periods, p.half)}`} ${p.homeScore}–${p.awayScore}`).join(' · ')}
+            </div>
+          )}
+        </header>
+
+        <section>
+          <h2>Lineups</h2>
+          <div className="report-columns">
+            <div><h3>{match.homeTeamName}</h3>{lineup('home')}</div>
+            <div><h3>{match.awayTeamName}</h3>{lineup('away')}</div>
+          </div>
+        </section>
+
+        <section>
+          <h2>Scorers</h2>
+          <div className="report-columns">
+            <div><h3>{match.homeTeamName}</h3>{scorers('home')}</div>
+            <div><h3>{match.awayTeamName}</h3>{scorers('away')}</div>
+          </div>
+        </section>
+
+        <section>
+          <h2>Cards</h2>
+          {cards.length === 0 ? <p className="report-muted">No cards.</p> : (
+            <table>
+              <thead><tr><th>Time</th><th>Team</th><th>Player</th><th>Card</th><th>Returned</th></tr></thead>
+              <tbody>
+                {cards.map((c) => {
+                  const back = log.find((e) => e.type === 'card-return' && e.cardId === c.id);
+                  return (
+                    <tr key={c.id}>
+                      <td>{at(c)}</td><td>{teamName(c.team)}</td><td>{nameOf(c.playerId)}</td>
+                      <td>{c.cardType === 'red' ? 'Red' : 'Yellow'}</td><td>{back ? at(back) : '—'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section>
+          <h2>Substitutions</h2>
+          {subs.length === 0 ? <p className="report-muted">No substitutions.</p> : (
+            <table>
+              <thead><tr><th>Time</th><th>Team</th><th>Off</th><th>On</th></tr></thead>
+              <tbody>
+                {subs.map((s) => (
+                  <tr key={s.id}><td>{at(s)}</td><td>{teamName(s.team)}</td><td>{nameOf(s.offPlayerId)}</td><td>{nameOf(s.onPlayerId)}</td></tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        <section>
+          <h2>Timeline</h2>
+          <table>
+            <thead><tr><th>Time</th><th>Team</th><th>Event</th><th>Player</th><th>Score</th></tr></thead>
+            <tbody>
+              {log.map((ev) => (
+                <tr key={ev.id}>
+                  <td>{at(ev)}</td>
+                  <td>{teamName(ev.team)}</td>
+                  <td>{describeLogEvent(ev, ruleSet, periods)}</td>
+                  <td>{ev.type === 'substitution' ? `${nameOf(ev.offPlayerId)} → ${nameOf(ev.onPlayerId)}` : ev.playerId ? nameOf(ev.playerId) : ''}</td>
+                  <td>{scoreAt.get(ev.id)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      </article>
+    </div>,
+    document.body
+  );
+};
+
+/** Video offsets per period and chapter / subtitle downloads for a filmed match. */
+const VideoChapterExport: React.FC<{ match: DbMatch; playerNameMap: Record<string, string>; onSaved: (match: DbMatch) => void }> = ({ match, playerNameMap, onSaved }) => {
+  const periods = getMatchPeriods(match);
+  const halves = playedPeriods(match.log);
+  const [draft, setDraft] = useState<Record<number, string>>(() =>
+    Object.fromEntries(halves.map((h) => [h, match.videoOffsets?.[h] != null ? formatVideoTime(match.videoOffsets[h]) : '']))
+  );
+  const invalid = halves.filter((h) => draft[h]?.trim() && parseVideoTime(draft[h]) == null);
+  const offsets = Object.fromEntries(
+    halves.flatMap((h) => {
+      const seconds = draft[h]?.trim() ? parseVideoTime(draft[h]) : null;
+      return seconds == null ? [] : [[h, seconds]];
+    })
+  ) as Record<number, number>;
+  const dirty = JSON.stringify(offsets) !== JSON.stringify(match.videoOffsets ?? {});
+
+  const save = async () => {
+    await updateMatch(match.id, { videoOffsets: offsets });
+    const updated = await getMatch(match.id);
+    if (updated) onSaved(updated);
+  };
+  const markers = () => videoMarkers({ ...match, videoOffsets: offsets }, playerNameMap);
+  const baseName = matchFileBaseName(match);
+
+  return (
+    <Stack gap="sm">
+      <Text size="xs" c="dimmed">
+        Time into the recording (m:ss or h:mm:ss) at which each period kicked off. Events are placed at that time plus their match clock time.
+      </Text>
+      {halves.map((h) => (
+        <Group key={h} gap="sm" wrap="nowrap">
+          <Text size="sm" fw={700} style={{ width: 120 }}>{h === 1 ? 'Kick-off' : `${getPeriodLabel(periods, h)} restart`}</Text>
+          <input
+            type="text"
+            value={draft[h] ?? ''}
+            onChange={(e) => setDraft((d) => ({ ...d, [h]: e.target.value }))}
+            placeholder="e.g. 2:15"
+            className="flex-1 bg-zinc-800 text-white text-sm p-2 rounded-lg font-bold"
+          />
+        </Group>
+      ))}
+      {invalid.length > 0 && <Text size="xs" c="red" fw={700}>Enter times as m:ss or h:mm:ss.</Text>}
+      <Group gap="xs">
+        <Button size="xs" color="green" onClick={save} disabled={!dirty || invalid.length > 0}>Save offsets</Button>
+        <Button size="xs" variant="default" disabled={offsets[1] == null} onClick={() => downloadFile(`${baseName}-chapters.txt`, youtubeChapters(markers()), 'text/plain')}>
+          YouTube chapters
+        </Button>
+        <Button size="xs" variant="default" disabled={offsets[1] == null} onClick={() => downloadFile(`${baseName}.vtt`, webVtt(markers()), 'text/vtt')}>
+          WebVTT
+        </Button>
+        <Button size="xs" variant="default" disabled={offsets[1] == null} onClick={() => downloadFile(`${baseName}.srt`, srt(markers()), 'application/x-subrip')}>
+          SRT
+        </Button>
+      </Group>
+    </Stack>
   );
 };
 
 const MatchDetailView: React.FC<{ matchId: string; onBack: () => void }> = ({ matchId, onBack }) => {
   const [match, setMatch] = useState<DbMatch | null>(null);
   const [playerNameMap, setPlayerNameMap] = useState<Record<string, string>>({});
+  const [editingLog, setEditingLog] = useState(false);
+  const [showReport, setShowReport] = useState(false);
+  const [showResultCard, setShowResultCard] = useState(false);
   const sectionLabelStyle = { letterSpacing: '0.05em' as const };
   useEffect(() => {
     getMatch(matchId).then((m) => setMatch(m ?? null));
@@ -2598,23 +5089,13 @@ const MatchDetailView: React.FC<{ matchId: string; onBack: () => void }> = ({ ma
       setPlayerNameMap({});
       return;
     }
-    const ids = new Set<string>();
-    match.log.forEach((ev) => {
-      if (ev.playerId) ids.add(ev.playerId);
-      if ('offPlayerId' in ev && ev.offPlayerId) ids.add(ev.offPlayerId);
-      if ('onPlayerId' in ev && ev.onPlayerId) ids.add(ev.onPlayerId);
-    });
-    const map: Record<string, string> = {};
-    Promise.all([...ids].map(async (id) => {
-      const p = await getPlayer(id);
-      map[id] = p?.name ?? '—';
-    })).then(() => setPlayerNameMap(map));
+    getPlayerNameMap(logPlayerIds(match.log)).then(setPlayerNameMap);
   }, [match?.id, match?.log]);
 
   const shareResult = React.useCallback(async () => {
     if (!match) return;
     const scoreEvents = match.log.filter((ev): ev is LogEvent & { type: 'score'; team: 'home' | 'away'; scoreType: string; matchTime?: number } => ev.type === 'score' && ev.team != null && ev.scoreType != null);
-    const playerIds = [...new Set(scoreEvents.map((e) => e.playerId).filter(Boolean))] as string[];
+    const playerIds = [...new Set(match.log.map((e) => e.playerId).filter(Boolean))] as string[];
     const playerNames: Record<string, string> = {};
     await Promise.all(playerIds.map(async (id) => {
       const p = await getPlayer(id);
@@ -2638,24 +5119,43 @@ const MatchDetailView: React.FC<{ matchId: string; onBack: () => void }> = ({ ma
     const scoreLine = `${match.homeTeamName} ${match.homeScore} vs ${match.awayTeamName} ${match.awayScore}`;
     const sep = '-----';
 
-    const homeTries = section(match.homeTeamName, 'home', 'Tries', ['try', 'penalty-try']);
-    const homeConversions = section(match.homeTeamName, 'home', 'Conversions', ['conversion']);
-    const homePenalties = section(match.homeTeamName, 'home', 'Penalties', ['penalty']);
-    const homeDropGoals = section(match.homeTeamName, 'home', 'Drop Goals', ['drop-goal']);
-    const awayTries = section(match.awayTeamName, 'away', 'Tries', ['try', 'penalty-try']);
-    const awayConversions = section(match.awayTeamName, 'away', 'Conversions', ['conversion']);
-    const awayPenalties = section(match.awayTeamName, 'away', 'Penalties', ['penalty']);
-    const awayDropGoals = section(match.awayTeamName, 'away', 'Drop Goals', ['drop-goal']);
+    // One section per summary heading (e.g. Tries = try + penalty try), in rule set order
+    const ruleSet = getMatchRuleSet(match);
+    const summaryGroups = new Map<string, string[]>();
+    ruleSet.scoreTypes.forEach((r) => summaryGroups.set(r.summaryLabel, [...(summaryGroups.get(r.summaryLabel) ?? []), r.type]));
+    const kickRules = ruleSet.scoreTypes.filter((r) => r.isKick);
+    // Goal kicks made / attempted per kick type, e.g. "Conversions 2/3"
+    const kickingSection = (teamName: string, team: 'home' | 'away') => {
+      const lines = kickRules.flatMap((r) => {
+        const kicks = match.log.filter((e) => e.team === team && e.scoreType === r.type && (e.type === 'kick-attempt' || (e.type === 'score' && !e.pending)));
+        if (kicks.length === 0) return [];
+        return [`- ${r.summaryLabel} ${kicks.filter((e) => e.kickOutcome === 'made').length}/${kicks.length}`];
+      });
+      return lines.length ? `${teamName} Goal Kicking\n${lines.join('\n')}` : '';
+    };
+    const sinBinSection = (teamName: string, team: 'home' | 'away') => {
+      const cards = match.log.filter((e) => e.type === 'card' && e.cardType === 'yellow' && e.team === team);
+      if (cards.length === 0) return '';
+      const periods = getMatchPeriods(match);
+      const at = (e: LogEvent) => `${getPeriodShortLabel(periods, e.half ?? 1)} ${formatTime(e.matchTime)}`;
+      const lines = cards.map((c) => {
+        const back = match.log.find((e) => e.type === 'card-return' && e.cardId === c.id);
+        return `- ${(c.playerId && playerNames[c.playerId]) ?? '—'} ${at(c)}${back ? ` → back ${at(back)}` : ''}`;
+      });
+      return `${teamName} Sin Bins\n${lines.join('\n')}`;
+    };
+    const teamSections = (teamName: string, team: 'home' | 'away') =>
+      [...[...summaryGroups].map(([label, types]) => section(teamName, team, label, types)), kickingSection(teamName, team), sinBinSection(teamName, team)];
 
     const blocks: string[] = [];
     if (metaLine) blocks.push(metaLine);
     if (locationDateLine) blocks.push(locationDateLine);
     blocks.push(scoreLine, sep);
-    [homeTries, homeConversions, homePenalties, homeDropGoals, awayTries, awayConversions, awayPenalties, awayDropGoals].forEach((b) => { if (b) blocks.push(b, ''); });
+    [...teamSections(match.homeTeamName, 'home'), ...teamSections(match.awayTeamName, 'away')].forEach((b) => { if (b) blocks.push(b, ''); });
     const text = blocks.join('\n').replace(/\n\n+/g, '\n\n').trim();
 
     if (typeof navigator !== 'undefined' && navigator.share) {
-      navigator.share({ title: `${match.homeTeamName} vs ${match.awayTeamName} - Rugby Union`, text }).catch(() => {
+      navigator.share({ title: `${match.homeTeamName} vs ${match.awayTeamName} - ${ruleSet.name}`, text }).catch(() => {
         navigator.clipboard?.writeText(text);
       });
     } else {
@@ -2724,17 +5224,70 @@ const MatchDetailView: React.FC<{ matchId: string; onBack: () => void }> = ({ ma
         >
           Share result
         </Button>
+        <Button variant="light" fullWidth mt="sm" onClick={() => setShowResultCard(true)}>
+          Share image
+        </Button>
+        {match.status === 'completed' && (
+          <Button variant="default" fullWidth mt="sm" onClick={() => setShowReport(true)}>
+            Match report
+          </Button>
+        )}
       </Card>
+      <ResultCardModal match={match} playerNameMap={playerNameMap} opened={showResultCard} onClose={() => setShowResultCard(false)} />
+      {showReport && <MatchReport match={match} playerNameMap={playerNameMap} onClose={() => setShowReport(false)} />}
+      {(['home', 'away'] as const).some((team) => Object.keys(kickingByPlayer(match.log, team)).length > 0) && (
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Goal kicking</Text>
+          <Stack gap="sm">
+            {(['home', 'away'] as const).map((team) => {
+              const kickers = Object.entries(kickingByPlayer(match.log, team));
+              if (kickers.length === 0) return null;
+              return (
+                <Box key={team}>
+                  <Text size="sm" fw={800} mb="xs">{team === 'home' ? match.homeTeamName : match.awayTeamName}</Text>
+                  <KickingStatsTable
+                    rows={kickers.map(([playerId, stats]) => ({
+                      key: playerId || 'unassigned',
+                      label: playerId === UNASSIGNED_KICKER ? 'Unassigned' : playerNameMap[playerId] ?? '—',
+                      stats,
+                    }))}
+                  />
+                </Box>
+              );
+            })}
+          </Stack>
+        </Card>
+      )}
       <Card shadow="sm" padding="lg" radius="md" withBorder>
-        <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Match log</Text>
-        <ScrollArea style={{ maxHeight: '50vh' }}>
-          {match.log.length === 0 ? (
-            <Text size="sm" c="dimmed">No events</Text>
-          ) : (
-            <MatchLogTable log={match.log} homeTeamName={match.homeTeamName} awayTeamName={match.awayTeamName} playerNameMap={playerNameMap} />
+        <Group justify="space-between" mb="sm">
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle}>Match log</Text>
+          {match.status === 'completed' && !editingLog && (
+            <Button variant="subtle" size="xs" color="green" onClick={() => setEditingLog(true)}>Edit log</Button>
           )}
-        </ScrollArea>
+        </Group>
+        {editingLog ? (
+          <MatchLogEditor
+            match={match}
+            playerNameMap={playerNameMap}
+            onCancel={() => setEditingLog(false)}
+            onSaved={(updated) => { setMatch(updated); setEditingLog(false); }}
+          />
+        ) : (
+          <ScrollArea style={{ maxHeight: '50vh' }}>
+            {match.log.length === 0 ? (
+              <Text size="sm" c="dimmed">No events</Text>
+            ) : (
+              <MatchLogTable log={match.log} homeTeamName={match.homeTeamName} awayTeamName={match.awayTeamName} playerNameMap={playerNameMap} ruleSet={getMatchRuleSet(match)} periods={getMatchPeriods(match)} />
+            )}
+          </ScrollArea>
+        )}
       </Card>
+      {match.status === 'completed' && match.log.length > 0 && (
+        <Card shadow="sm" padding="lg" radius="md" withBorder>
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" style={sectionLabelStyle} mb="sm">Video chapters</Text>
+          <VideoChapterExport key={match.updatedAt} match={match} playerNameMap={playerNameMap} onSaved={setMatch} />
+        </Card>
+      )}
     </Stack>
   );
 };
@@ -2942,6 +5495,7 @@ const TeamSection: React.FC<{
   const substitutionEvents = useMatchStore((state) => state.substitutionEvents);
   const cards = useMatchStore((state) => state.cards);
   const elapsedSeconds = useMatchStore((state) => state.elapsedSeconds);
+  const ruleSet = useMatchStore((state) => state.ruleSet);
 
   const { onPitch } = getSquadStatus(team, players, substitutionEvents, cards, elapsedSeconds);
   const playersForCard = players.filter((p) => p.team === team).sort((a, b) => a.number - b.number);
@@ -2949,7 +5503,7 @@ const TeamSection: React.FC<{
   const canConvert = lastTryTeam === team;
 
   const handleScoreClick = (type: ScoreEvent['type']) => {
-    if (type === 'penalty-try' || !playerTracking) {
+    if (getScoreTypeRule(ruleSet, type)?.teamOnly || !playerTracking) {
       addScore(team, type);
     } else {
       setScoreType(type);
@@ -2966,7 +5520,7 @@ const TeamSection: React.FC<{
     setShowPlayerPicker(true);
   };
 
-  const isKickWithMissOption = selectedAction === 'score' && (scoreType === 'conversion' || scoreType === 'penalty' || scoreType === 'drop-goal');
+  const isKickWithMissOption = selectedAction === 'score' && !!getScoreTypeRule(ruleSet, scoreType)?.isKick;
 
   const handlePlayerSubmit = (playerId: string) => {
     if (isKickWithMissOption) {
@@ -2990,7 +5544,7 @@ const TeamSection: React.FC<{
   };
 
   const handleMissed = () => {
-    if (scoreType === 'conversion' || scoreType === 'penalty' || scoreType === 'drop-goal') {
+    if (getScoreTypeRule(ruleSet, scoreType)?.isKick) {
       addMissedKick(team, scoreType, selectedPlayerId && selectedPlayerId !== UNKNOWN_PLAYER_ID ? selectedPlayerId : undefined);
     }
     setShowPlayerPicker(false);
@@ -3008,6 +5562,10 @@ const TeamSection: React.FC<{
     ? [...pickerPlayers.map((p) => ({ id: p.id, number: p.number, name: p.name })), { id: UNKNOWN_PLAYER_ID, number: 0, name: 'Unknown' }]
     : pickerPlayers.map((p) => ({ id: p.id, number: p.number, name: p.name }));
 
+  // Player-scored types go in the main grid; team-only awards (penalty try) get their own button
+  const playerScoreRules = ruleSet.scoreTypes.filter((r) => !r.teamOnly);
+  const teamOnlyScoreRules = ruleSet.scoreTypes.filter((r) => r.teamOnly);
+
   const headerColor = getContrastTextColor(teamColor);
   const gridCols = compact ? 2 : 4;
   const scoreSize = compact ? '1.75rem' : '4rem';
@@ -3034,25 +5592,28 @@ const TeamSection: React.FC<{
 
       <Box mb="xs">
         <SimpleGrid cols={gridCols} spacing={compact ? 'xs' : 'sm'} mb="xs">
-          <ScoreButton label="Try" points={5} onClick={() => handleScoreClick('try')} compact={compact} />
-          <ScoreButton
-            label="Conv"
-            points={2}
-            onClick={() => handleScoreClick('conversion')}
-            disabled={!canConvert}
-            variant="secondary"
-            compact={compact}
-          />
-          <ScoreButton label="Pen" points={3} onClick={() => handleScoreClick('penalty')} variant="penalty" compact={compact} />
-          <ScoreButton label="DG" points={3} onClick={() => handleScoreClick('drop-goal')} variant="penalty" compact={compact} />
+          {playerScoreRules.map((r) => (
+            <ScoreButton
+              key={r.type}
+              label={r.shortLabel}
+              points={r.points}
+              onClick={() => handleScoreClick(r.type)}
+              disabled={r.followsTry ? !canConvert : undefined}
+              variant={r.followsTry ? 'secondary' : r.isKick ? 'penalty' : 'primary'}
+              compact={compact}
+            />
+          ))}
         </SimpleGrid>
         <SimpleGrid cols={gridCols} spacing={compact ? 'xs' : 'sm'} mb="xs">
-          <button
-            onClick={() => handleScoreClick('penalty-try')}
-            style={{ ...ACTION_BUTTON_STYLE, background: '#b91c1c', color: '#fff', border: 'none', minHeight: compact ? 40 : 48, padding: compact ? '8px 10px' : '12px 20px', fontSize: compact ? 11 : 16 }}
-          >
-            Penalty try (+7)
-          </button>
+          {teamOnlyScoreRules.map((r) => (
+            <button
+              key={r.type}
+              onClick={() => handleScoreClick(r.type)}
+              style={{ ...ACTION_BUTTON_STYLE, background: '#b91c1c', color: '#fff', border: 'none', minHeight: compact ? 40 : 48, padding: compact ? '8px 10px' : '12px 20px', fontSize: compact ? 11 : 16 }}
+            >
+              {r.shortLabel} (+{r.points})
+            </button>
+          ))}
           {cardTracking && (
             <>
               <CardButton type="yellow" onClick={() => handleCardClick('yellow')} compact={compact} />
@@ -3087,7 +5648,7 @@ const TeamSection: React.FC<{
         >
           <Box style={{ background: '#2d2d2d', borderRadius: 16, padding: 24, maxWidth: 420, width: '100%' }}>
             <Title order={4} mb="md" c="white" ta="center">
-              {selectedAction === 'score' ? scoreType.toUpperCase() : `${cardType.toUpperCase()} CARD`}
+              {selectedAction === 'score' ? getScoreLabel(ruleSet, scoreType).toUpperCase() : `${cardType.toUpperCase()} CARD`}
             </Title>
             {isKickWithMissOption && (
               <Text size="sm" c="dimmed" ta="center" mb="xs">Select kicker, then Scored or Missed</Text>
@@ -3157,9 +5718,55 @@ const TeamSection: React.FC<{
   );
 };
 
-// Undo + Log panel: buttons side by side; log opens as table in panel below
+// One-line description of a stream event for the undo history, e.g. "Try – Home (#11 Smith)"
+function describeMatchEvent(
+  ev: MatchEvent,
+  ctx: { events: MatchEvent[]; ruleSet: RuleSet; periods: MatchPeriod[]; homeTeam: string; awayTeam: string; players: Player[] }
+): string {
+  const teamName = (team: 'home' | 'away') => (team === 'home' ? ctx.homeTeam : ctx.awayTeam);
+  const playerName = (id?: string) => {
+    const p = ctx.players.find((x) => x.id === id);
+    return p ? `#${p.number} ${p.name}` : null;
+  };
+  const withPlayer = (text: string, id?: string) => {
+    const name = playerName(id);
+    return name ? `${text} (${name})` : text;
+  };
+  switch (ev.kind) {
+    case 'score': {
+      const label = getScoreLabel(ctx.ruleSet, ev.type);
+      if (ev.points === 0 && getScoreTypeRule(ctx.ruleSet, ev.type)?.isKick) return withPlayer(`${label} missed – ${teamName(ev.team)}`, ev.player);
+      return withPlayer(`${label}${ev.pending ? ' (TMO)' : ''} – ${teamName(ev.team)}`, ev.player);
+    }
+    case 'card':
+      return withPlayer(`${ev.type === 'red' ? 'Red' : 'Yellow'} card – ${teamName(ev.team)}`, ev.player);
+    case 'substitution':
+      return `Substitution – ${teamName(ev.team)} (${playerName(ev.offPlayerId) ?? '?'} → ${playerName(ev.onPlayerId) ?? '?'})`;
+    case 'card-return':
+      return withPlayer(`Sin-bin return – ${teamName(ev.team)}`, ev.playerId);
+    case 'system':
+      if (ev.type === 'half-time') return `End of ${getPeriodLabel(ctx.periods, ev.half)}`;
+      return ev.type === 'match-start' ? 'Game started' : 'Match closed';
+    case 'tackle':
+      return ev.action === 'tackle' ? 'Tackle' : 'Handover';
+    case 'correction': {
+      const target = ctx.events.find((e) => e.id === ev.eventId);
+      const what = target ? describeMatchEvent(target, ctx) : 'event';
+      if (ev.action === 'approve') return `TMO approved: ${what}`;
+      if (ev.action === 'reject') return `TMO rejected: ${what}`;
+      if (ev.action === 'set-player') return `Scorer set to ${playerName(ev.playerId) ?? 'unknown'}: ${what}`;
+      return `Removed: ${what}`;
+    }
+  }
+}
+
+// Undo + Log panel: buttons side by side; log opens as table in panel below.
+// Undo/redo step through the event stream, so any action (including Next half) can be reverted.
 const UndoAndLogPanel: React.FC = () => {
   const undo = useMatchStore((state) => state.undo);
+  const redo = useMatchStore((state) => state.redo);
+  const events = useMatchStore((state) => state.events);
+  const redoEvents = useMatchStore((state) => state.redoEvents);
   const [showLog, setShowLog] = useState(false);
   const [assigningEventId, setAssigningEventId] = useState<string | null>(null);
   const scoreEvents = useMatchStore((state) => state.scoreEvents);
@@ -3167,6 +5774,7 @@ const UndoAndLogPanel: React.FC = () => {
   const substitutionEvents = useMatchStore((state) => state.substitutionEvents);
   const systemEvents = useMatchStore((state) => state.systemEvents);
   const cardReturnEvents = useMatchStore((state) => state.cardReturnEvents);
+  const periods = useMatchStore((state) => state.periods);
   const players = useMatchStore((state) => state.players);
   const homeTeam = useMatchStore((state) => state.homeTeam);
   const awayTeam = useMatchStore((state) => state.awayTeam);
@@ -3177,6 +5785,12 @@ const UndoAndLogPanel: React.FC = () => {
   const removeSubstitution = useMatchStore((state) => state.removeSubstitution);
   const homeColor = useMatchStore((state) => state.homeColor);
   const awayColor = useMatchStore((state) => state.awayColor);
+  const ruleSet = useMatchStore((state) => state.ruleSet);
+
+  const describeCtx = { events: [...events, ...redoEvents], ruleSet, periods, homeTeam, awayTeam, players };
+  // The first event (match start) can't be undone
+  const undoable = events.slice(1).reverse();
+  const nextRedo = redoEvents[redoEvents.length - 1];
 
   const allEventsChrono = [...scoreEvents, ...cards, ...substitutionEvents, ...cardReturnEvents, ...systemEvents]
     .sort((a, b) => a.timestamp - b.timestamp);
@@ -3205,16 +5819,16 @@ const UndoAndLogPanel: React.FC = () => {
   const getEventLabel = (event: LogEventItem): string => {
     const sys = event as SystemEvent;
     if ('type' in sys && sys.type === 'match-start') return 'Game started';
-    if ('type' in sys && sys.type === 'half-time') return `Half time (H${sys.half})`;
+    if ('type' in sys && sys.type === 'half-time') return `End of ${getPeriodLabel(periods, sys.half)}`;
     if ('type' in sys && sys.type === 'match-end') return 'Match closed';
     if ('cardId' in event) return 'Yellow card returned';
     const ev = event as ScoreEvent | Card | Substitution;
     if ('offPlayerId' in ev) return 'Substitution';
     if ('points' in ev) {
       const s = ev as ScoreEvent;
-      if ((s.points ?? 0) === 0 && (s.type === 'conversion' || s.type === 'penalty' || s.type === 'drop-goal'))
-        return `${s.type === 'conversion' ? 'Conversion' : s.type === 'penalty' ? 'Penalty' : 'Drop goal'} missed`;
-      return `${s.type.toUpperCase()}${s.pending ? ' (TMO)' : ''} +${s.points ?? 0}`;
+      if ((s.points ?? 0) === 0 && getScoreTypeRule(ruleSet, s.type)?.isKick)
+        return `${getScoreLabel(ruleSet, s.type)} missed`;
+      return `${getScoreLabel(ruleSet, s.type).toUpperCase()}${s.pending ? ' (TMO)' : ''} +${s.points ?? 0}`;
     }
     const c = ev as Card;
     return `${c.type.toUpperCase()} CARD`;
@@ -3249,9 +5863,12 @@ const UndoAndLogPanel: React.FC = () => {
   return (
     <>
       <Group justify="center" gap="md" mb={showLog ? 'md' : 0}>
-        <Button variant="filled" color="dark" onClick={undo} leftSection={<span>↶</span>} style={{ minWidth: 100 }}>
+        <Button variant="filled" color="dark" onClick={undo} disabled={undoable.length === 0} leftSection={<span>↶</span>} style={{ minWidth: 100 }}>
           Undo
         </Button>
+        <Button variant="light" color="dark" onClick={redo} disabled={!nextRedo} leftSection={<span>↷</span>} style={{ minWidth: 100 }}>
+          Redo
+        </Button>
         <Button
           variant="light"
           color="dark"
@@ -3262,9 +5879,32 @@ const UndoAndLogPanel: React.FC = () => {
           {pendingEvents.length > 0 ? ` · ${pendingEvents.length} TMO` : ''}
         </Button>
       </Group>
+      {(undoable.length > 0 || nextRedo) && (
+        <Stack gap={0} mt="xs" align="center">
+          {undoable.length > 0 && <Text size="xs" c="dimmed">Undo: {describeMatchEvent(undoable[0], describeCtx)}</Text>}
+          {nextRedo && <Text size="xs" c="dimmed">Redo: {describeMatchEvent(nextRedo, describeCtx)}</Text>}
+        </Stack>
+      )}
 
       {showLog && (
         <Box mt="md">
+          {(undoable.length > 0 || redoEvents.length > 0) && (
+            <Box mb="md">
+              <Text fw={700} size="sm" c="dark.8" mb="xs">HISTORY (undo goes from the top)</Text>
+              <ScrollArea.Autosize mah={180}>
+                <Stack gap={2}>
+                  {redoEvents.map((ev) => (
+                    <Text key={ev.id} size="xs" c="dimmed" td="line-through">{describeMatchEvent(ev, describeCtx)}</Text>
+                  ))}
+                  {undoable.map((ev, i) => (
+                    <Text key={ev.id} size="xs" fw={i === 0 ? 700 : 400} c="dark.8">
+                      {describeMatchEvent(ev, describeCtx)}
+                    </Text>
+                  ))}
+                </Stack>
+              </ScrollArea.Autosize>
+            </Box>
+          )}
           {pendingEvents.length > 0 && (
             <Box mb="md" p="sm" style={{ background: 'rgba(234,179,8,0.15)', border: '2px solid #eab308', borderRadius: 8 }}>
               <Text fw={700} size="sm" c="dark.8" mb="xs">TMO REVIEW</Text>
@@ -3274,7 +5914,7 @@ const UndoAndLogPanel: React.FC = () => {
                 return (
                   <Box key={event.id} mb="xs" p="xs">
                     <Text fw={700}>{teamName}{player ? ` – ${player.name} (#${player.number})` : ''}</Text>
-                    <Text size="xs" c="dark.5">{event.type.toUpperCase()} – PENDING</Text>
+                    <Text size="xs" c="dark.5">{getScoreLabel(ruleSet, event.type).toUpperCase()} – PENDING</Text>
                     <Group gap="xs" mt="xs">
                       <Button size="xs" color="red" onClick={() => resolvePendingEvent(event.id, false)}>✗ No try</Button>
                       <Button size="xs" color="green" onClick={() => resolvePendingEvent(event.id, true)}>✓ Try</Button>
@@ -3540,14 +6180,53 @@ const SubstitutionModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
   );
 };
 
+// Seconds between the deciding sudden-death score and the match being saved, to undo a wrong score
+const SUDDEN_DEATH_END_SECONDS = 10;
+
+// Sudden death: the first score that counts ends the match. It is saved and closed after a short
+// countdown; undoing the score unmounts this and so cancels it.
+const SuddenDeathEnd: React.FC<{ winnerName: string }> = ({ winnerName }) => {
+  const navigateAfterEnd = React.useContext(NavContext);
+  const undo = useMatchStore((state) => state.undo);
+  const [secondsLeft, setSecondsLeft] = useState(SUDDEN_DEATH_END_SECONDS);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSecondsLeft((s) => Math.max(0, s - 1)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft > 0) return;
+    finishLiveMatch().then(() => navigateAfterEnd?.('matches'));
+  }, [secondsLeft, navigateAfterEnd]);
+
+  return (
+    <Group justify="center" gap="xs" mt={4}>
+      <Text size="xs" fw={800} c="green.8">
+        {winnerName} win – match ends in {secondsLeft}s
+      </Text>
+      <Button size="compact-xs" variant="light" color="dark" onClick={undo}>
+        Undo
+      </Button>
+    </Group>
+  );
+};
+
 // Match time panel: clock + half label (Mantine Card)
 const MatchTimePanel: React.FC = () => {
   const currentHalf = useMatchStore((state) => state.currentHalf);
   const elapsedSeconds = useMatchStore((state) => state.elapsedSeconds);
   const injuryTime = useMatchStore((state) => state.injuryTime);
-  const halfDuration = useMatchStore((state) => state.halfDuration);
-  const isOvertime = elapsedSeconds > halfDuration;
+  const periods = useMatchStore((state) => state.periods);
+  const scoreEvents = useMatchStore((state) => state.scoreEvents);
+  const homeTeam = useMatchStore((state) => state.homeTeam);
+  const awayTeam = useMatchStore((state) => state.awayTeam);
+  const period = getPeriod(periods, currentHalf);
+  const periodDuration = period?.duration ?? 0;
+  const isOvertime = periodDuration > 0 && elapsedSeconds > periodDuration;
   const displayTime = elapsedSeconds;
+  const inSuddenDeath = period?.suddenDeath ?? false;
+  const suddenDeathWinner = getSuddenDeathWinner(periods, scoreEvents);
 
   return (
     <Card shadow="sm" padding="sm" radius="md" withBorder mb="sm" style={{ background: 'var(--mantine-color-gray-1)' }}>
@@ -3555,26 +6234,64 @@ const MatchTimePanel: React.FC = () => {
         <Title order={4} fw={700} style={{ userSelect: 'none', color: 'var(--mantine-color-dark-9)', marginBottom: 2 }}>
           {formatTime(displayTime)}
           {isOvertime && (
-            <Text component="span" size="xs" c="red" ml="xs">+{formatTime(displayTime - halfDuration)}</Text>
+            <Text component="span" size="xs" c="red" ml="xs">+{formatTime(displayTime - periodDuration)}</Text>
           )}
           {injuryTime > 0 && (
             <Text component="span" size="xs" fw={700} c="yellow.8" ml="xs">+{injuryTime / 60}' injury</Text>
           )}
         </Title>
-        <Text size="xs" fw={700} c="dimmed">{getHalfLabel(currentHalf)}</Text>
+        <Text size="xs" fw={700} c="dimmed">{getPeriodLabel(periods, currentHalf)}</Text>
+        {inSuddenDeath && !suddenDeathWinner && <Text size="xs" fw={800} c="red.8">Next score wins</Text>}
+        {suddenDeathWinner && <SuddenDeathEnd winnerName={suddenDeathWinner === 'home' ? homeTeam : awayTeam} />}
       </Box>
       <SinBinTimers />
     </Card>
   );
 };
 
-// Match controls: Start/Pause, Next half, End match (no menu; substitution is in team panel)
+// Tackle counter (league): tap per tackle; wraps to 0 after the last tackle, reset on handover
+const TackleCounterPanel: React.FC = () => {
+  const tackleLimit = useMatchStore((state) => state.ruleSet.tackleLimit);
+  const tackleCount = useMatchStore((state) => state.tackleCount);
+  const addTackle = useMatchStore((state) => state.addTackle);
+  const resetTackles = useMatchStore((state) => state.resetTackles);
+  if (!tackleLimit) return null;
+  const isLastTackle = tackleCount >= tackleLimit - 1;
+
+  return (
+    <Card shadow="sm" padding="sm" radius="md" withBorder mb="sm" style={{ background: 'var(--mantine-color-gray-1)' }}>
+      <Group justify="space-between" wrap="nowrap" gap="xs">
+        <Box>
+          <Text size="xs" fw={700} c="dimmed">Tackle</Text>
+          <Text fw={800} size="xl" c={isLastTackle ? 'red.8' : 'dark.8'} style={{ lineHeight: 1 }}>
+            {tackleCount} / {tackleLimit}
+            {tackleCount === tackleLimit - 1 && <Text component="span" size="xs" fw={800} c="red.8" ml="xs">Last tackle</Text>}
+          </Text>
+        </Box>
+        <Group gap="xs" wrap="nowrap">
+          <Button size="md" variant="light" color="gray" onClick={resetTackles} style={{ borderRadius: 12 }}>
+            Handover
+          </Button>
+          <Button size="md" color="blue" onClick={addTackle} style={{ borderRadius: 12 }}>
+            + Tackle
+          </Button>
+        </Group>
+      </Group>
+    </Card>
+  );
+};
+
+// Match controls: Start/Pause, next period, End match (no menu; substitution is in team panel).
+// After the last period of the plan only End match is offered.
 const MatchControlsPanel: React.FC = () => {
   const navigateAfterEnd = React.useContext(NavContext);
   const isRunning = useMatchStore((state) => state.isRunning);
   const toggleTimer = useMatchStore((state) => state.toggleTimer);
   const nextHalf = useMatchStore((state) => state.nextHalf);
-  const endMatch = useMatchStore((state) => state.endMatch);
+  const currentHalf = useMatchStore((state) => state.currentHalf);
+  const periods = useMatchStore((state) => state.periods);
+  const scoresLevel = useMatchStore((state) => state.homeScore === state.awayScore);
+  const nextPeriod = getNextPeriod(periods, currentHalf, scoresLevel);
 
   return (
     <Card shadow="sm" padding="sm" radius="md" withBorder mb="sm" style={{ background: 'var(--mantine-color-gray-1)' }}>
@@ -3587,23 +6304,18 @@ const MatchControlsPanel: React.FC = () => {
         >
           {isRunning ? '⏸ Pause' : '▶ Start'}
         </Button>
-        <Button size="md" variant="light" color="blue" onClick={nextHalf} style={{ flex: 1, minWidth: 0, borderRadius: 12 }}>
-          Next half
-        </Button>
+        {nextPeriod && (
+          <Button size="md" variant="light" color="blue" onClick={nextHalf} style={{ flex: 1, minWidth: 0, borderRadius: 12 }}>
+            {nextPeriod.label}
+          </Button>
+        )}
         <Button
           size="md"
           variant="filled"
           color="red"
           onClick={async () => {
             if (!confirm('End match? Result and log will be saved to Match management.')) return;
-            const state = useMatchStore.getState();
-            const snap = stateToMatchSnapshot(state);
-            try {
-              await saveFinishedMatch(snap, state.currentMatchId ?? undefined);
-            } catch (e) {
-              console.error('Failed to save match', e);
-            }
-            endMatch();
+            await finishLiveMatch();
             if (navigateAfterEnd) navigateAfterEnd('matches');
           }}
           style={{ flex: 1, minWidth: 0, borderRadius: 12 }}
@@ -3670,6 +6382,10 @@ const AdminPage: React.FC = () => {
   const [clearModalOpen, setClearModalOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [statsDiffs, setStatsDiffs] = useState<PlayerStatsDiff[] | null>(null);
+  const [statsRebuilt, setStatsRebuilt] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<BackupFile | null>(null);
+  const restoreInputRef = React.useRef<HTMLInputElement>(null);
 
   const handleClearAll = async () => {
     setLoading(true);
@@ -3710,6 +6426,80 @@ const AdminPage: React.FC = () => {
     }
   };
 
+  const handleExportBackup = async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      const backup = await exportBackup();
+      downloadFile(backupFileName(backup.exportedAt), JSON.stringify(backup), 'application/json');
+      setMessage('Backup downloaded.');
+    } catch {
+      setMessage('Failed to export backup.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBackupFile = async (file: File | undefined) => {
+    if (!file) return;
+    setMessage(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      if (parsed.ok) setPendingRestore(parsed.backup);
+      else setMessage(`Failed to read backup: ${parsed.error}`);
+    } catch {
+      setMessage('Failed to read backup file.');
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    setLoading(true);
+    try {
+      await restoreBackup(pendingRestore, mode);
+      setPendingRestore(null);
+      setMessage(mode === 'replace' ? 'Backup restored (all data replaced).' : 'Backup merged into existing data.');
+    } catch {
+      setMessage('Failed to restore backup.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCheckStats = async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      setStatsDiffs(await diffPlayerStats());
+      setStatsRebuilt(false);
+    } catch {
+      setMessage('Failed to check player stats.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRebuildStats = async () => {
+    setLoading(true);
+    setMessage(null);
+    try {
+      setStatsDiffs(await rebuildAllPlayerStats());
+      setStatsRebuilt(true);
+    } catch {
+      setMessage('Failed to rebuild player stats.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statColumns: Array<{ key: keyof PlayerStatsDiff['stored']; label: string }> = [
+    { key: 'gamesPlayed', label: 'GP' },
+    { key: 'tries', label: 'Tries' },
+    { key: 'points', label: 'Pts' },
+    { key: 'yellowCards', label: 'YC' },
+    { key: 'redCards', label: 'RC' },
+  ];
+
   return (
     <Box py="md" pb={80}>
       <Box maw={480} mx="auto">
@@ -3726,6 +6516,31 @@ const AdminPage: React.FC = () => {
             >
               Clear all data
             </Button>
+            <Button
+              color="blue"
+              variant="light"
+              fullWidth
+              onClick={handleExportBackup}
+              disabled={loading}
+            >
+              Export backup
+            </Button>
+            <Button
+              color="blue"
+              variant="light"
+              fullWidth
+              onClick={() => restoreInputRef.current?.click()}
+              disabled={loading}
+            >
+              Restore backup…
+            </Button>
+            <input
+              ref={restoreInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => { handleBackupFile(e.target.files?.[0]); e.target.value = ''; }}
+            />
             <Button
               color="green"
               variant="light"
@@ -3747,6 +6562,73 @@ const AdminPage: React.FC = () => {
           </Stack>
           {message && <Text size="sm" c={message.startsWith('Failed') ? 'red' : 'dimmed'} mt="md">{message}</Text>}
         </Card>
+        <Card shadow="sm" padding="lg" radius="md" withBorder mb="md">
+          <Text size="sm" fw={700} tt="uppercase" c="dimmed" mb="sm" style={{ letterSpacing: '0.05em' }}>Player stats</Text>
+          <Text size="sm" c="dimmed" mb="sm">Recompute games, tries, points and cards for every player from completed matches.</Text>
+          <Group grow gap="sm">
+            <Button variant="light" onClick={handleCheckStats} disabled={loading}>Check</Button>
+            <Button color="green" variant="light" onClick={handleRebuildStats} disabled={loading}>Rebuild player stats</Button>
+          </Group>
+          {statsDiffs && (
+            statsDiffs.length === 0 ? (
+              <Text size="sm" c="dimmed" mt="md">All player stats match the match history.</Text>
+            ) : (
+              <>
+                <Text size="sm" c="dimmed" mt="md" mb="xs">
+                  {statsRebuilt ? `Rebuilt ${statsDiffs.length} player(s) (stored → rebuilt):` : `${statsDiffs.length} player(s) differ (stored → rebuilt):`}
+                </Text>
+                <ScrollArea style={{ maxHeight: '40vh' }}>
+                  <Table withTableBorder withColumnBorders>
+                    <Table.Thead>
+                      <Table.Tr>
+                        <Table.Th>Player</Table.Th>
+                        {statColumns.map((c) => <Table.Th key={c.key}>{c.label}</Table.Th>)}
+                      </Table.Tr>
+                    </Table.Thead>
+                    <Table.Tbody>
+                      {statsDiffs.map((d) => (
+                        <Table.Tr key={d.playerId}>
+                          <Table.Td>{d.name}</Table.Td>
+                          {statColumns.map((c) => (
+                            <Table.Td key={c.key} style={d.stored[c.key] !== d.rebuilt[c.key] ? { fontWeight: 700 } : { color: 'var(--mantine-color-dimmed)' }}>
+                              {d.stored[c.key] === d.rebuilt[c.key] ? d.rebuilt[c.key] : `${d.stored[c.key]} → ${d.rebuilt[c.key]}`}
+                            </Table.Td>
+                          ))}
+                        </Table.Tr>
+                      ))}
+                    </Table.Tbody>
+                  </Table>
+                </ScrollArea>
+              </>
+            )
+          )}
+        </Card>
+        <Modal
+          opened={pendingRestore != null}
+          onClose={() => !loading && setPendingRestore(null)}
+          title="Restore backup?"
+          centered
+        >
+          {pendingRestore && (
+            <>
+              <Text size="sm" c="dimmed" mb="xs">Backup from {new Date(pendingRestore.exportedAt).toLocaleString()}:</Text>
+              <Text size="sm" fw={700} mb="md">
+                {(() => {
+                  const c = backupCounts(pendingRestore.tables);
+                  return `${c.teams} teams · ${c.players} players · ${c.rosters} rosters · ${c.matches} matches · ${c.competitions} competitions · ${c.seasons} seasons · ${c.tournaments} tournaments`;
+                })()}
+              </Text>
+              <Text size="sm" c="dimmed" mb="md">
+                <b>Merge</b> keeps your current data and overwrites anything with the same id. <b>Replace</b> deletes all current data first.
+              </Text>
+              <Group justify="flex-end" gap="sm">
+                <Button variant="default" onClick={() => setPendingRestore(null)} disabled={loading}>Cancel</Button>
+                <Button color="blue" onClick={() => handleRestore('merge')} loading={loading}>Merge</Button>
+                <Button color="red" onClick={() => handleRestore('replace')} loading={loading}>Replace</Button>
+              </Group>
+            </>
+          )}
+        </Modal>
         <Modal
           opened={clearModalOpen}
           onClose={() => !loading && setClearModalOpen(false)}
@@ -3766,9 +6648,132 @@ const AdminPage: React.FC = () => {
   );
 };
 
+// Other matches in play, shown in the live header: each with its running clock, tap to bring it on screen
+const LiveMatchSwitcher: React.FC = () => {
+  const navigate = React.useContext(NavContext);
+  const currentMatchId = useMatchStore((state) => state.currentMatchId);
+  const [others, setOthers] = useState<DbMatch[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getUnfinishedMatches()
+      .then((list) => { if (!cancelled) setOthers(list.filter((m) => m.id !== currentMatchId)); })
+      .catch((e) => console.error('Failed to load live matches', e));
+    return () => { cancelled = true; };
+  }, [currentMatchId]);
+
+  useEffect(() => {
+    if (others.length === 0) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [others.length]);
+
+  const switchTo = async (matchId: string | null) => {
+    setSwitching(true);
+    try {
+      await switchLiveMatch(matchId);
+      if (!matchId) navigate?.('setup');
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  return (
+    <Group gap={6} mt={6} wrap="nowrap" style={{ overflowX: 'auto' }}>
+      {others.map((m) => {
+        const clockRuns = m.live?.clockRuns ?? [];
+        return (
+          <Button key={m.id} size="compact-xs" variant="light" color={isClockRunning(clockRuns) ? 'green' : 'gray'} disabled={switching} onClick={() => switchTo(m.id)} style={{ flexShrink: 0 }}>
+            {m.homeTeamName} {m.homeScore}–{m.awayScore} {m.awayTeamName} · {getPeriodShortLabel(getMatchPeriods(m), m.currentHalf)} {formatTime(getElapsedSeconds(clockRuns, now))}
+            {!isClockRunning(clockRuns) && ' ⏸'}
+          </Button>
+        );
+      })}
+      <Button size="compact-xs" variant="subtle" color="gray" disabled={switching} onClick={() => switchTo(null)} style={{ flexShrink: 0 }}>
+        + Match
+      </Button>
+    </Group>
+  );
+};
+
+// Matches autosaved but not on screen: set aside for another match, or left behind by a crash or cleared storage
+const LiveMatchesBanner: React.FC = () => {
+  const [matches, setMatches] = useState<DbMatch[]>([]);
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    getUnfinishedMatches()
+      .then((list) => { if (!cancelled) setMatches(list); })
+      .catch((e) => console.error('Failed to check for unfinished matches', e));
+    return () => { cancelled = true; };
+  }, [version]);
+
+  if (matches.length === 0) return null;
+  return (
+    <Card shadow="sm" padding="sm" radius="md" withBorder mb="md" style={{ background: 'var(--mantine-color-gray-1)' }}>
+      <Text size="sm" fw={700} tt="uppercase" c="dimmed" mb="xs">
+        {matches.length === 1 ? 'Match in play' : `${matches.length} matches in play`}
+      </Text>
+      <Stack gap="xs">
+        {matches.map((m) => (
+          <Group key={m.id} justify="space-between" wrap="nowrap" gap="xs">
+            <Box style={{ minWidth: 0 }}>
+              <Text fw={700} size="sm" lineClamp={1}>
+                {m.homeTeamName} {m.homeScore} – {m.awayScore} {m.awayTeamName}
+              </Text>
+              <Text size="xs" c="dimmed">
+                {getPeriodLabel(getMatchPeriods(m), m.currentHalf)} · {isClockRunning(m.live?.clockRuns ?? []) ? 'clock running' : 'clock stopped'} · last saved {new Date(m.updatedAt).toLocaleTimeString()}
+              </Text>
+            </Box>
+            <Group gap="xs" wrap="nowrap">
+              <Button
+                size="xs"
+                variant="light"
+                color="red"
+                onClick={async () => {
+                  if (!confirm('Discard this match? Its events will be lost.')) return;
+                  setError('');
+                  try {
+                    await discardUnfinishedMatch(m.id);
+                    setVersion((v) => v + 1);
+                  } catch (e) {
+                    console.error('Failed to discard match', e);
+                    setError('Could not discard that match. Try again.');
+                  }
+                }}
+              >
+                Discard
+              </Button>
+              <Button
+                size="xs"
+                color="green"
+                onClick={() => {
+                  setError('');
+                  switchLiveMatch(m.id).catch((e) => {
+                    console.error('Failed to resume match', e);
+                    setError('Could not resume that match. Try again.');
+                  });
+                }}
+              >
+                Resume
+              </Button>
+            </Group>
+          </Group>
+        ))}
+        {error && <Text size="sm" c="red">{error}</Text>}
+      </Stack>
+    </Card>
+  );
+};
+
 // Main App
 const App: React.FC = () => {
   useTimer();
+  useLiveMatchAutosave();
   if (window.location.pathname === '/admin') return <AdminGate />;
 
   const [view, setView] = useState<AppView>('home');
@@ -3791,9 +6796,12 @@ const App: React.FC = () => {
     else if (view === 'setup') content = <GameSetup onBack={() => setView('home')} onNavigate={setView} />;
     else if (view === 'players') content = <ManageTeamsPage onBack={() => setView('home')} />;
     else if (view === 'matches') content = <MatchManagementPage onBack={() => setView('home')} />;
+    else if (view === 'competitions') content = <CompetitionsPage onBack={() => setView('home')} />;
+    else if (view === 'tournaments') content = <TournamentsPage onBack={() => setView('home')} />;
     else content = <HomePage onNavigate={setView} />;
     return (
       <ShellLayout view={view} setView={setView}>
+        <LiveMatchesBanner />
         {content}
       </ShellLayout>
     );
@@ -3825,10 +6833,12 @@ const App: React.FC = () => {
             <Text fw={800} size="lg" style={{ flexShrink: 0 }}>{homeScore} – {awayScore}</Text>
             <Text fw={800} size="sm" lineClamp={1} ta="right" style={{ flex: '1 1 0', minWidth: 0 }}>{awayTeam}</Text>
           </Group>
+          <LiveMatchSwitcher />
         </Card>
 
         <MatchTimePanel />
         <MatchControlsPanel />
+        <TackleCounterPanel />
 
         {/* Two-column layout: Home | Away so both visible on mobile */}
         <SimpleGrid cols={2} spacing="sm" mb="sm" style={{ minHeight: 0 }}>
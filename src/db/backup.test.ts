@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { Match } from './types';
+import { BACKUP_FILE_VERSION, BACKUP_FORMAT, backupFileName, parseBackup } from './backup';
+import { db } from './index';
+import { upgradeMatchRow } from './migrations';
+import { testMatch } from './testFixtures';
+
+const file = (overrides: Record<string, unknown> = {}, tables: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    fileVersion: BACKUP_FILE_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: 0,
+    tables: { teams: [], players: [], rosters: [], rosterEntries: [], matches: [], competitions: [], seasons: [], tournaments: [], ...tables },
+    ...overrides,
+  });
+
+const error = (text: string) => {
+  const parsed = parseBackup(text);
+  return parsed.ok ? undefined : parsed.error;
+};
+
+/** A finished match as schema version 1 stored it: old status name, no scheduledAt, missed kicks scoring 0. */
+const v1Match = () => ({
+  ...testMatch({ startedAt: 1000 }),
+  status: 'finished',
+  scheduledAt: undefined,
+  log: [
+    { id: 't1', timestamp: 1, type: 'score', team: 'home', scoreType: 'try', points: 5 },
+    { id: 'c1', timestamp: 2, type: 'score', team: 'home', scoreType: 'conversion', points: 0 },
+  ],
+});
+
+describe('parseBackup', () => {
+  it('rejects files that are not a Rugby Scorer backup', () => {
+    expect(error('{')).toBe('Not a valid JSON file.');
+    expect(error(JSON.stringify({ format: 'something-else' }))).toBe('Not a Rugby Scorer backup.');
+    expect(error(file({ schemaVersion: undefined }))).toBe('Backup has no version information.');
+  });
+
+  it('rejects a backup from a newer version of the app', () => {
+    expect(error(file({ schemaVersion: db.verno + 1 }))).toMatch(/newer version/);
+    expect(error(file({ fileVersion: BACKUP_FILE_VERSION + 1 }))).toMatch(/newer version/);
+  });
+
+  it('rejects missing tables and rows without an id', () => {
+    expect(error(file({ tables: { teams: [], players: [], rosters: [], rosterEntries: [] } }))).toBe('Backup is missing the matches table.');
+    expect(error(file({}, { players: [{ name: 'Ana' }] }))).toBe('Backup has players rows without an id.');
+  });
+
+  it('fills in tables that older backups do not have', () => {
+    const tables = { teams: [], players: [], rosters: [], rosterEntries: [], matches: [] };
+    const parsed = parseBackup(file({ schemaVersion: 3, tables }));
+    expect(parsed.ok && parsed.backup.tables.competitions).toEqual([]);
+    expect(parsed.ok && parsed.backup.tables.seasons).toEqual([]);
+    expect(parsed.ok && parsed.backup.tables.tournaments).toEqual([]);
+    expect(error(file({ schemaVersion: 4, tables }))).toBe('Backup is missing the competitions table.');
+    expect(error(file({ schemaVersion: 5, tables: { ...tables, competitions: [] } }))).toBe('Backup is missing the seasons table.');
+    expect(error(file({ schemaVersion: 6, tables: { ...tables, competitions: [], seasons: [] } }))).toBe('Backup is missing the tournaments table.');
+  });
+
+  it('upgrades matches from a schema version 1 backup', () => {
+    const parsed = parseBackup(file({ schemaVersion: 1 }, { matches: [v1Match()] }));
+    if (!parsed.ok) throw new Error(parsed.error);
+    expect(parsed.backup.schemaVersion).toBe(db.verno);
+    const [match] = parsed.backup.tables.matches;
+    expect(match.status).toBe('completed');
+    expect(match.scheduledAt).toBe(1000);
+    expect(match.log.map((e) => [e.id, e.type, e.kickOutcome])).toEqual([
+      ['t1', 'score', undefined],
+      ['c1', 'kick-attempt', 'missed'],
+    ]);
+  });
+
+  it('restores a schema version 2 backup with only the later upgrades', () => {
+    const v2 = { ...v1Match(), status: 'not_played', scheduledAt: 5000 };
+    const parsed = parseBackup(file({ schemaVersion: 2 }, { matches: [v2] }));
+    if (!parsed.ok) throw new Error(parsed.error);
+    const [match] = parsed.backup.tables.matches;
+    expect(match.status).toBe('not_played');
+    expect(match.scheduledAt).toBe(5000);
+    expect(match.log[1].kickOutcome).toBe('missed');
+  });
+
+  it('leaves rows from a current backup as they are', () => {
+    const match = testMatch({ log: [{ id: 'c1', timestamp: 2, type: 'score', team: 'home', scoreType: 'conversion', points: 2 }] });
+    const parsed = parseBackup(file({}, { matches: [match] }));
+    expect(parsed.ok && parsed.backup.tables.matches).toEqual([match]);
+  });
+});
+
+describe('upgradeMatchRow', () => {
+  it('runs only the upgrades after the given version', () => {
+    const row = v1Match() as unknown as Record<string, unknown>;
+    upgradeMatchRow(row, 3);
+    expect(row.status).toBe('finished');
+    upgradeMatchRow(row, 1);
+    expect((row as unknown as Match).status).toBe('completed');
+  });
+});
+
+describe('backupFileName', () => {
+  it('names the file by export date', () => {
+    expect(backupFileName(Date.UTC(2026, 2, 14, 12))).toBe('rugby-scorer-backup-2026-03-14.json');
+  });
+});
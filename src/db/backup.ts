@@ -0,0 +1,144 @@
+/**
+ * Full database backup and restore for Rugby Scorer.
+ * A backup is one JSON file with every table and the schema version it was taken on; restoring
+ * validates it, upgrades older rows (see db/migrations.ts) and either replaces or merges by id.
+ */
+
+import { db } from './index';
+import type { Competition, Match, Player, Roster, RosterEntry, Season, Team, Tournament } from './types';
+import { upgradeMatchRow } from './migrations';
+import { rebuildAllPlayerStats } from './stats';
+
+export const BACKUP_FORMAT = 'rugby-scorer-backup';
+/** Version of the file layout (not the database schema). */
+export const BACKUP_FILE_VERSION = 1;
+
+export interface BackupTables {
+  teams: Team[];
+  players: Player[];
+  rosters: Roster[];
+  rosterEntries: RosterEntry[];
+  matches: Match[];
+  /** Absent in backups taken before competitions existed (schema version 3 and older). */
+  competitions: Competition[];
+  /** Absent in backups taken before seasons existed (schema version 4 and older). */
+  seasons: Season[];
+  /** Absent in backups taken before tournaments existed (schema version 5 and older). */
+  tournaments: Tournament[];
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  fileVersion: number;
+  /** Dexie schema version the rows were written with. */
+  schemaVersion: number;
+  exportedAt: number;
+  tables: BackupTables;
+}
+
+/** 'replace' clears the database first; 'merge' keeps existing rows and overwrites those with the same id. */
+export type RestoreMode = 'replace' | 'merge';
+
+export type ParsedBackup = { ok: true; backup: BackupFile } | { ok: false; error: string };
+
+const TABLE_NAMES = ['teams', 'players', 'rosters', 'rosterEntries', 'matches', 'competitions', 'seasons', 'tournaments'] as const;
+/** Schema version that added each table after the first (older backups don't have it). */
+const TABLE_SINCE: Partial<Record<(typeof TABLE_NAMES)[number], number>> = { competitions: 4, seasons: 5, tournaments: 6 };
+
+/** Every table, ready to be saved as JSON. */
+export async function exportBackup(): Promise<BackupFile> {
+  const [teams, players, rosters, rosterEntries, matches, competitions, seasons, tournaments] = await Promise.all([
+    db.teams.toArray(),
+    db.players.toArray(),
+    db.rosters.toArray(),
+    db.rosterEntries.toArray(),
+    db.matches.toArray(),
+    db.competitions.toArray(),
+    db.seasons.toArray(),
+    db.tournaments.toArray(),
+  ]);
+  return {
+    format: BACKUP_FORMAT,
+    fileVersion: BACKUP_FILE_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: Date.now(),
+    tables: { teams, players, rosters, rosterEntries, matches, competitions, seasons, tournaments },
+  };
+}
+
+/** File name for a backup, e.g. rugby-scorer-backup-2026-03-14.json */
+export function backupFileName(exportedAt: number): string {
+  return `${BACKUP_FORMAT}-${new Date(exportedAt).toISOString().slice(0, 10)}.json`;
+}
+
+/** Check a backup file's contents and bring its rows up to the current schema. */
+export function parseBackup(text: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Not a valid JSON file.' };
+  }
+  if (typeof data !== 'object' || data == null || (data as { format?: unknown }).format !== BACKUP_FORMAT) {
+    return { ok: false, error: 'Not a Rugby Scorer backup.' };
+  }
+  const file = data as Partial<BackupFile>;
+  if (typeof file.fileVersion !== 'number' || typeof file.schemaVersion !== 'number') {
+    return { ok: false, error: 'Backup has no version information.' };
+  }
+  if (file.fileVersion > BACKUP_FILE_VERSION || file.schemaVersion > db.verno) {
+    return { ok: false, error: 'Backup was made by a newer version of the app. Update the app and try again.' };
+  }
+  const tables = { ...file.tables } as Partial<Record<(typeof TABLE_NAMES)[number], unknown>>;
+  for (const name of TABLE_NAMES) {
+    if (tables[name] == null && file.schemaVersion < (TABLE_SINCE[name] ?? 0)) tables[name] = [];
+    const rows = tables[name];
+    if (!Array.isArray(rows)) return { ok: false, error: `Backup is missing the ${name} table.` };
+    if (rows.some((row) => typeof row !== 'object' || row == null || typeof (row as { id?: unknown }).id !== 'string')) {
+      return { ok: false, error: `Backup has ${name} rows without an id.` };
+    }
+  }
+  const backup = { ...file, tables } as BackupFile;
+  const matches = backup.tables.matches.map((m) => {
+    const row = structuredClone(m) as unknown as Record<string, unknown>;
+    upgradeMatchRow(row, backup.schemaVersion);
+    return row as unknown as Match;
+  });
+  return { ok: true, backup: { ...backup, schemaVersion: db.verno, tables: { ...backup.tables, matches } } };
+}
+
+/** Number of rows per table, e.g. for a restore preview. */
+export function backupCounts(tables: BackupTables): Record<keyof BackupTables, number> {
+  return {
+    teams: tables.teams.length,
+    players: tables.players.length,
+    rosters: tables.rosters.length,
+    rosterEntries: tables.rosterEntries.length,
+    matches: tables.matches.length,
+    competitions: tables.competitions.length,
+    seasons: tables.seasons.length,
+    tournaments: tables.tournaments.length,
+  };
+}
+
+/**
+ * Write a parsed backup to the database in one transaction. After a merge the players' counters are
+ * rebuilt, since they now cover matches from both sides.
+ */
+export async function restoreBackup(backup: BackupFile, mode: RestoreMode): Promise<void> {
+  const { teams, players, rosters, rosterEntries, matches, competitions, seasons, tournaments } = backup.tables;
+  await db.transaction('rw', [db.teams, db.players, db.rosters, db.rosterEntries, db.matches, db.competitions, db.seasons, db.tournaments], async () => {
+    if (mode === 'replace') {
+      await Promise.all([db.teams.clear(), db.players.clear(), db.rosters.clear(), db.rosterEntries.clear(), db.matches.clear(), db.competitions.clear(), db.seasons.clear(), db.tournaments.clear()]);
+    }
+    await db.teams.bulkPut(teams);
+    await db.players.bulkPut(players);
+    await db.rosters.bulkPut(rosters);
+    await db.rosterEntries.bulkPut(rosterEntries);
+    await db.matches.bulkPut(matches);
+    await db.competitions.bulkPut(competitions);
+    await db.seasons.bulkPut(seasons);
+    await db.tournaments.bulkPut(tournaments);
+  });
+  if (mode === 'merge') await rebuildAllPlayerStats();
+}
@@ -0,0 +1,41 @@
+/**
+ * Wall-clock match timer for Rugby Scorer.
+ * The clock is stored as run intervals (start/stop timestamps) for the current period, so elapsed
+ * time is always computed from real time and survives background throttling, sleep and reloads.
+ */
+
+import type { ClockRun } from './types';
+
+/** Seconds the clock has run in the current period, counting an open run up to `now`. */
+export function getElapsedSeconds(runs: ClockRun[], now: number = Date.now()): number {
+  let ms = 0;
+  for (const run of runs) {
+    ms += Math.max(0, (run.stoppedAt ?? now) - run.startedAt);
+  }
+  return Math.floor(ms / 1000);
+}
+
+/** True when the last run has not been stopped. */
+export function isClockRunning(runs: ClockRun[]): boolean {
+  const last = runs[runs.length - 1];
+  return last != null && last.stoppedAt == null;
+}
+
+/** Start the clock (no-op if already running). */
+export function startClock(runs: ClockRun[], now: number = Date.now()): ClockRun[] {
+  if (isClockRunning(runs)) return runs;
+  return [...runs, { startedAt: now }];
+}
+
+/** Stop the clock (no-op if already stopped). */
+export function stopClock(runs: ClockRun[], now: number = Date.now()): ClockRun[] {
+  if (!isClockRunning(runs)) return runs;
+  return runs.map((run, i) => (i === runs.length - 1 ? { ...run, stoppedAt: now } : run));
+}
+
+/** Clock runs equivalent to `seconds` already played, left open if `running` (used to migrate the old tick-based clock). */
+export function clockRunsFromElapsed(seconds: number, running: boolean, now: number = Date.now()): ClockRun[] {
+  if (seconds <= 0 && !running) return [];
+  const startedAt = now - seconds * 1000;
+  return [running ? { startedAt } : { startedAt, stoppedAt: now }];
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent, Match } from './types';
+import { computeLeagueTable, DEFAULT_POINTS_RULES, matchTries } from './competitions';
+import { testMatch } from './testFixtures';
+
+const tries = (team: 'home' | 'away', count: number): LogEvent[] =>
+  Array.from({ length: count }, (_, i) => ({ id: `${team}-${i}`, timestamp: i, type: 'score', team, scoreType: 'try', points: 5 }));
+
+const match = (id: string, home: [string, number, number], away: [string, number, number], extra: Partial<Match> = {}): Match =>
+  testMatch({
+    id,
+    homeTeamId: home[0],
+    awayTeamId: away[0],
+    homeTeamName: home[0].toUpperCase(),
+    awayTeamName: away[0].toUpperCase(),
+    homeScore: home[1],
+    awayScore: away[1],
+    competition: 'League',
+    log: [...tries('home', home[2]), ...tries('away', away[2])],
+    ...extra,
+  });
+
+const teams = [
+  { id: 'a', name: 'A' },
+  { id: 'b', name: 'B' },
+  { id: 'c', name: 'C' },
+  { id: 'd', name: 'D' },
+];
+
+describe('matchTries', () => {
+  it('counts tries and penalty tries, not pending ones', () => {
+    const m = match('m', ['a', 19, 2], ['b', 0, 0]);
+    m.log.push({ id: 'pt', timestamp: 9, type: 'score', team: 'home', scoreType: 'penalty-try', points: 7 });
+    m.log.push({ id: 'tmo', timestamp: 10, type: 'score', team: 'away', scoreType: 'try', points: 5, pending: true });
+    expect(matchTries(m)).toEqual({ home: 3, away: 0 });
+  });
+});
+
+describe('computeLeagueTable', () => {
+  it('adds result points, try bonuses and losing bonuses', () => {
+    const table = computeLeagueTable([match('1', ['a', 30, 4], ['b', 24, 4])], teams, DEFAULT_POINTS_RULES);
+    const [a, b] = table;
+    expect(a).toMatchObject({ teamId: 'a', played: 1, won: 1, tryBonus: 1, losingBonus: 0, points: 5, difference: 6 });
+    expect(b).toMatchObject({ teamId: 'b', played: 1, lost: 1, tryBonus: 1, losingBonus: 1, points: 2, difference: -6 });
+  });
+
+  it('gives no losing bonus beyond the margin', () => {
+    const [, b] = computeLeagueTable([match('1', ['a', 15, 3], ['b', 7, 1])], teams.slice(0, 2), DEFAULT_POINTS_RULES);
+    expect(b).toMatchObject({ lost: 1, losingBonus: 0, points: 0 });
+  });
+
+  it('lists teams that have not played and ignores matches not completed', () => {
+    const table = computeLeagueTable(
+      [match('1', ['a', 10, 2], ['b', 10, 2]), match('2', ['c', 50, 8], ['d', 0, 0], { status: 'not_played' })],
+      teams,
+      DEFAULT_POINTS_RULES
+    );
+    expect(table.map((r) => [r.teamId, r.played, r.drawn, r.points])).toEqual([
+      ['a', 1, 1, 2],
+      ['b', 1, 1, 2],
+      ['c', 0, 0, 0],
+      ['d', 0, 0, 0],
+    ]);
+  });
+
+  it('finds a side by name when the match has no team ids', () => {
+    const table = computeLeagueTable([match('1', ['home', 12, 2], ['away', 5, 1], { homeTeamName: 'c ', awayTeamName: 'D' })], teams, DEFAULT_POINTS_RULES);
+    expect(table.find((r) => r.teamId === 'c')).toMatchObject({ won: 1, points: 4 });
+    expect(table.find((r) => r.teamId === 'd')).toMatchObject({ lost: 1, losingBonus: 1, points: 1 });
+  });
+
+  it('orders level teams by difference, then points scored, then tries', () => {
+    const table = computeLeagueTable(
+      [match('1', ['a', 20, 2], ['c', 10, 1]), match('2', ['b', 30, 3], ['d', 20, 2]), match('3', ['c', 3, 0], ['d', 0, 0])],
+      teams,
+      DEFAULT_POINTS_RULES
+    );
+    expect(table.map((r) => r.teamId)).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
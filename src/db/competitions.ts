@@ -0,0 +1,164 @@
+/**
+ * Competitions CRUD and league tables for Rugby Scorer.
+ * A competition holds its teams and points rules; its fixtures are the matches with its id, and the
+ * league table is computed from the completed ones (win/draw/loss points plus try and losing bonuses).
+ */
+
+import { db } from './index';
+import type { Competition, CompetitionPointsRules, Match } from './types';
+import { countsAsTry, getMatchRuleSet } from './rules';
+
+/** Common union league points: 4 for a win, 2 for a draw, a bonus for 4+ tries and for losing by 7 or fewer. */
+export const DEFAULT_POINTS_RULES: CompetitionPointsRules = {
+  win: 4,
+  draw: 2,
+  loss: 0,
+  tryBonus: 1,
+  tryBonusThreshold: 4,
+  losingBonus: 1,
+  losingBonusMargin: 7,
+};
+
+export async function getCompetitions(): Promise<Competition[]> {
+  return db.competitions.orderBy('name').toArray();
+}
+
+export async function getCompetition(id: string): Promise<Competition | undefined> {
+  return db.competitions.get(id);
+}
+
+/** Create a competition. Returns the new competition id. */
+export async function addCompetition(name: string, teamIds: string[] = [], pointsRules: CompetitionPointsRules = DEFAULT_POINTS_RULES): Promise<string> {
+  const id = crypto.randomUUID();
+  const now = Date.now();
+  await db.competitions.add({ id, name: name.trim(), teamIds, pointsRules, createdAt: now, updatedAt: now });
+  return id;
+}
+
+/** Update a competition. A new name is copied to its fixtures' competition label. */
+export async function updateCompetition(id: string, updates: Partial<Pick<Competition, 'name' | 'teamIds' | 'pointsRules'>>): Promise<void> {
+  await db.transaction('rw', db.competitions, db.matches, async () => {
+    const existing = await db.competitions.get(id);
+    if (!existing) return;
+    await db.competitions.put({ ...existing, ...updates, updatedAt: Date.now() });
+    if (updates.name != null && updates.name !== existing.name) {
+      await db.matches.where('competitionId').equals(id).modify({ competition: updates.name });
+    }
+  });
+}
+
+/** Delete a competition. Its fixtures are kept, unlinked, with the name as their label. */
+export async function deleteCompetition(id: string): Promise<void> {
+  await db.transaction('rw', db.competitions, db.matches, async () => {
+    await db.matches.where('competitionId').equals(id).modify((m) => {
+      delete m.competitionId;
+    });
+    await db.competitions.delete(id);
+  });
+}
+
+/** Fixtures and results of a competition, in date order. */
+export async function getCompetitionMatches(id: string): Promise<Match[]> {
+  const matches = await db.matches.where('competitionId').equals(id).toArray();
+  return matches.sort((a, b) => (a.scheduledAt || a.startedAt || a.createdAt) - (b.scheduledAt || b.startedAt || b.createdAt));
+}
+
+/** Link a match to a competition (or unlink with null), keeping its label in step. */
+export async function setMatchCompetition(matchId: string, competition: Competition | null): Promise<void> {
+  const existing = await db.matches.get(matchId);
+  if (!existing) return;
+  const updated: Match = { ...existing, updatedAt: Date.now() };
+  if (competition) {
+    updated.competitionId = competition.id;
+    updated.competition = competition.name;
+  } else {
+    delete updated.competitionId;
+  }
+  await db.matches.put(updated);
+}
+
+/** One team's line in a league table. */
+export interface LeagueTableRow {
+  teamId: string;
+  teamName: string;
+  played: number;
+  won: number;
+  drawn: number;
+  lost: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  difference: number;
+  triesFor: number;
+  tryBonus: number;
+  losingBonus: number;
+  bonusPoints: number;
+  /** League points: result points plus bonus points. */
+  points: number;
+}
+
+/** Tries scored by each side in a match's log (score types its rule set counts as tries). */
+export function matchTries(match: Pick<Match, 'log' | 'config'>): { home: number; away: number } {
+  const ruleSet = getMatchRuleSet(match);
+  const tries = { home: 0, away: 0 };
+  for (const ev of match.log) {
+    if (ev.type === 'score' && !ev.pending && ev.team && countsAsTry(ruleSet, ev.scoreType)) tries[ev.team] += 1;
+  }
+  return tries;
+}
+
+/**
+ * League table from completed matches. Each side is matched to a team by id, else by name (matches
+ * scored without picking teams only have names). Every listed team gets a row, played or not.
+ * Ordered by league points, then points difference, points scored, tries and name.
+ */
+export function computeLeagueTable(matches: Match[], teams: Array<{ id: string; name: string }>, rules: CompetitionPointsRules): LeagueTableRow[] {
+  const rows = new Map<string, LeagueTableRow>(
+    teams.map((t) => [
+      t.id,
+      { teamId: t.id, teamName: t.name, played: 0, won: 0, drawn: 0, lost: 0, pointsFor: 0, pointsAgainst: 0, difference: 0, triesFor: 0, tryBonus: 0, losingBonus: 0, bonusPoints: 0, points: 0 },
+    ])
+  );
+  const byName = new Map(teams.map((t) => [t.name.trim().toLowerCase(), t.id]));
+  const rowFor = (id: string, name: string) => rows.get(id) ?? rows.get(byName.get(name.trim().toLowerCase()) ?? '');
+
+  for (const match of matches) {
+    if (match.status !== 'completed') continue;
+    const tries = matchTries(match);
+    const sides = [
+      { row: rowFor(match.homeTeamId, match.homeTeamName), scored: match.homeScore, conceded: match.awayScore, tries: tries.home },
+      { row: rowFor(match.awayTeamId, match.awayTeamName), scored: match.awayScore, conceded: match.homeScore, tries: tries.away },
+    ];
+    for (const { row, scored, conceded, tries: triesFor } of sides) {
+      if (!row) continue;
+      row.played += 1;
+      row.pointsFor += scored;
+      row.pointsAgainst += conceded;
+      row.triesFor += triesFor;
+      if (scored > conceded) {
+        row.won += 1;
+        row.points += rules.win;
+      } else if (scored === conceded) {
+        row.drawn += 1;
+        row.points += rules.draw;
+      } else {
+        row.lost += 1;
+        row.points += rules.loss;
+        if (conceded - scored <= rules.losingBonusMargin) row.losingBonus += rules.losingBonus;
+      }
+      if (triesFor >= rules.tryBonusThreshold) row.tryBonus += rules.tryBonus;
+    }
+  }
+
+  return [...rows.values()]
+    .map((row) => {
+      const bonusPoints = row.tryBonus + row.losingBonus;
+      return { ...row, difference: row.pointsFor - row.pointsAgainst, bonusPoints, points: row.points + bonusPoints };
+    })
+    .sort((a, b) =>
+      b.points - a.points ||
+      b.difference - a.difference ||
+      b.pointsFor - a.pointsFor ||
+      b.triesFor - a.triesFor ||
+      a.teamName.localeCompare(b.teamName)
+    );
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseCsv, toCsv } from './csv';
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter used most on the first line', () => {
+    expect(detectDelimiter('Name\tNumber\tPosition\nAna\t9\tScrum-half')).toBe('\t');
+    expect(detectDelimiter('Name;Number\nAna;9')).toBe(';');
+    expect(detectDelimiter('Name,Number\nAna,9')).toBe(',');
+  });
+
+  it('falls back to a comma for a single column', () => {
+    expect(detectDelimiter('Name\nAna')).toBe(',');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted cells with delimiters, doubled quotes and newlines', () => {
+    expect(parseCsv('Name,Notes\r\n"Smith, Jo","Said ""hi""\nthen left"\r\n')).toEqual([
+      ['Name', 'Notes'],
+      ['Smith, Jo', 'Said "hi"\nthen left'],
+    ]);
+  });
+
+  it('drops a byte order mark and blank lines, and trims cells', () => {
+    expect(parseCsv('\uFEFFName, Number\n\n  Ana , 9 \n,\n')).toEqual([
+      ['Name', 'Number'],
+      ['Ana', '9'],
+    ]);
+  });
+
+  it('reads a spreadsheet paste as tab separated', () => {
+    expect(parseCsv('Ana\t9\nBen\t10')).toEqual([
+      ['Ana', '9'],
+      ['Ben', '10'],
+    ]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the cells that need it and reads back the same', () => {
+    const rows = [['Name', 'Tries'], ['Smith, Jo', 2], ['Says "hi"', null]];
+    const text = toCsv(rows);
+    expect(text).toBe('Name,Tries\r\n"Smith, Jo",2\r\n"Says ""hi""",\r\n');
+    expect(parseCsv(text)).toEqual([['Name', 'Tries'], ['Smith, Jo', '2'], ['Says "hi"', '']]);
+  });
+});
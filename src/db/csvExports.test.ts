@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent, Player, Team } from './types';
+import { parseCsv } from './csv';
+import { matchLogCsv, matchLogCsvFileName, seasonSummaryCsv } from './csvExports';
+import { testMatch } from './testFixtures';
+
+const log: LogEvent[] = [
+  { id: 't1', timestamp: 1, type: 'score', team: 'home', scoreType: 'try', points: 5, playerId: 'ana', half: 1, matchTime: 305 },
+  { id: 'c1', timestamp: 2, type: 'kick-attempt', team: 'home', scoreType: 'conversion', points: 0, playerId: 'ben', kickOutcome: 'missed', half: 1, matchTime: 360 },
+  { id: 'p1', timestamp: 3, type: 'score', team: 'away', scoreType: 'penalty', points: 3, playerId: 'cal', kickOutcome: 'made', half: 2, matchTime: 2500 },
+  { id: 'sub', timestamp: 4, type: 'substitution', team: 'home', offPlayerId: 'ben', onPlayerId: 'dan', half: 2, matchTime: 2600 },
+];
+
+const player = (id: string, name: string, number: number, teamId: string): Player => ({
+  id,
+  teamId,
+  name,
+  number,
+  position: '',
+  isStarter: true,
+  active: true,
+  gamesPlayed: 0,
+  tries: 0,
+  points: 0,
+  yellowCards: 0,
+  redCards: 0,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const teams: Team[] = [
+  { id: 'home', name: 'Harlow', color: '#000000', createdAt: 0 },
+  { id: 'away', name: 'Ashford', color: '#ffffff', createdAt: 0 },
+];
+
+describe('matchLogCsv', () => {
+  it('writes a row per event with the running score', () => {
+    const rows = parseCsv(matchLogCsv(testMatch({ log }), { ana: 'Ana', ben: 'Ben', cal: 'Cal', dan: 'Dan' }));
+    expect(rows[0]).toEqual(['Period', 'Time', 'Team', 'Event', 'Player', 'Points', 'Score']);
+    expect(rows.slice(1).map((r) => [r[1], r[2], r[4], r[5], r[6]])).toEqual([
+      ['05:05', 'Harlow', 'Ana', '5', '5-0'],
+      ['06:00', 'Harlow', 'Ben', '', '5-0'],
+      ['41:40', 'Ashford', 'Cal', '3', '5-3'],
+      ['43:20', 'Harlow', 'Ben > Dan', '', '5-3'],
+    ]);
+  });
+
+  it('names the file by the local kick-off date and the teams', () => {
+    const match = testMatch({ homeTeamName: 'Reeds RFC', awayTeamName: 'St. Saints', startedAt: new Date(2026, 2, 14, 23, 30).getTime() });
+    expect(matchLogCsvFileName(match)).toBe('2026-03-14-reeds-rfc-v-st-saints.csv');
+  });
+});
+
+describe('seasonSummaryCsv', () => {
+  it('writes a row per player who appeared, with their goal kicking', () => {
+    const players = [player('ana', 'Ana', 11, 'home'), player('cal', 'Cal', 10, 'away'), player('eve', 'Eve', 12, 'home')];
+    const rows = parseCsv(seasonSummaryCsv([testMatch({ log })], players, teams));
+    expect(rows[0]).toEqual(['Player', 'Number', 'Team', 'Games', 'Tries', 'Points', 'Yellow cards', 'Red cards', 'Conversion made', 'Conversion attempts', 'Penalty goal made', 'Penalty goal attempts', 'Kicks made', 'Kicks attempted', 'Kick %']);
+    expect(rows.slice(1)).toEqual([
+      ['Cal', '10', 'Ashford', '1', '0', '3', '0', '0', '0', '0', '1', '1', '1', '1', '100'],
+      ['Ana', '11', 'Harlow', '1', '1', '5', '0', '0', '0', '0', '0', '0', '0', '0', ''],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * CSV exports for Rugby Scorer: one match's log, and a season summary per player.
+ * Player names are passed in (see getPlayerNameMap) so these stay pure.
+ */
+
+import type { Match, Player, Team } from './types';
+import { toCsv } from './csv';
+import { describeLogEvent } from './matchLog';
+import { getMatchRuleSet } from './rules';
+import { getMatchPeriods, getPeriodShortLabel } from './periods';
+import { computeCareerStats } from './stats';
+import { toDateString } from './seasons';
+import { KICK_TYPE_RULES, kickingOverMatches, kickPercentage } from './kicking';
+
+function mmss(seconds: number): string {
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** File-name-safe slug, e.g. "Reeds RFC" -> "reeds-rfc". */
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'match';
+}
+
+/** File name without extension for a match's exports, e.g. "2026-03-14-reeds-rfc-v-saints". */
+export function matchFileBaseName(match: Match): string {
+  // Local calendar day, so an evening kick-off isn't filed under the next (or previous) UTC day
+  const date = toDateString(match.startedAt || match.scheduledAt || match.createdAt);
+  return `${date}-${slug(match.homeTeamName)}-v-${slug(match.awayTeamName)}`;
+}
+
+export function matchLogCsvFileName(match: Match): string {
+  return `${matchFileBaseName(match)}.csv`;
+}
+
+/** One row per log event: period, time, team, event, player, points and the running score. */
+export function matchLogCsv(match: Match, playerNames: Record<string, string>): string {
+  const ruleSet = getMatchRuleSet(match);
+  const periods = getMatchPeriods(match);
+  const name = (id: string | undefined) => (id ? playerNames[id] ?? '' : '');
+  let home = 0;
+  let away = 0;
+  const rows = [...match.log]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((ev) => {
+      if (ev.type === 'score' && !ev.pending && ev.points != null) {
+        if (ev.team === 'home') home += ev.points;
+        else if (ev.team === 'away') away += ev.points;
+      }
+      const team = ev.team === 'home' ? match.homeTeamName : ev.team === 'away' ? match.awayTeamName : '';
+      const player = ev.type === 'substitution' ? `${name(ev.offPlayerId)} > ${name(ev.onPlayerId)}` : name(ev.playerId);
+      const points = ev.type === 'score' && !ev.pending ? ev.points ?? 0 : '';
+      return [
+        getPeriodShortLabel(periods, ev.half ?? 1),
+        ev.matchTime != null ? mmss(ev.matchTime) : '',
+        team,
+        describeLogEvent(ev, ruleSet, periods),
+        player,
+        points,
+        `${home}-${away}`,
+      ];
+    });
+  return toCsv([['Period', 'Time', 'Team', 'Event', 'Player', 'Points', 'Score'], ...rows]);
+}
+
+/** e.g. "season-2025-26-player-stats.csv"; "season-all-…" without a season. */
+export function seasonSummaryCsvFileName(seasonName: string | undefined): string {
+  return `season-${seasonName ? slug(seasonName) : 'all'}-player-stats.csv`;
+}
+
+/**
+ * One row per player who appeared in the given completed matches (e.g. a season): games, tries,
+ * points, cards and goal kicking (made / attempted per kick type, and overall %).
+ * Ids with no player in the database (roster placeholders) are left out.
+ */
+export function seasonSummaryCsv(matches: Match[], players: Player[], teams: Team[]): string {
+  const career = computeCareerStats(matches);
+  const kicking = kickingOverMatches(matches);
+  const kickTypes = KICK_TYPE_RULES.filter((t) => Object.values(kicking).some((k) => k.byType[t.type]));
+  const teamName = new Map(teams.map((t) => [t.id, t.name]));
+  const rows = players
+    .filter((p) => career[p.id])
+    .sort((a, b) => (teamName.get(a.teamId) ?? '').localeCompare(teamName.get(b.teamId) ?? '') || a.number - b.number)
+    .map((p) => {
+      const s = career[p.id];
+      const k = kicking[p.id];
+      return [
+        p.name,
+        p.number,
+        teamName.get(p.teamId) ?? '',
+        s.gamesPlayed,
+        s.tries,
+        s.points,
+        s.yellowCards,
+        s.redCards,
+        ...kickTypes.flatMap((t) => [k?.byType[t.type]?.made ?? 0, k?.byType[t.type]?.attempts ?? 0]),
+        k?.total.made ?? 0,
+        k?.total.attempts ?? 0,
+        k ? kickPercentage(k.total) ?? '' : '',
+      ];
+    });
+  const header = [
+    'Player', 'Number', 'Team', 'Games', 'Tries', 'Points', 'Yellow cards', 'Red cards',
+    ...kickTypes.flatMap((t) => [`${t.label} made`, `${t.label} attempts`]),
+    'Kicks made', 'Kicks attempted', 'Kick %',
+  ];
+  return toCsv([header, ...rows]);
+}
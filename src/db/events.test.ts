@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { CardEvent, CardReturnEvent, CorrectionEvent, MatchEvent, ScoreEvent, SystemEvent, TackleEvent } from './types';
+import { LEAGUE_RULES, UNION_RULES } from './rules';
+import { eventsToLog, logToEvents, reduceMatchEvents, settleEvents } from './events';
+
+let clock = 0;
+const base = (id: string) => ({ id, timestamp: ++clock });
+const score = (id: string, team: 'home' | 'away', type: ScoreEvent['type'], points: number, extra: Partial<ScoreEvent> = {}): ScoreEvent => ({
+  ...base(id),
+  kind: 'score',
+  team,
+  type,
+  points,
+  half: 1,
+  minute: 0,
+  matchTime: 0,
+  ...extra,
+});
+const card = (id: string, player: string, type: 'yellow' | 'red' = 'yellow'): CardEvent => ({ ...base(id), kind: 'card', team: 'away', player, type, half: 1, minute: 10, matchTime: 600, returnTime: 1200 });
+const cardReturn = (id: string, cardId: string, playerId: string): CardReturnEvent => ({ ...base(id), kind: 'card-return', cardId, team: 'away', playerId, matchTime: 1200 });
+const system = (id: string, type: SystemEvent['type'], half = 1): SystemEvent => ({ ...base(id), kind: 'system', type, half, matchTime: 0 });
+const tackle = (id: string, action: TackleEvent['action'] = 'tackle'): TackleEvent => ({ ...base(id), kind: 'tackle', action });
+const correction = (eventId: string, action: CorrectionEvent['action'], playerId?: string): CorrectionEvent => ({ ...base(`fix-${eventId}-${action}`), kind: 'correction', eventId, action, playerId });
+
+const reduce = (events: MatchEvent[]) => reduceMatchEvents(events, UNION_RULES);
+
+describe('reduceMatchEvents', () => {
+  it('adds up the score from counted scores', () => {
+    const state = reduce([system('start', 'match-start'), score('t1', 'home', 'try', 5), score('c1', 'home', 'conversion', 2), score('p1', 'away', 'penalty', 3)]);
+    expect([state.homeScore, state.awayScore]).toEqual([7, 3]);
+    expect(state.scoreEvents.map((e) => e.id)).toEqual(['t1', 'c1', 'p1']);
+  });
+
+  it('leaves a pending TMO score out until it is approved', () => {
+    const events = [score('t1', 'home', 'try', 5, { pending: true })];
+    expect(reduce(events).homeScore).toBe(0);
+    expect(reduce([...events, correction('t1', 'approve')]).homeScore).toBe(5);
+    const rejected = reduce([...events, correction('t1', 'reject')]);
+    expect(rejected.homeScore).toBe(0);
+    expect(rejected.scoreEvents).toEqual([]);
+  });
+
+  it('drops removed events and applies scorer changes', () => {
+    const state = reduce([score('t1', 'home', 'try', 5), score('t2', 'home', 'try', 5), correction('t2', 'remove'), correction('t1', 'set-player', 'ana')]);
+    expect(state.homeScore).toBe(5);
+    expect(state.scoreEvents).toMatchObject([{ id: 't1', player: 'ana' }]);
+  });
+
+  it('ignores corrections to events that are not in the stream', () => {
+    expect(reduce([score('t1', 'home', 'try', 5), correction('missing', 'remove')]).homeScore).toBe(5);
+  });
+
+  it('offers the conversion to the side that scored the last try', () => {
+    expect(reduce([score('t1', 'away', 'try', 5)]).lastTryTeam).toBe('away');
+    expect(reduce([score('t1', 'away', 'try', 5), score('c1', 'away', 'conversion', 2)]).lastTryTeam).toBeNull();
+    expect(reduce([score('t1', 'away', 'try', 5), score('t2', 'home', 'try', 5, { pending: true })]).lastTryTeam).toBe('away');
+  });
+
+  it('marks a card returned once its return is in the stream', () => {
+    const events: MatchEvent[] = [card('y1', 'cal'), card('y2', 'dan')];
+    expect(reduce(events).cards.map((c) => c.returned)).toEqual([false, false]);
+    const state = reduce([...events, cardReturn('r1', 'y1', 'cal')]);
+    expect(state.cards.map((c) => c.returned)).toEqual([true, false]);
+    expect(state.cardReturnEvents.map((e) => e.id)).toEqual(['r1']);
+  });
+
+  it('drops the return of a card that was removed', () => {
+    const settled = settleEvents([card('y1', 'cal'), cardReturn('r1', 'y1', 'cal'), correction('y1', 'remove')]);
+    expect(settled).toEqual([]);
+  });
+
+  it('moves to the next period at each half-time', () => {
+    expect(reduce([system('start', 'match-start')]).currentHalf).toBe(1);
+    expect(reduce([system('start', 'match-start'), system('ht1', 'half-time'), system('ht2', 'half-time', 2)]).currentHalf).toBe(3);
+  });
+
+  it('counts tackles in the set, back to 0 after the last tackle', () => {
+    const tackles = Array.from({ length: 6 }, (_, i) => tackle(`k${i}`));
+    const count = (events: MatchEvent[]) => reduceMatchEvents(events, LEAGUE_RULES).tackleCount;
+    expect(count(tackles.slice(0, 5))).toBe(5);
+    expect(count(tackles.slice(0, 6))).toBe(6);
+    expect(count([...tackles, tackle('k7')])).toBe(0);
+  });
+
+  it('starts a new set on a handover, a score or a half-time, but not a missed kick', () => {
+    const count = (events: MatchEvent[]) => reduceMatchEvents(events, LEAGUE_RULES).tackleCount;
+    expect(count([tackle('k1'), tackle('k2'), tackle('h', 'handover'), tackle('k3')])).toBe(1);
+    expect(count([tackle('k1'), score('t1', 'home', 'try', 4, { pending: true }), correction('t1', 'reject')])).toBe(0);
+    expect(count([tackle('k1'), system('ht', 'half-time')])).toBe(0);
+    expect(count([tackle('k1'), score('fg', 'home', 'field-goal', 0)])).toBe(1);
+  });
+});
+
+describe('eventsToLog', () => {
+  it('writes the settled events, in stream order, and reads back the same stream', () => {
+    const events: MatchEvent[] = [
+      system('start', 'match-start'),
+      score('t1', 'home', 'try', 5, { player: 'ana', pending: true }),
+      correction('t1', 'approve'),
+      card('y1', 'cal', 'red'),
+      { ...base('s1'), kind: 'substitution', team: 'home', offPlayerId: 'ana', onPlayerId: 'ben', half: 2, minute: 10, matchTime: 600 },
+      tackle('k1'),
+      system('end', 'match-end', 2),
+    ];
+    const log = eventsToLog(events, UNION_RULES);
+    expect(log.map((e) => [e.id, e.type])).toEqual([
+      ['start', 'match-start'],
+      ['t1', 'score'],
+      ['y1', 'card'],
+      ['s1', 'substitution'],
+      ['end', 'match-end'],
+    ]);
+    expect(log[1]).toMatchObject({ team: 'home', scoreType: 'try', points: 5, playerId: 'ana', pending: false });
+    expect(reduce(logToEvents(log))).toEqual(reduce(events.filter((e) => e.kind !== 'tackle')));
+  });
+
+  it('keeps kick outcomes and sin-bin returns, with the period of the return', () => {
+    const events: MatchEvent[] = [
+      system('start', 'match-start'),
+      score('c1', 'home', 'conversion', 2),
+      score('p1', 'home', 'penalty', 0),
+      card('y1', 'cal'),
+      system('ht', 'half-time'),
+      cardReturn('r1', 'y1', 'cal'),
+    ];
+    const log = eventsToLog(events, UNION_RULES);
+    expect(log.map((e) => [e.id, e.type, e.kickOutcome, e.half])).toEqual([
+      ['start', 'match-start', undefined, 1],
+      ['c1', 'score', 'made', 1],
+      ['p1', 'kick-attempt', 'missed', 1],
+      ['y1', 'card', undefined, 1],
+      ['ht', 'half-time', undefined, 1],
+      ['r1', 'card-return', undefined, 2],
+    ]);
+    expect(log[3].returned).toBe(true);
+    expect(reduce(logToEvents(log))).toEqual(reduce(events));
+  });
+});
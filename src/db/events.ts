@@ -0,0 +1,168 @@
+/**
+ * Match event stream for Rugby Scorer.
+ * The live match is an append-only list of MatchEvents; score, period, sin bins and the
+ * saved log are all computed from it here, so they can never drift out of step.
+ */
+
+import type {
+  CardEvent,
+  CardReturnEvent,
+  CorrectionEvent,
+  LogEvent,
+  MatchEvent,
+  RuleSet,
+  ScoreEvent,
+  ScoreType,
+  SubstitutionEvent,
+  SystemEvent,
+  TackleEvent,
+} from './types';
+import { countsAsTry, getScoreTypeRule } from './rules';
+
+/** A stream event after corrections have been applied (corrections themselves removed). */
+export type SettledEvent = Exclude<MatchEvent, CorrectionEvent>;
+
+/** Everything derived from the stream. */
+export interface MatchEventState {
+  scoreEvents: ScoreEvent[];
+  cards: CardEvent[];
+  substitutionEvents: SubstitutionEvent[];
+  systemEvents: SystemEvent[];
+  cardReturnEvents: CardReturnEvent[];
+  homeScore: number;
+  awayScore: number;
+  /** 1-based period: one more than the number of half-time events. */
+  currentHalf: number;
+  /** Team whose try was the last counted score (can take the conversion), or null. */
+  lastTryTeam: 'home' | 'away' | null;
+  /** Tackles in the current set (league; see RuleSet.tackleLimit), back to 0 after the last tackle. */
+  tackleCount: number;
+}
+
+/** Apply corrections to the stream: drop removed / rejected events, apply TMO approvals and scorer changes, mark returned cards. */
+export function settleEvents(events: MatchEvent[]): SettledEvent[] {
+  const settled = new Map<string, SettledEvent>();
+  for (const ev of events) {
+    if (ev.kind !== 'correction') {
+      settled.set(ev.id, ev);
+      continue;
+    }
+    const target = settled.get(ev.eventId);
+    if (!target) continue;
+    if (ev.action === 'remove' || ev.action === 'reject') settled.delete(ev.eventId);
+    else if (ev.action === 'approve' && target.kind === 'score') settled.set(target.id, { ...target, pending: false });
+    else if (ev.action === 'set-player' && target.kind === 'score') settled.set(target.id, { ...target, player: ev.playerId });
+  }
+  const list = [...settled.values()];
+  const returnedCardIds = new Set(
+    list.filter((e): e is CardReturnEvent => e.kind === 'card-return' && settled.has(e.cardId)).map((e) => e.cardId)
+  );
+  return list
+    .filter((e) => e.kind !== 'card-return' || settled.has(e.cardId))
+    .map((e) => (e.kind === 'card' ? { ...e, returned: returnedCardIds.has(e.id) || !!e.returned } : e));
+}
+
+/** Reduce the stream to the live match state. */
+export function reduceMatchEvents(events: MatchEvent[], ruleSet: RuleSet): MatchEventState {
+  const state: MatchEventState = {
+    scoreEvents: [],
+    cards: [],
+    substitutionEvents: [],
+    systemEvents: [],
+    cardReturnEvents: [],
+    homeScore: 0,
+    awayScore: 0,
+    currentHalf: 1,
+    lastTryTeam: null,
+    tackleCount: 0,
+  };
+  // A set ends on a handover, a score or the end of a period, as recorded: a score rejected later doesn't bring the old set back
+  const tackleLimit = ruleSet.tackleLimit ?? 0;
+  for (const ev of events) {
+    if (ev.kind === 'tackle') state.tackleCount = ev.action === 'tackle' && state.tackleCount < tackleLimit ? state.tackleCount + 1 : 0;
+    else if ((ev.kind === 'score' && ev.points > 0) || (ev.kind === 'system' && ev.type === 'half-time')) state.tackleCount = 0;
+  }
+  for (const ev of settleEvents(events)) {
+    switch (ev.kind) {
+      case 'score':
+        state.scoreEvents.push(ev);
+        // Pending (TMO) and missed kicks (0 points) leave the score and conversion chance as they were
+        if (ev.pending || ev.points === 0) break;
+        if (ev.team === 'home') state.homeScore += ev.points;
+        else state.awayScore += ev.points;
+        state.lastTryTeam = countsAsTry(ruleSet, ev.type) ? ev.team : null;
+        break;
+      case 'card':
+        state.cards.push(ev);
+        break;
+      case 'substitution':
+        state.substitutionEvents.push(ev);
+        break;
+      case 'card-return':
+        state.cardReturnEvents.push(ev);
+        break;
+      case 'system':
+        state.systemEvents.push(ev);
+        if (ev.type === 'half-time') state.currentHalf += 1;
+        break;
+    }
+  }
+  return state;
+}
+
+/** Saved-log form of a settled event. `half` is the period the event happened in (card returns don't record one). */
+function toLogEvent(ev: Exclude<SettledEvent, TackleEvent>, ruleSet: RuleSet, half: number): LogEvent {
+  switch (ev.kind) {
+    case 'score': {
+      if (!getScoreTypeRule(ruleSet, ev.type)?.isKick) {
+        return { id: ev.id, timestamp: ev.timestamp, type: 'score', team: ev.team, scoreType: ev.type, points: ev.points, playerId: ev.player, pending: ev.pending, half: ev.half, matchTime: ev.matchTime };
+      }
+      // A missed kick is a 0-point score event in the stream
+      if (ev.points === 0) {
+        return { id: ev.id, timestamp: ev.timestamp, type: 'kick-attempt', team: ev.team, scoreType: ev.type, points: 0, playerId: ev.player, kickOutcome: 'missed', half: ev.half, matchTime: ev.matchTime };
+      }
+      return { id: ev.id, timestamp: ev.timestamp, type: 'score', team: ev.team, scoreType: ev.type, points: ev.points, playerId: ev.player, pending: ev.pending, kickOutcome: 'made', half: ev.half, matchTime: ev.matchTime };
+    }
+    case 'card':
+      return { id: ev.id, timestamp: ev.timestamp, type: 'card', team: ev.team, cardType: ev.type, playerId: ev.player, returned: ev.returned, returnTime: ev.returnTime, half: ev.half, matchTime: ev.matchTime };
+    case 'card-return':
+      return { id: ev.id, timestamp: ev.timestamp, type: 'card-return', team: ev.team, playerId: ev.playerId, cardId: ev.cardId, half, matchTime: ev.matchTime };
+    case 'substitution':
+      return { id: ev.id, timestamp: ev.timestamp, type: 'substitution', team: ev.team, offPlayerId: ev.offPlayerId, onPlayerId: ev.onPlayerId, half: ev.half, matchTime: ev.matchTime };
+    case 'system':
+      return { id: ev.id, timestamp: ev.timestamp, type: ev.type, half: ev.half, matchTime: ev.matchTime };
+  }
+}
+
+/** Serialise the stream to a match log (settled events, in stream order; tackle counts aren't logged). */
+export function eventsToLog(events: MatchEvent[], ruleSet: RuleSet): LogEvent[] {
+  let half = 1;
+  const logged = settleEvents(events).filter((ev): ev is Exclude<SettledEvent, TackleEvent> => ev.kind !== 'tackle');
+  return logged.map((ev) => {
+    const logEvent = toLogEvent(ev, ruleSet, half);
+    if (ev.kind === 'system' && ev.type === 'half-time') half += 1;
+    return logEvent;
+  });
+}
+
+/** Rebuild a stream from a saved log (inverse of eventsToLog), e.g. to resume a match autosaved without its stream. */
+export function logToEvents(log: LogEvent[]): MatchEvent[] {
+  const events: MatchEvent[] = [];
+  for (const ev of [...log].sort((a, b) => a.timestamp - b.timestamp)) {
+    const half = ev.half ?? 1;
+    const matchTime = ev.matchTime ?? 0;
+    const minute = Math.floor(matchTime / 60);
+    if ((ev.type === 'score' || ev.type === 'kick-attempt') && ev.team) {
+      events.push({ kind: 'score', id: ev.id, timestamp: ev.timestamp, team: ev.team, type: (ev.scoreType ?? 'try') as ScoreType, points: ev.points ?? 0, player: ev.playerId, half, minute, matchTime, pending: ev.pending });
+    } else if (ev.type === 'card' && ev.team && ev.playerId) {
+      events.push({ kind: 'card', id: ev.id, timestamp: ev.timestamp, team: ev.team, player: ev.playerId, type: ev.cardType ?? 'yellow', half, minute, matchTime, returnTime: ev.returnTime, returned: ev.returned });
+    } else if (ev.type === 'card-return' && ev.team && ev.playerId && ev.cardId) {
+      events.push({ kind: 'card-return', id: ev.id, timestamp: ev.timestamp, cardId: ev.cardId, team: ev.team, playerId: ev.playerId, matchTime });
+    } else if (ev.type === 'substitution' && ev.team && ev.offPlayerId && ev.onPlayerId) {
+      events.push({ kind: 'substitution', id: ev.id, timestamp: ev.timestamp, team: ev.team, offPlayerId: ev.offPlayerId, onPlayerId: ev.onPlayerId, half, minute, matchTime });
+    } else if (ev.type === 'match-start' || ev.type === 'half-time' || ev.type === 'match-end') {
+      events.push({ kind: 'system', id: ev.id, timestamp: ev.timestamp, type: ev.type, half, matchTime });
+    }
+  }
+  return events;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import type { Team } from './types';
+import { matchDays, oppositionFixtures, roundRobinFixtures, type FixtureSchedule } from './fixtureScheduler';
+
+// Kick-offs are local times: run these in a zone with a clock change
+process.env.TZ = 'Europe/London';
+
+const team = (id: string): Team => ({ id, name: id.toUpperCase(), color: '#000000', createdAt: 0 });
+const schedule = (overrides: Partial<FixtureSchedule> = {}): FixtureSchedule => ({ startDate: '2026-10-14', weekday: 6, kickOff: '15:00', skipDates: [], ...overrides });
+const local = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+describe('matchDays', () => {
+  it('starts on the first chosen weekday on or after the start date', () => {
+    expect(matchDays(schedule(), 1).map(local)).toEqual(['2026-10-17 15:00']);
+    expect(matchDays(schedule({ startDate: '2026-10-17' }), 1).map(local)).toEqual(['2026-10-17 15:00']);
+  });
+
+  it('keeps the kick-off time across the end of summer time', () => {
+    const days = matchDays(schedule(), 3);
+    expect(days.map(local)).toEqual(['2026-10-17 15:00', '2026-10-24 15:00', '2026-10-31 15:00']);
+    // BST before the change on 25 October, GMT after it
+    expect(new Date(days[1]).toISOString()).toBe('2026-10-24T14:00:00.000Z');
+    expect(new Date(days[2]).toISOString()).toBe('2026-10-31T15:00:00.000Z');
+  });
+
+  it('passes over skipped dates and still gives the number asked for', () => {
+    const days = matchDays(schedule({ startDate: '2026-12-01', skipDates: ['2026-12-26', '2027-01-02'] }), 4);
+    expect(days.map(local)).toEqual(['2026-12-05 15:00', '2026-12-12 15:00', '2026-12-19 15:00', '2027-01-09 15:00']);
+  });
+});
+
+describe('oppositionFixtures', () => {
+  const us = team('us');
+  const opponents = ['a', 'b', 'c'].map(team);
+  const options = { firstAtHome: true, homeVenue: ' Home Park ' };
+
+  it('plays each opponent in turn, alternating home and away', () => {
+    const plan = oppositionFixtures(us, opponents, schedule(), options);
+    expect(plan.ok && plan.drafts.map((d) => [d.round, d.home.id, d.away.id, d.venue, local(d.scheduledAt)])).toEqual([
+      [1, 'us', 'a', 'Home Park', '2026-10-17 15:00'],
+      [2, 'b', 'us', '', '2026-10-24 15:00'],
+      [3, 'us', 'c', 'Home Park', '2026-10-31 15:00'],
+    ]);
+  });
+
+  it('can start away', () => {
+    const plan = oppositionFixtures(us, opponents, schedule(), { ...options, firstAtHome: false });
+    expect(plan.ok && plan.drafts.map((d) => d.home.id)).toEqual(['a', 'us', 'c']);
+  });
+
+  it('rejects a bad schedule, no opponents or playing ourselves', () => {
+    expect(oppositionFixtures(us, opponents, schedule({ startDate: '' }), options)).toEqual({ ok: false, error: 'Choose a start date.' });
+    expect(oppositionFixtures(us, [], schedule(), options)).toEqual({ ok: false, error: 'Add at least one opponent.' });
+    expect(oppositionFixtures(us, [team('us')], schedule(), options)).toEqual({ ok: false, error: "US can't play itself." });
+  });
+
+  it('keeps to the teams of a chosen competition', () => {
+    const competition = { name: 'Counties 1', teamIds: ['us', 'a', 'b'] };
+    expect(oppositionFixtures(us, opponents.slice(0, 2), schedule(), { ...options, competition }).ok).toBe(true);
+    expect(oppositionFixtures(us, opponents, schedule(), { ...options, competition })).toEqual({ ok: false, error: 'C is not in Counties 1.' });
+    expect(oppositionFixtures(us, opponents.slice(0, 2), schedule(), { ...options, competition: { ...competition, teamIds: ['a', 'b'] } })).toEqual({
+      ok: false,
+      error: 'US is not in Counties 1.',
+    });
+  });
+});
+
+describe('roundRobinFixtures', () => {
+  const homeBalance = (drafts: Array<{ home: Team; away: Team }>) => {
+    const balance: Record<string, number> = {};
+    for (const { home, away } of drafts) {
+      balance[home.id] = (balance[home.id] ?? 0) + 1;
+      balance[away.id] = (balance[away.id] ?? 0) - 1;
+    }
+    return balance;
+  };
+
+  it('plays one round per match day', () => {
+    const plan = roundRobinFixtures(['a', 'b', 'c', 'd'].map(team), schedule(), false);
+    expect(plan.ok && plan.drafts.map((d) => [d.round, local(d.scheduledAt)])).toEqual([
+      [1, '2026-10-17 15:00'],
+      [1, '2026-10-17 15:00'],
+      [2, '2026-10-24 15:00'],
+      [2, '2026-10-24 15:00'],
+      [3, '2026-10-31 15:00'],
+      [3, '2026-10-31 15:00'],
+    ]);
+  });
+
+  it.each([4, 5, 6])('shares home games out evenly between %i teams', (n) => {
+    const plan = roundRobinFixtures(Array.from({ length: n }, (_, i) => team(`t${i}`)), schedule(), false);
+    if (!plan.ok) throw new Error(plan.error);
+    for (const diff of Object.values(homeBalance(plan.drafts))) expect(Math.abs(diff)).toBeLessThanOrEqual(1);
+  });
+
+  it('plays the return fixtures the other way round in the second half', () => {
+    const plan = roundRobinFixtures(['a', 'b', 'c', 'd'].map(team), schedule(), true);
+    if (!plan.ok) throw new Error(plan.error);
+    expect(plan.drafts).toHaveLength(12);
+    const firstHalf = plan.drafts.slice(0, 6).map((d) => `${d.home.id}-${d.away.id}`);
+    const secondHalf = plan.drafts.slice(6).map((d) => `${d.away.id}-${d.home.id}`);
+    expect(secondHalf).toEqual(firstHalf);
+    expect(Object.values(homeBalance(plan.drafts)).every((diff) => diff === 0)).toBe(true);
+    expect(plan.drafts.at(-1)?.round).toBe(6);
+  });
+
+  it('needs two teams', () => {
+    expect(roundRobinFixtures([team('a')], schedule(), true)).toEqual({ ok: false, error: 'The competition needs at least two teams.' });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Bulk fixture scheduling for Rugby Scorer.
+ * Lays out a run of fixtures on one weekday at one kick-off time, week after week from a start date,
+ * passing over skipped dates (holidays): our team against a list of opponents, alternating home and
+ * away, or a round robin between a competition's teams with one round per match day. The drafts are
+ * reviewed in the app before saveFixtureDrafts writes them as not_played matches.
+ */
+
+import { db } from './index';
+import type { Competition, RuleSet, Team } from './types';
+import { saveScheduledMatch } from './matches';
+import { normalTimePeriods } from './periods';
+import { roundRobinRounds } from './tournaments';
+
+/** When fixtures are played. Dates are "YYYY-MM-DD", the kick-off "HH:MM" local time. */
+export interface FixtureSchedule {
+  startDate: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  weekday: number;
+  kickOff: string;
+  skipDates: string[];
+}
+
+/** One fixture waiting to be saved. */
+export interface FixtureDraft {
+  /** Match day (1-based); round-robin matches of one round share it. */
+  round: number;
+  home: Team;
+  away: Team;
+  scheduledAt: number;
+  venue: string;
+}
+
+export type FixturePlan = { ok: true; drafts: FixtureDraft[] } | { ok: false; error: string };
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function validateSchedule(schedule: FixtureSchedule): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(schedule.startDate)) return 'Choose a start date.';
+  if (!/^\d{2}:\d{2}$/.test(schedule.kickOff)) return 'Choose a kick-off time.';
+  if (schedule.weekday < 0 || schedule.weekday > 6) return 'Choose a weekday.';
+  return null;
+}
+
+/** Kick-offs of the first `count` match days: the weekday on or after the start date, then weekly, skipping listed dates. */
+export function matchDays(schedule: FixtureSchedule, count: number): number[] {
+  const [y, m, d] = schedule.startDate.split('-').map(Number);
+  const [hh, mm] = schedule.kickOff.split(':').map(Number);
+  const skip = new Set(schedule.skipDates);
+  const first = new Date(y, m - 1, d);
+  let day = d + ((schedule.weekday - first.getDay() + 7) % 7);
+  const days: number[] = [];
+  while (days.length < count) {
+    const date = new Date(y, m - 1, day, hh, mm);
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+    if (!skip.has(key)) days.push(date.getTime());
+    day += 7;
+  }
+  return days;
+}
+
+/**
+ * Our team against each opponent in turn, one a week, alternating home and away; `homeVenue` for our home
+ * games. With a competition, our team and every opponent must be among its teams.
+ */
+export function oppositionFixtures(
+  ourTeam: Team,
+  opponents: Team[],
+  schedule: FixtureSchedule,
+  options: { firstAtHome: boolean; homeVenue: string; competition?: Pick<Competition, 'name' | 'teamIds'> }
+): FixturePlan {
+  const error = validateSchedule(schedule);
+  if (error) return { ok: false, error };
+  if (opponents.length === 0) return { ok: false, error: 'Add at least one opponent.' };
+  if (opponents.some((t) => t.id === ourTeam.id)) return { ok: false, error: `${ourTeam.name} can't play itself.` };
+  const { competition } = options;
+  const outside = competition && [ourTeam, ...opponents].find((t) => !competition.teamIds.includes(t.id));
+  if (outside) return { ok: false, error: `${outside.name} is not in ${competition.name}.` };
+  const days = matchDays(schedule, opponents.length);
+  const drafts = opponents.map((opponent, i) => {
+    const atHome = (i % 2 === 0) === options.firstAtHome;
+    return {
+      round: i + 1,
+      home: atHome ? ourTeam : opponent,
+      away: atHome ? opponent : ourTeam,
+      scheduledAt: days[i],
+      venue: atHome ? options.homeVenue.trim() : '',
+    };
+  });
+  return { ok: true, drafts };
+}
+
+/** Round robin, one round per match day: every team plays every other once, or twice with `homeAndAway` (return fixtures in a second half). */
+export function roundRobinFixtures(teams: Team[], schedule: FixtureSchedule, homeAndAway: boolean): FixturePlan {
+  const error = validateSchedule(schedule);
+  if (error) return { ok: false, error };
+  if (teams.length < 2) return { ok: false, error: 'The competition needs at least two teams.' };
+  const firstHalf = roundRobinRounds(teams);
+  const rounds = homeAndAway ? [...firstHalf, ...firstHalf.map((pairs) => pairs.map(([a, b]): [Team, Team] => [b, a]))] : firstHalf;
+  const days = matchDays(schedule, rounds.length);
+  const drafts = rounds.flatMap((pairs, r) => pairs.map(([home, away]) => ({ round: r + 1, home, away, scheduledAt: days[r], venue: '' })));
+  return { ok: true, drafts };
+}
+
+/** Save the drafts as not_played matches with the given rule set and competition, all or none. Returns how many were saved. */
+export async function saveFixtureDrafts(
+  drafts: FixtureDraft[],
+  options: { ruleSet: RuleSet; competition: string; competitionId?: string }
+): Promise<number> {
+  const { ruleSet } = options;
+  await db.transaction('rw', db.matches, async () => {
+    for (const draft of drafts) {
+      const { home, away } = draft;
+      const awayColor = away.color !== home.color ? away.color : (away.colors ?? []).find((c) => c !== home.color) ?? away.color;
+      await saveScheduledMatch({
+        homeTeamId: home.id,
+        awayTeamId: away.id,
+        homeTeamName: home.name,
+        awayTeamName: away.name,
+        homeColor: home.color,
+        awayColor,
+        halfDuration: ruleSet.periodDuration,
+        competition: options.competition,
+        competitionId: options.competitionId,
+        venue: draft.venue,
+        referee: '',
+        scheduledAt: draft.scheduledAt,
+        config: { playerTracking: true, cardTracking: true, substitutions: false, ruleSet, periods: normalTimePeriods(ruleSet.periodCount, ruleSet.periodDuration) },
+      });
+    }
+  });
+  return drafts.length;
+}
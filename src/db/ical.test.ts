@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type { Competition, Match, Team } from './types';
+import { buildFixtureImportRows, fixturesIcs, fixturesIcsFileName, matchUid, parseIcs, splitFixtureTitle, zonedTime, type IcsEvent } from './ical';
+import { testMatch } from './testFixtures';
+
+const match = (id: string, overrides: Partial<Match> = {}): Match =>
+  testMatch({
+    id,
+    homeTeamId: 'h',
+    awayTeamId: 'a',
+    scheduledAt: Date.UTC(2026, 2, 14, 15, 0),
+    currentHalf: 1,
+    elapsedSeconds: 0,
+    status: 'not_played',
+    ...overrides,
+  });
+
+const team = (id: string, name: string, isOurTeam = false): Team => ({ id, name, color: '#000000', isOurTeam, createdAt: 0 });
+
+const calendar = (...events: string[][]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap((e) => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+describe('fixturesIcs', () => {
+  it('writes one event per scheduled match that reads back the same', () => {
+    const text = fixturesIcs(
+      [match('m1', { venue: 'Home Park, Pitch 2', competition: 'Counties 1; South' }), match('m2', { scheduledAt: undefined })],
+      'Harlow fixtures',
+      Date.UTC(2026, 0, 1)
+    );
+    expect(text).toContain('DTSTART:20260314T150000Z\r\n');
+    expect(text).toContain('DTEND:20260314T163500Z\r\n');
+    expect(text).toContain('LOCATION:Home Park\\, Pitch 2\r\n');
+    const parsed = parseIcs(text);
+    expect(parsed).toEqual({
+      ok: true,
+      events: [{ uid: 'm1@rugby-scorer', summary: 'Harlow v Ashford', location: 'Home Park, Pitch 2', category: 'Counties 1; South', start: Date.UTC(2026, 2, 14, 15, 0), allDay: false, unknownTimeZone: undefined }],
+    });
+  });
+
+  it('folds long lines at 75 octets without splitting a character', () => {
+    const venue = 'Stade de la Fédération Française, terrain synthétique numéro deux, près du café';
+    const text = fixturesIcs([match('m1', { venue })], 'Fixtures');
+    const lines = text.split('\r\n');
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+    expect(lines.some((l) => l.startsWith(' '))).toBe(true);
+    const parsed = parseIcs(text);
+    expect(parsed.ok && parsed.events[0].location).toBe(venue);
+  });
+
+  it('keeps an imported UID and names the file after the team', () => {
+    expect(matchUid({ id: 'm1', icalUid: 'abc@league.example' })).toBe('abc@league.example');
+    expect(fixturesIcsFileName('Harlow RFC U14s')).toBe('harlow-rfc-u14s-fixtures.ics');
+    expect(fixturesIcsFileName()).toBe('fixtures.ics');
+  });
+});
+
+describe('parseIcs', () => {
+  it('rejects files that are not calendars or have no events', () => {
+    expect(parseIcs('Name,Number')).toEqual({ ok: false, error: 'Not an iCalendar (.ics) file.' });
+    expect(parseIcs(calendar())).toEqual({ ok: false, error: 'The file has no events.' });
+  });
+
+  it('reads all-day and floating times as local time', () => {
+    const parsed = parseIcs(calendar(['DTSTART;VALUE=DATE:20260314'], ['DTSTART:20260314T150000']));
+    expect(parsed.ok && parsed.events.map((e) => [e.start, e.allDay])).toEqual([
+      [new Date(2026, 2, 14).getTime(), true],
+      [new Date(2026, 2, 14, 15, 0).getTime(), false],
+    ]);
+  });
+
+  it('reads a TZID time in that zone, either side of a clock change', () => {
+    const parsed = parseIcs(calendar(['DTSTART;TZID=Europe/London:20260314T150000'], ['DTSTART;TZID="Europe/London":20260411T150000'], ['DTSTART;TZID=Australia/Sydney:20260314T150000']));
+    expect(parsed.ok && parsed.events.map((e) => e.start)).toEqual([Date.UTC(2026, 2, 14, 15), Date.UTC(2026, 3, 11, 14), Date.UTC(2026, 2, 14, 4)]);
+  });
+
+  it('falls back to local time for a zone it does not know, and says so', () => {
+    const parsed = parseIcs(calendar(['DTSTART;TZID=GMT Standard Time:20260314T150000']));
+    expect(parsed.ok && parsed.events[0]).toMatchObject({ start: new Date(2026, 2, 14, 15).getTime(), unknownTimeZone: 'GMT Standard Time' });
+  });
+});
+
+describe('zonedTime', () => {
+  it('converts a wall-clock time in a zone to a timestamp', () => {
+    expect(zonedTime([2026, 6, 1, 19, 30, 0], 'America/New_York')).toBe(Date.UTC(2026, 6, 1, 23, 30));
+    expect(zonedTime([2026, 0, 1, 0, 0, 0], 'UTC')).toBe(Date.UTC(2026, 0, 1));
+    expect(zonedTime([2026, 0, 1, 0, 0, 0], 'Nowhere/Special')).toBeNull();
+  });
+});
+
+describe('buildFixtureImportRows', () => {
+  const teams = [team('h', 'Harlow', true), team('a', 'Ashford')];
+  const event = (overrides: Partial<IcsEvent> = {}): IcsEvent => ({ uid: 'e1@league', summary: 'Harlow v Ashford', location: 'Harlow RFC', category: 'Counties 1', start: Date.UTC(2026, 2, 14, 15), allDay: false, ...overrides });
+  const competitions: Competition[] = [{ id: 'c1', name: 'Counties 1', teamIds: ['h', 'a'], pointsRules: { win: 4, draw: 2, loss: 0, tryBonus: 1, tryBonusThreshold: 4, losingBonus: 1, losingBonusMargin: 7 }, createdAt: 0, updatedAt: 0 }];
+
+  it('splits titles into home and away', () => {
+    expect(splitFixtureTitle('Harlow vs. Ashford')).toEqual({ home: 'Harlow', away: 'Ashford' });
+    expect(splitFixtureTitle('Old Boys - Ashford II')).toEqual({ home: 'Old Boys', away: 'Ashford II' });
+    expect(splitFixtureTitle('Training')).toBeNull();
+  });
+
+  it('adds new fixtures, matching teams and competitions by name', () => {
+    const [row] = buildFixtureImportRows([event({ summary: 'harlow v New Club' })], teams, competitions, []);
+    expect(row).toMatchObject({ action: 'add', homeTeam: { id: 'h' }, competitionId: 'c1', venue: 'Harlow RFC' });
+    expect(row.awayTeam).toBeUndefined();
+  });
+
+  it('updates a changed fixture found by UID and skips an unchanged one', () => {
+    const existing = match('m1', { icalUid: 'e1@league', venue: 'Harlow RFC', competition: 'Counties 1' });
+    expect(buildFixtureImportRows([event({ start: Date.UTC(2026, 2, 14, 14) })], teams, competitions, [existing])[0]).toMatchObject({ action: 'update', existing: { id: 'm1' } });
+    expect(buildFixtureImportRows([event()], teams, competitions, [existing])[0]).toMatchObject({ action: 'skip', note: 'Already imported' });
+  });
+
+  it('finds a fixture without our UID by the same teams on the same day', () => {
+    const existing = match('m1', { scheduledAt: Date.UTC(2026, 2, 14, 12), status: 'completed' });
+    expect(buildFixtureImportRows([event()], teams, competitions, [existing])[0]).toMatchObject({ action: 'skip', note: 'Already played' });
+  });
+
+  it('skips other clubs\' fixtures and events it cannot read', () => {
+    const rows = buildFixtureImportRows([event({ summary: 'Bexley v Crayford' }), event({ start: null }), event({ summary: 'AGM' })], teams, competitions, []);
+    expect(rows.map((r) => [r.action, r.note ?? r.error])).toEqual([
+      ['skip', 'Not our fixture'],
+      ['skip', 'No date'],
+      ['skip', 'No "Home v Away" in "AGM"'],
+    ]);
+  });
+
+  it('rejects an event repeated in the file by UID or by teams and day', () => {
+    const rows = buildFixtureImportRows(
+      [event(), event({ start: Date.UTC(2026, 2, 14, 14) }), event({ uid: 'e2@league', summary: 'harlow v ashford', start: Date.UTC(2026, 2, 14, 12) }), event({ uid: 'e3@league', start: Date.UTC(2026, 2, 21, 15) })],
+      teams,
+      competitions,
+      []
+    );
+    expect(rows.map((r) => [r.action, r.error])).toEqual([
+      ['add', undefined],
+      ['skip', 'Same UID as event 1'],
+      ['skip', 'Same fixture as event 1'],
+      ['add', undefined],
+    ]);
+  });
+
+  it('warns when the kick-off was read in the wrong time zone', () => {
+    const [row] = buildFixtureImportRows([event({ unknownTimeZone: 'GMT Standard Time' })], teams, competitions, []);
+    expect(row.warning).toBe("Time zone GMT Standard Time unknown – kick-off read as this device's time");
+  });
+});
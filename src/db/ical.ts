@@ -0,0 +1,353 @@
+/**
+ * iCalendar (.ics) fixtures for Rugby Scorer.
+ * Scheduled matches are exported as calendar events (kick-off, venue, teams, competition). A league's
+ * .ics file is imported as not_played matches: each event's title is split into home and away, the
+ * teams are matched to existing teams by name (or created), and events imported before are found again
+ * by their UID, or by the same teams on the same day, so a second import updates instead of duplicating.
+ */
+
+import { db } from './index';
+import type { Competition, Match, RuleSet, Team } from './types';
+import { saveScheduledMatch, updateMatch } from './matches';
+import { addTeam } from './teams';
+import { getMatchPeriods, normalTimePeriods } from './periods';
+
+/** Exported events get the UID "<match id>@rugby-scorer", so re-importing our own file finds the matches. */
+const UID_DOMAIN = 'rugby-scorer';
+/** Added to normal time for an event's end: half-time and stoppages. */
+const BREAK_SECONDS = 15 * 60;
+/** Colour for teams created by an import (the default away colour). */
+const NEW_TEAM_COLOR = '#ef4444';
+
+/** One VEVENT read from a file. */
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  location: string;
+  /** First CATEGORIES value, if any. */
+  category: string;
+  /** Kick-off (ms); null when DTSTART is missing or unreadable. */
+  start: number | null;
+  /** DTSTART was a date without a time. */
+  allDay: boolean;
+  /** DTSTART's TZID when this device doesn't know the zone; the time was then read as local time. */
+  unknownTimeZone?: string;
+}
+
+export type ParsedIcs = { ok: true; events: IcsEvent[] } | { ok: false; error: string };
+
+export type FixtureImportAction = 'add' | 'update' | 'skip';
+
+/** One previewed event. */
+export interface FixtureImportRow {
+  /** Position of the event in the file (1-based). */
+  line: number;
+  uid: string;
+  homeName: string;
+  awayName: string;
+  /** Existing team with the same name; a new team is created for a side without one. */
+  homeTeam?: Team;
+  awayTeam?: Team;
+  scheduledAt: number;
+  allDay: boolean;
+  venue: string;
+  competition: string;
+  competitionId?: string;
+  /** Why the event can't be imported (no date, no "Home v Away" title, repeated in the file). */
+  error?: string;
+  /** Match already in the app for this event. */
+  existing?: Match;
+  /** Why the row is skipped by default. */
+  note?: string;
+  /** Something to check before importing (a kick-off read in the wrong time zone). */
+  warning?: string;
+  action: FixtureImportAction;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+// Lines are folded at 75 octets: CRLF, then a space before the rest
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    if (octets + size > 75) {
+      parts.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+/** UTC date-time, e.g. "20260314T150000Z". */
+function icsDateTime(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Event UID of a match: the one it was imported with, else one made from its id. */
+export function matchUid(match: Pick<Match, 'id' | 'icalUid'>): string {
+  return match.icalUid ?? `${match.id}@${UID_DOMAIN}`;
+}
+
+/** Normal time plus the breaks, in seconds. */
+function matchLengthSeconds(match: Match): number {
+  return getMatchPeriods(match).filter((p) => !p.extraTime).reduce((total, p) => total + p.duration, 0) + BREAK_SECONDS;
+}
+
+/** Calendar of the matches that have a kick-off time, one event each ("Home v Away" at the venue). */
+export function fixturesIcs(matches: Match[], calendarName: string, now = Date.now()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Rugby Scorer//Fixtures//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+  ];
+  for (const match of matches) {
+    if (!match.scheduledAt) continue;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${matchUid(match)}`,
+      `DTSTAMP:${icsDateTime(now)}`,
+      `DTSTART:${icsDateTime(match.scheduledAt)}`,
+      `DTEND:${icsDateTime(match.scheduledAt + matchLengthSeconds(match) * 1000)}`,
+      `SUMMARY:${escapeText(`${match.homeTeamName} v ${match.awayTeamName}`)}`
+    );
+    if (match.venue) lines.push(`LOCATION:${escapeText(match.venue)}`);
+    if (match.competition) lines.push(`CATEGORIES:${escapeText(match.competition)}`, `DESCRIPTION:${escapeText(match.competition)}`);
+    lines.push('END:VEVENT');
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+export function fixturesIcsFileName(teamName?: string): string {
+  const slug = (teamName ?? '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return slug ? `${slug}-fixtures.ics` : 'fixtures.ics';
+}
+
+// ---------------------------------------------------------------------------
+// Import
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+// Split on commas that are not escaped (CATEGORIES lists)
+function splitList(value: string): string[] {
+  return value.split(/(?<!\\),/).map((v) => unescapeText(v).trim()).filter(Boolean);
+}
+
+type DateTimeParts = readonly [year: number, monthIndex: number, day: number, hours: number, minutes: number, seconds: number];
+
+/** A wall-clock time in an IANA time zone ("Europe/London") as a timestamp; null when the zone is unknown here. */
+export function zonedTime(parts: DateTimeParts, timeZone: string): number | null {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric' });
+  } catch {
+    return null;
+  }
+  // The zone's offset at a moment: its wall clock then, read as if it were UTC, minus the moment
+  const offsetAt = (ms: number) => {
+    const p = Object.fromEntries(format.formatToParts(new Date(ms)).map((part) => [part.type, Number(part.value)]));
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - ms;
+  };
+  const wall = Date.UTC(...parts);
+  // Second pass for times near a clock change, where the offset at the first guess differs
+  const guess = wall - offsetAt(wall);
+  return wall - offsetAt(guess);
+}
+
+/**
+ * DTSTART as a timestamp. "...Z" is UTC; a time with a TZID is read in that zone, or as local time on
+ * this device when the zone is unknown here (reported back so the preview can flag it); a floating time
+ * is local time and a plain date local midnight.
+ */
+function parseIcsDate(value: string, params: string): { start: number; allDay: boolean; unknownTimeZone?: string } | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!m) return null;
+  const [, y, mo, d, h, mi, s, utc] = m;
+  if (h == null || /VALUE=DATE(?!-)/i.test(params)) return { start: new Date(+y, +mo - 1, +d).getTime(), allDay: true };
+  const parts = [+y, +mo - 1, +d, +h, +mi, +(s ?? 0)] as const;
+  if (utc) return { start: Date.UTC(...parts), allDay: false };
+  const timeZone = /(?:^|;)TZID=("?)([^";]+)\1/i.exec(params)?.[2].trim();
+  if (timeZone) {
+    const start = zonedTime(parts, timeZone);
+    if (start != null) return { start, allDay: false };
+    return { start: new Date(...parts).getTime(), allDay: false, unknownTimeZone: timeZone };
+  }
+  return { start: new Date(...parts).getTime(), allDay: false };
+}
+
+/** Read the events of an .ics file. */
+export function parseIcs(text: string): ParsedIcs {
+  // Unfold: a line starting with a space or tab continues the previous one
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  if (!lines.some((l) => l.trim().toUpperCase() === 'BEGIN:VCALENDAR')) return { ok: false, error: 'Not an iCalendar (.ics) file.' };
+
+  const events: IcsEvent[] = [];
+  let event: IcsEvent | null = null;
+  for (const line of lines) {
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    const [name, ...paramList] = line.slice(0, colon).split(';');
+    const key = name.toUpperCase();
+    const value = line.slice(colon + 1);
+    if (key === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      event = { uid: '', summary: '', location: '', category: '', start: null, allDay: false };
+    } else if (key === 'END' && value.toUpperCase() === 'VEVENT') {
+      if (event) events.push(event);
+      event = null;
+    } else if (event) {
+      if (key === 'UID') event.uid = value.trim();
+      else if (key === 'SUMMARY') event.summary = unescapeText(value).trim();
+      else if (key === 'LOCATION') event.location = unescapeText(value).trim();
+      else if (key === 'CATEGORIES' && !event.category) event.category = splitList(value)[0] ?? '';
+      else if (key === 'DTSTART') {
+        const date = parseIcsDate(value, paramList.join(';'));
+        event.start = date?.start ?? null;
+        event.allDay = date?.allDay ?? false;
+        event.unknownTimeZone = date?.unknownTimeZone;
+      }
+    }
+  }
+  if (events.length === 0) return { ok: false, error: 'The file has no events.' };
+  return { ok: true, events };
+}
+
+/** Home and away from an event title: "Home v Away", "Home vs Away", "Home versus Away" or "Home - Away". */
+export function splitFixtureTitle(summary: string): { home: string; away: string } | null {
+  const m = /^(.+?)\s+(?:v|vs\.?|versus|-|–)\s+(.+)$/i.exec(summary.trim());
+  if (!m) return null;
+  return { home: m[1].trim(), away: m[2].trim() };
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+function sameDay(a: number, b: number): boolean {
+  return new Date(a).toDateString() === new Date(b).toDateString();
+}
+
+/**
+ * Preview the events against the teams, competitions and matches already in the app. New fixtures
+ * default to add; a changed fixture that is still not played defaults to update; unchanged or played
+ * ones are skipped. When teams are marked as ours, fixtures involving none of them are skipped too.
+ * An event repeating an earlier one in the file (same UID, or same teams on the same day) is an error.
+ */
+export function buildFixtureImportRows(events: IcsEvent[], teams: Team[], competitions: Competition[], matches: Match[]): FixtureImportRow[] {
+  const ourTeams = teams.filter((t) => t.isOurTeam);
+  const seenUids = new Map<string, number>();
+  const seenFixtures = new Map<string, number>();
+  return events.map((ev, i) => {
+    const title = splitFixtureTitle(ev.summary);
+    const homeName = title?.home ?? '';
+    const awayName = title?.away ?? '';
+    const competition = competitions.find((c) => ev.category && sameName(c.name, ev.category));
+    const base = {
+      line: i + 1,
+      uid: ev.uid,
+      homeName,
+      awayName,
+      homeTeam: teams.find((t) => homeName && sameName(t.name, homeName)),
+      awayTeam: teams.find((t) => awayName && sameName(t.name, awayName)),
+      scheduledAt: ev.start ?? 0,
+      allDay: ev.allDay,
+      venue: ev.location,
+      competition: competition?.name ?? ev.category,
+      competitionId: competition?.id,
+      warning: ev.unknownTimeZone ? `Time zone ${ev.unknownTimeZone} unknown – kick-off read as this device's time` : undefined,
+    };
+    if (ev.start == null) return { ...base, error: 'No date', action: 'skip' as const };
+    if (!title) return { ...base, error: ev.summary ? `No "Home v Away" in "${ev.summary}"` : 'No title', action: 'skip' as const };
+    const fixtureKey = [homeName, awayName].map((n) => n.trim().toLowerCase()).join('\n') + '\n' + new Date(ev.start).toDateString();
+    const sameUid = ev.uid ? seenUids.get(ev.uid) : undefined;
+    const sameFixture = seenFixtures.get(fixtureKey);
+    if (sameUid != null) return { ...base, error: `Same UID as event ${sameUid}`, action: 'skip' as const };
+    if (sameFixture != null) return { ...base, error: `Same fixture as event ${sameFixture}`, action: 'skip' as const };
+    if (ev.uid) seenUids.set(ev.uid, base.line);
+    seenFixtures.set(fixtureKey, base.line);
+
+    const existing =
+      (ev.uid ? matches.find((m) => matchUid(m) === ev.uid) : undefined) ??
+      matches.find((m) => sameName(m.homeTeamName, homeName) && sameName(m.awayTeamName, awayName) && sameDay(m.scheduledAt || m.startedAt || m.createdAt, ev.start!));
+    if (existing) {
+      if (existing.status !== 'not_played') return { ...base, existing, note: existing.status === 'playing' ? 'In play' : 'Already played', action: 'skip' as const };
+      const changed = existing.scheduledAt !== ev.start || existing.venue !== ev.location || existing.competition !== base.competition;
+      return changed ? { ...base, existing, action: 'update' as const } : { ...base, existing, note: 'Already imported', action: 'skip' as const };
+    }
+    const ours = ourTeams.length === 0 || [base.homeTeam, base.awayTeam].some((t) => t?.isOurTeam);
+    return ours ? { ...base, action: 'add' as const } : { ...base, note: 'Not our fixture', action: 'skip' as const };
+  });
+}
+
+/**
+ * Write the previewed rows: new matches are created not_played with the chosen rule set, teams without a
+ * match by name are created (once each), and updated fixtures get the new kick-off, venue and competition.
+ * All or none are written.
+ */
+export async function applyFixtureImport(rows: FixtureImportRow[], ruleSet: RuleSet): Promise<{ added: number; updated: number; teamsCreated: number }> {
+  let added = 0;
+  let updated = 0;
+  const created = new Map<string, Team>();
+  const teamFor = async (found: Team | undefined, name: string): Promise<Team> => {
+    if (found) return found;
+    const key = name.trim().toLowerCase();
+    const existing = created.get(key);
+    if (existing) return existing;
+    const id = await addTeam(name, NEW_TEAM_COLOR);
+    const team: Team = { id, name: name.trim(), color: NEW_TEAM_COLOR, colors: [NEW_TEAM_COLOR], isOurTeam: false, createdAt: Date.now() };
+    created.set(key, team);
+    return team;
+  };
+
+  await db.transaction('rw', db.matches, db.teams, async () => {
+    for (const row of rows) {
+      if (row.error || row.action === 'skip') continue;
+      if (row.action === 'update' && row.existing) {
+        await updateMatch(row.existing.id, {
+          scheduledAt: row.scheduledAt,
+          venue: row.venue,
+          competition: row.competition,
+          competitionId: row.competitionId ?? row.existing.competitionId,
+        });
+        updated++;
+      } else if (row.action === 'add') {
+        const home = await teamFor(row.homeTeam, row.homeName);
+        const away = await teamFor(row.awayTeam, row.awayName);
+        const awayColor = away.color !== home.color ? away.color : (away.colors ?? []).find((c) => c !== home.color) ?? away.color;
+        await saveScheduledMatch({
+          homeTeamId: home.id,
+          awayTeamId: away.id,
+          homeTeamName: home.name,
+          awayTeamName: away.name,
+          homeColor: home.color,
+          awayColor,
+          halfDuration: ruleSet.periodDuration,
+          competition: row.competition,
+          competitionId: row.competitionId,
+          venue: row.venue,
+          referee: '',
+          scheduledAt: row.scheduledAt,
+          config: { playerTracking: true, cardTracking: true, substitutions: false, ruleSet, periods: normalTimePeriods(ruleSet.periodCount, ruleSet.periodDuration) },
+          icalUid: row.uid || undefined,
+        });
+        added++;
+      }
+    }
+  });
+  return { added, updated, teamsCreated: created.size };
+}
@@ -7,7 +7,8 @@
  */
 
 import Dexie, { type Table } from 'dexie';
-import type { Team, Player, Match, Roster, RosterEntry } from './types';
+import type { Team, Player, Match, Roster, RosterEntry, Competition, Season, Tournament } from './types';
+import { upgradeMatchRowToV2, upgradeMatchRowToV3 } from './migrations';
 
 export class RugbyScorerDB extends Dexie {
   teams!: Table<Team, string>;
@@ -15,6 +16,9 @@ export class RugbyScorerDB extends Dexie {
   matches!: Table<Match, string>;
   rosters!: Table<Roster, string>;
   rosterEntries!: Table<RosterEntry, string>;
+  competitions!: Table<Competition, string>;
+  seasons!: Table<Season, string>;
+  tournaments!: Table<Tournament, string>;
 
   constructor() {
     super('RugbyScorerDB');
@@ -30,21 +34,33 @@ export class RugbyScorerDB extends Dexie {
         matches: 'id, status, startedAt, endedAt, scheduledAt, homeTeamId, awayTeamId, createdAt',
       })
       .upgrade((tx) => {
-        return tx
-          .table('matches')
-          .toCollection()
-          .modify((m: Record<string, unknown>) => {
-            const s = m.status as string;
-            if (s === 'draft') m.status = 'not_played';
-            if (s === 'live') m.status = 'playing';
-            if (s === 'finished') m.status = 'completed';
-            if (m.scheduledAt == null && m.startedAt) m.scheduledAt = m.startedAt;
-          });
+        return tx.table('matches').toCollection().modify(upgradeMatchRowToV2);
       });
+    // Logs record kick outcomes explicitly
+    this.version(3)
+      .stores({})
+      .upgrade((tx) => {
+        return tx.table('matches').toCollection().modify(upgradeMatchRowToV3);
+      });
+    // Competitions; matches link to one by competitionId (the free-text competition stays as the label)
+    this.version(4).stores({
+      competitions: 'id, name, createdAt',
+      matches: 'id, status, startedAt, endedAt, scheduledAt, homeTeamId, awayTeamId, competitionId, createdAt',
+    });
+    // Seasons (date ranges; matches are placed in one by date, not linked)
+    this.version(5).stores({
+      seasons: 'id, startDate, createdAt',
+    });
+    // Tournament days; their pool and knockout matches carry tournamentId
+    this.version(6).stores({
+      tournaments: 'id, startAt, createdAt',
+      matches: 'id, status, startedAt, endedAt, scheduledAt, homeTeamId, awayTeamId, competitionId, tournamentId, createdAt',
+    });
   }
 }
 
 export const db = new RugbyScorerDB();
 
-export type { Team, Player, Match, Roster, RosterEntry } from './types';
-export type { LogEvent, MatchStatus } from './types';
+export type { Team, Player, Match, Roster, RosterEntry, Competition, CompetitionPointsRules, Season, Tournament, TournamentPool, TournamentBracket, TournamentStage } from './types';
+export type { LogEvent, MatchStatus, RuleSet, ScoreType, ScoreTypeRule, ExtraTimeRule, ClockRun, MatchPeriod, LiveMatchState, MatchSquadPlayer } from './types';
+export type { MatchEvent, ScoreEvent, CardEvent, SubstitutionEvent, CardReturnEvent, SystemEvent, TackleEvent, CorrectionEvent } from './types';
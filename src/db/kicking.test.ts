@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent } from './types';
+import { formatKickRecord, kickingByPlayer, kickingOverMatches, playerKickingByMatch, rankKickers, UNASSIGNED_KICKER, type KickingStats } from './kicking';
+import { testMatch } from './testFixtures';
+
+const kick = (id: string, playerId: string | undefined, scoreType: string, made: boolean, extra: Partial<LogEvent> = {}): LogEvent => ({
+  id,
+  timestamp: 0,
+  type: made ? 'score' : 'kick-attempt',
+  team: 'home',
+  scoreType,
+  points: made ? 2 : 0,
+  playerId,
+  kickOutcome: made ? 'made' : 'missed',
+  ...extra,
+});
+
+const record = (attempts: number, made: number): KickingStats => ({ total: { attempts, made }, byType: {} });
+
+describe('kickingByPlayer', () => {
+  it('counts kicks per kicker and type, for one team if asked', () => {
+    const log = [
+      kick('c1', 'ana', 'conversion', true),
+      kick('c2', 'ana', 'conversion', false),
+      kick('p1', 'ana', 'penalty', true),
+      kick('p2', undefined, 'penalty', false),
+      kick('p3', 'cal', 'penalty', true, { team: 'away' }),
+      { id: 't1', timestamp: 0, type: 'score', team: 'home', scoreType: 'try', points: 5, playerId: 'ana' } as LogEvent,
+    ];
+    const home = kickingByPlayer(log, 'home');
+    expect(home.ana).toEqual({ total: { attempts: 3, made: 2 }, byType: { conversion: { attempts: 2, made: 1 }, penalty: { attempts: 1, made: 1 } } });
+    expect(home[UNASSIGNED_KICKER].total).toEqual({ attempts: 1, made: 0 });
+    expect(home.cal).toBeUndefined();
+    expect(kickingByPlayer(log).cal.total).toEqual({ attempts: 1, made: 1 });
+  });
+
+  it('leaves out kicks still with the TMO', () => {
+    expect(kickingByPlayer([kick('p1', 'ana', 'penalty', true, { pending: true })])).toEqual({});
+  });
+});
+
+describe('kickingOverMatches', () => {
+  it('adds up completed matches, leaving out unassigned and pending kicks', () => {
+    const matches = [
+      testMatch({ id: 'm1', log: [kick('c1', 'ana', 'conversion', true), kick('c2', undefined, 'conversion', true)] }),
+      testMatch({ id: 'm2', log: [kick('p1', 'ana', 'penalty', false), kick('p2', 'ana', 'penalty', true, { pending: true })] }),
+      testMatch({ id: 'm3', status: 'playing', log: [kick('c3', 'ana', 'conversion', true)] }),
+    ];
+    expect(kickingOverMatches(matches)).toEqual({
+      ana: { total: { attempts: 2, made: 1 }, byType: { conversion: { attempts: 1, made: 1 }, penalty: { attempts: 1, made: 0 } } },
+    });
+  });
+
+  it("lists a player's matches with kicks, most recent first", () => {
+    const matches = [
+      testMatch({ id: 'old', startedAt: 1, log: [kick('c1', 'ana', 'conversion', true)] }),
+      testMatch({ id: 'none', startedAt: 2, log: [kick('c2', 'ben', 'conversion', true)] }),
+      testMatch({ id: 'new', startedAt: 3, log: [kick('c3', 'ana', 'conversion', false)] }),
+    ];
+    expect(playerKickingByMatch(matches, 'ana').map((r) => [r.match.id, r.stats.total.made])).toEqual([
+      ['new', 0],
+      ['old', 1],
+    ]);
+  });
+});
+
+describe('rankKickers', () => {
+  it('orders by success rate, then kicks made', () => {
+    const ranked = rankKickers({ ana: record(4, 3), ben: record(2, 2), cal: record(8, 6), [UNASSIGNED_KICKER]: record(5, 5) });
+    expect(ranked.map((r) => r.playerId)).toEqual(['ben', 'cal', 'ana']);
+  });
+
+  it('leaves out kickers with fewer than the minimum attempts', () => {
+    expect(rankKickers({ ana: record(4, 3), ben: record(2, 2) }, 3).map((r) => r.playerId)).toEqual(['ana']);
+    expect(rankKickers({ ana: record(0, 0) })).toEqual([]);
+  });
+
+  it('formats a record as made/attempts with the rate', () => {
+    expect(formatKickRecord({ attempts: 3, made: 2 })).toBe('2/3 (67%)');
+    expect(formatKickRecord(undefined)).toBe('—');
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Goal-kicking statistics for Rugby Scorer.
+ * Built from saved match logs, where every goal kick is a score event with kickOutcome 'made'
+ * or a kick-attempt with kickOutcome 'missed' (see LogEvent).
+ */
+
+import type { LogEvent, Match } from './types';
+import { RULE_SETS } from './rules';
+
+/** Kicks taken and kicks made. */
+export interface KickRecord {
+  attempts: number;
+  made: number;
+}
+
+/** A kicker's record overall and per kick type (conversion, penalty, drop goal…). */
+export interface KickingStats {
+  total: KickRecord;
+  byType: Record<string, KickRecord>;
+}
+
+/** Goal kick types across all rule sets, in rule set order (columns for kicking tables and exports). */
+export const KICK_TYPE_RULES = [...new Map(RULE_SETS.flatMap((r) => r.scoreTypes).filter((t) => t.isKick).map((t) => [t.type, t])).values()];
+
+/** Key for kicks with no kicker recorded. */
+export const UNASSIGNED_KICKER = '';
+
+function emptyKickingStats(): KickingStats {
+  return { total: { attempts: 0, made: 0 }, byType: {} };
+}
+
+function addKick(stats: KickingStats, type: string, made: boolean): void {
+  const byType = (stats.byType[type] ??= { attempts: 0, made: 0 });
+  byType.attempts += 1;
+  stats.total.attempts += 1;
+  if (made) {
+    byType.made += 1;
+    stats.total.made += 1;
+  }
+}
+
+/** True for a decided goal kick (kicks awaiting a TMO decision don't count yet). */
+export function isGoalKick(ev: LogEvent): boolean {
+  if (!ev.kickOutcome || !ev.scoreType) return false;
+  return ev.type === 'kick-attempt' || (ev.type === 'score' && !ev.pending);
+}
+
+/** Kicking per kicker (player id, or UNASSIGNED_KICKER) in one log, optionally for one team. */
+export function kickingByPlayer(log: LogEvent[], team?: 'home' | 'away'): Record<string, KickingStats> {
+  const result: Record<string, KickingStats> = {};
+  for (const ev of log) {
+    if (!isGoalKick(ev) || (team && ev.team !== team)) continue;
+    addKick((result[ev.playerId ?? UNASSIGNED_KICKER] ??= emptyKickingStats()), ev.scoreType!, ev.kickOutcome === 'made');
+  }
+  return result;
+}
+
+/** Kicking per kicker over completed matches (e.g. one season). Kicks with no kicker are left out. */
+export function kickingOverMatches(matches: Match[]): Record<string, KickingStats> {
+  const result: Record<string, KickingStats> = {};
+  for (const match of matches) {
+    if (match.status !== 'completed') continue;
+    for (const ev of match.log) {
+      if (!isGoalKick(ev) || !ev.playerId) continue;
+      addKick((result[ev.playerId] ??= emptyKickingStats()), ev.scoreType!, ev.kickOutcome === 'made');
+    }
+  }
+  return result;
+}
+
+/** One player's kicking in each completed match where they took a kick, most recent first. */
+export function playerKickingByMatch(matches: Match[], playerId: string): Array<{ match: Match; stats: KickingStats }> {
+  return matches
+    .filter((m) => m.status === 'completed')
+    .map((match) => ({ match, stats: kickingByPlayer(match.log)[playerId] }))
+    .filter((row): row is { match: Match; stats: KickingStats } => row.stats != null)
+    .sort((a, b) => (b.match.startedAt || b.match.scheduledAt || 0) - (a.match.startedAt || a.match.scheduledAt || 0));
+}
+
+/** Success rate in percent, or null with no attempts. */
+export function kickPercentage(record: KickRecord): number | null {
+  return record.attempts > 0 ? Math.round((record.made / record.attempts) * 100) : null;
+}
+
+/** "made/attempts (pct%)", or "—" with no attempts. */
+export function formatKickRecord(record: KickRecord | undefined): string {
+  if (!record || record.attempts === 0) return '—';
+  return `${record.made}/${record.attempts} (${kickPercentage(record)}%)`;
+}
+
+/**
+ * Kickers ordered best first: success rate, then kicks made. Kickers with fewer than
+ * `minAttempts` kicks are left out so one lucky kick doesn't top the list.
+ */
+export function rankKickers(stats: Record<string, KickingStats>, minAttempts = 1): Array<{ playerId: string; stats: KickingStats }> {
+  return Object.entries(stats)
+    .filter(([playerId, s]) => playerId !== UNASSIGNED_KICKER && s.total.attempts >= minAttempts)
+    .map(([playerId, s]) => ({ playerId, stats: s }))
+    .sort((a, b) =>
+      b.stats.total.made / b.stats.total.attempts - a.stats.total.made / a.stats.total.attempts ||
+      b.stats.total.made - a.stats.total.made
+    );
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent } from './types';
+import { bracketRounds, bracketSize, knockoutRoundName, knockoutShortName, knockoutWinner, seedOrder } from './knockout';
+
+describe('bracket shape', () => {
+  it('rounds the teams up to a power of two', () => {
+    expect([1, 2, 3, 4, 5, 8, 9].map(bracketSize)).toEqual([2, 2, 4, 4, 8, 8, 16]);
+    expect([2, 4, 8, 16].map(bracketRounds)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps the top seeds apart until the final', () => {
+    expect(seedOrder(2)).toEqual([1, 2]);
+    expect(seedOrder(4)).toEqual([1, 4, 2, 3]);
+    expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    const order = seedOrder(16);
+    expect([...order].sort((a, b) => a - b)).toEqual(Array.from({ length: 16 }, (_, i) => i + 1));
+    expect(order.indexOf(1) < 8).not.toBe(order.indexOf(2) < 8);
+  });
+
+  it('gives byes to the top seeds', () => {
+    // Six teams in a bracket of eight: seeds 7 and 8 are byes, paired with 1 and 2
+    const order = seedOrder(8);
+    const pairs = [0, 1, 2, 3].map((i) => [order[2 * i], order[2 * i + 1]]);
+    expect(pairs.filter(([, b]) => b > 6).map(([a]) => a)).toEqual([1, 2]);
+  });
+
+  it('names the rounds from the final back', () => {
+    expect([0, 1, 2, 3].map((r) => knockoutRoundName(r, 4))).toEqual(['Round of 16', 'Quarter-final', 'Semi-final', 'Final']);
+    expect(knockoutShortName(2, 4, 1)).toBe('SF2');
+    expect(knockoutShortName(3, 4, 0)).toBe('F');
+    expect(knockoutShortName(0, 4, 4)).toBe('R16-5');
+  });
+});
+
+describe('knockoutWinner', () => {
+  const tryBy = (team: 'home' | 'away', id: string): LogEvent => ({ id, timestamp: 0, type: 'score', team, scoreType: 'try', points: 5 });
+  const config = { playerTracking: true, cardTracking: true, substitutions: false };
+
+  it('goes on the score, then on tries', () => {
+    expect(knockoutWinner({ homeScore: 12, awayScore: 10, log: [], config })).toBe('home');
+    expect(knockoutWinner({ homeScore: 10, awayScore: 10, log: [tryBy('home', 'a'), tryBy('away', 'b'), tryBy('away', 'c')], config })).toBe('away');
+  });
+
+  it('leaves a match level on score and tries undecided', () => {
+    expect(knockoutWinner({ homeScore: 5, awayScore: 5, log: [tryBy('home', 'a'), tryBy('away', 'b')], config })).toBeNull();
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * Knockout brackets for Rugby Scorer tournaments.
+ * Round 0 is the first round; slot s of a round feeds slot s/2 of the next. When a knockout match
+ * ends, its winner is written into the next round's match (see advanceKnockout).
+ */
+
+import { db } from './index';
+import type { Match, TournamentStage } from './types';
+import { matchTries } from './competitions';
+
+type KnockoutStage = Extract<TournamentStage, { kind: 'knockout' }>;
+
+/** Smallest bracket (power of two, at least 2) that holds `teams` teams; the rest are byes. */
+export function bracketSize(teams: number): number {
+  let size = 2;
+  while (size < teams) size *= 2;
+  return size;
+}
+
+/** Number of rounds in a bracket of the given size (4 → semi-finals and final = 2). */
+export function bracketRounds(size: number): number {
+  return Math.log2(size);
+}
+
+/**
+ * Seeds in first-round order for a bracket of the given size, read in pairs: 8 → 1 v 8, 4 v 5, 2 v 7, 3 v 6.
+ * The top two seeds can only meet in the final, and byes (seeds past the number of teams) go to the top seeds.
+ */
+export function seedOrder(size: number): number[] {
+  let order = [1, 2];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((seed) => [seed, n + 1 - seed]);
+  }
+  return order;
+}
+
+/** "Final", "Semi-final", "Quarter-final", else "Round of N". */
+export function knockoutRoundName(round: number, rounds: number): string {
+  const remaining = rounds - round;
+  if (remaining === 1) return 'Final';
+  if (remaining === 2) return 'Semi-final';
+  if (remaining === 3) return 'Quarter-final';
+  return `Round of ${2 ** remaining}`;
+}
+
+/** Short form for placeholders, e.g. "SF2". */
+export function knockoutShortName(round: number, rounds: number, slot: number): string {
+  const remaining = rounds - round;
+  const short = remaining === 1 ? 'F' : remaining === 2 ? 'SF' : remaining === 3 ? 'QF' : `R${2 ** remaining}-`;
+  return remaining === 1 ? short : `${short}${slot + 1}`;
+}
+
+/** Winner of a completed match on the score, then on tries; null when still level. */
+export function knockoutWinner(match: Pick<Match, 'homeScore' | 'awayScore' | 'log' | 'config'>): 'home' | 'away' | null {
+  if (match.homeScore !== match.awayScore) return match.homeScore > match.awayScore ? 'home' : 'away';
+  const tries = matchTries(match);
+  if (tries.home !== tries.away) return tries.home > tries.away ? 'home' : 'away';
+  return null;
+}
+
+function isKnockout(stage: TournamentStage | undefined): stage is KnockoutStage {
+  return stage?.kind === 'knockout';
+}
+
+/**
+ * Put the winner of a completed knockout match into the next round's match (home from an even
+ * slot, away from an odd one). Uses the hand-picked winner for a level match. Does nothing for
+ * other matches, a final, or when the next match has already been played.
+ */
+export async function advanceKnockout(match: Match): Promise<void> {
+  const stage = match.tournamentStage;
+  if (!match.tournamentId || !isKnockout(stage) || match.status !== 'completed') return;
+  const side = stage.winner ?? knockoutWinner(match);
+  if (!side) return;
+  const matches = await db.matches.where('tournamentId').equals(match.tournamentId).toArray();
+  const next = matches.find((m) => isKnockout(m.tournamentStage) && m.tournamentStage.bracket === stage.bracket && m.tournamentStage.round === stage.round + 1 && m.tournamentStage.slot === Math.floor(stage.slot / 2));
+  if (!next || next.status !== 'not_played') return;
+  const winner = side === 'home'
+    ? { id: match.homeTeamId, name: match.homeTeamName, color: match.homeColor }
+    : { id: match.awayTeamId, name: match.awayTeamName, color: match.awayColor };
+  const updated: Match = stage.slot % 2 === 0
+    ? { ...next, homeTeamId: winner.id, homeTeamName: winner.name, homeColor: winner.color, updatedAt: Date.now() }
+    : { ...next, awayTeamId: winner.id, awayTeamName: winner.name, awayColor: winner.color, updatedAt: Date.now() };
+  await db.matches.put(updated);
+}
+
+/** Pick the winner of a knockout match that ended level, and advance them. */
+export async function setKnockoutWinner(matchId: string, side: 'home' | 'away'): Promise<void> {
+  const match = await db.matches.get(matchId);
+  if (!match || !isKnockout(match.tournamentStage)) return;
+  const updated: Match = { ...match, tournamentStage: { ...match.tournamentStage, winner: side }, updatedAt: Date.now() };
+  await db.matches.put(updated);
+  await advanceKnockout(updated);
+}
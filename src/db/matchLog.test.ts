@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent } from './types';
+import { UNION_RULES } from './rules';
+import { logPlayerIds, periodEndScores, placeLogEvent, scoreFromLog, scorersByHeading, tallyPlayerStats, withKickOutcomes } from './matchLog';
+
+const score = (id: string, timestamp: number, team: 'home' | 'away', scoreType: string, points: number, playerId?: string, extra: Partial<LogEvent> = {}): LogEvent => ({
+  id,
+  timestamp,
+  type: 'score',
+  team,
+  scoreType,
+  points,
+  playerId,
+  ...extra,
+});
+
+const log: LogEvent[] = [
+  { id: 'start', timestamp: 0, type: 'match-start', half: 1, matchTime: 0 },
+  score('t1', 100, 'home', 'try', 5, 'ana', { half: 1, matchTime: 300 }),
+  score('c1', 200, 'home', 'conversion', 2, 'ben', { half: 1, matchTime: 360 }),
+  score('pt', 300, 'away', 'penalty-try', 7, undefined, { half: 1, matchTime: 900 }),
+  { id: 'ht', timestamp: 400, type: 'half-time', half: 1, matchTime: 2400 },
+  score('t2', 500, 'home', 'try', 5, 'ana', { half: 2, matchTime: 2700, pending: true }),
+  { id: 'yc', timestamp: 600, type: 'card', team: 'away', cardType: 'yellow', playerId: 'cal', half: 2, matchTime: 3000 },
+  { id: 'sub', timestamp: 700, type: 'substitution', team: 'home', offPlayerId: 'ben', onPlayerId: 'dan', half: 2, matchTime: 3300 },
+];
+
+describe('scoreFromLog', () => {
+  it('counts scores but not pending TMO decisions', () => {
+    expect(scoreFromLog(log)).toEqual({ homeScore: 7, awayScore: 7 });
+  });
+
+  it('gives the score at each half-time', () => {
+    expect(periodEndScores(log)).toEqual([{ half: 1, homeScore: 7, awayScore: 7 }]);
+  });
+});
+
+describe('tallyPlayerStats', () => {
+  it('totals tries, points and cards per player', () => {
+    expect(tallyPlayerStats(log, UNION_RULES)).toEqual({
+      ana: { tries: 1, points: 5, yellowCards: 0, redCards: 0 },
+      ben: { tries: 0, points: 2, yellowCards: 0, redCards: 0 },
+      cal: { tries: 0, points: 0, yellowCards: 1, redCards: 0 },
+    });
+  });
+
+  it('lists every player named, substitutes included', () => {
+    expect(logPlayerIds(log).sort()).toEqual(['ana', 'ben', 'cal', 'dan']);
+  });
+});
+
+describe('scorersByHeading', () => {
+  it("groups a team's counted scores by heading with each scorer's minutes", () => {
+    const more = [...log, score('t3', 800, 'home', 'try', 5, 'ana', { half: 2, matchTime: 3500 }), score('t4', 900, 'away', 'try', 5, 'cal', { half: 2, matchTime: 3600 })];
+    expect(scorersByHeading(more, UNION_RULES, 'home')).toEqual([
+      { heading: 'Tries', scorers: [{ playerId: 'ana', teamOnly: false, minutes: [5, 58] }] },
+      { heading: 'Conversions', scorers: [{ playerId: 'ben', teamOnly: false, minutes: [6] }] },
+    ]);
+    expect(scorersByHeading(more, UNION_RULES, 'away')).toEqual([
+      {
+        heading: 'Tries',
+        scorers: [
+          { playerId: undefined, teamOnly: true, minutes: [15] },
+          { playerId: 'cal', teamOnly: false, minutes: [60] },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('placeLogEvent', () => {
+  it('fits an added event between its neighbours by period and match time', () => {
+    const placed = placeLogEvent(log, score('pen', 0, 'away', 'penalty', 3, 'cal', { half: 1, matchTime: 600 }));
+    expect(placed.map((e) => e.id)).toEqual(['start', 't1', 'c1', 'pen', 'pt', 'ht', 't2', 'yc', 'sub']);
+    expect(placed.find((e) => e.id === 'pen')?.timestamp).toBe(250);
+  });
+
+  it('moves a re-timed event and keeps it once', () => {
+    const placed = placeLogEvent(log, { ...log[1], half: 2, matchTime: 3600 });
+    expect(placed.map((e) => e.id)).toEqual(['start', 'c1', 'pt', 'ht', 't2', 'yc', 'sub', 't1']);
+    expect(placed.at(-1)?.timestamp).toBe(1700);
+  });
+});
+
+describe('withKickOutcomes', () => {
+  it('marks goal kicks in an older log as made, or missed when they scored nothing', () => {
+    const old = [score('t1', 0, 'home', 'try', 5), score('c1', 1, 'home', 'conversion', 2), score('c2', 2, 'home', 'conversion', 0, undefined, { pending: false })];
+    expect(withKickOutcomes(old, UNION_RULES).map((e) => [e.id, e.type, e.kickOutcome])).toEqual([
+      ['t1', 'score', undefined],
+      ['c1', 'score', 'made'],
+      ['c2', 'kick-attempt', 'missed'],
+    ]);
+  });
+});
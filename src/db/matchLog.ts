@@ -0,0 +1,159 @@
+/**
+ * Saved match log helpers for Rugby Scorer.
+ * Final score and per-player totals are derived from a completed match's log, so an edited
+ * log can be re-scored and its player stats corrected.
+ */
+
+import type { LogEvent, MatchPeriod, RuleSet } from './types';
+import { countsAsTry, getScoreLabel, getScoreTypeRule } from './rules';
+import { getPeriodLabel } from './periods';
+
+/** One player's tries, points and cards in a single match. */
+export interface PlayerMatchStats {
+  tries: number;
+  points: number;
+  yellowCards: number;
+  redCards: number;
+}
+
+/** Final score from a log: counted scores only (pending TMO decisions excluded). */
+export function scoreFromLog(log: LogEvent[]): { homeScore: number; awayScore: number } {
+  let homeScore = 0;
+  let awayScore = 0;
+  for (const ev of log) {
+    if (ev.type !== 'score' || ev.pending || ev.points == null) continue;
+    if (ev.team === 'home') homeScore += ev.points;
+    else if (ev.team === 'away') awayScore += ev.points;
+  }
+  return { homeScore, awayScore };
+}
+
+/** Score at the end of each period (at each half-time event), e.g. the half-time score. */
+export function periodEndScores(log: LogEvent[]): Array<{ half: number; homeScore: number; awayScore: number }> {
+  const sorted = [...log].sort((a, b) => a.timestamp - b.timestamp);
+  return sorted
+    .map((ev, i) => ({ ev, i }))
+    .filter(({ ev }) => ev.type === 'half-time')
+    .map(({ ev, i }) => ({ half: ev.half ?? 1, ...scoreFromLog(sorted.slice(0, i)) }));
+}
+
+/** Tries, points and cards per player id in a log. Tries are the score types the rule set counts as tries. */
+export function tallyPlayerStats(log: LogEvent[], ruleSet: RuleSet): Record<string, PlayerMatchStats> {
+  const stats: Record<string, PlayerMatchStats> = {};
+  const entry = (id: string) => (stats[id] ??= { tries: 0, points: 0, yellowCards: 0, redCards: 0 });
+  for (const ev of log) {
+    if (ev.type === 'score' && ev.playerId && ev.points != null && !ev.pending) {
+      const s = entry(ev.playerId);
+      s.points += ev.points;
+      if (countsAsTry(ruleSet, ev.scoreType)) s.tries += 1;
+    }
+    if (ev.type === 'card' && ev.playerId) {
+      const s = entry(ev.playerId);
+      if (ev.cardType === 'yellow') s.yellowCards += 1;
+      if (ev.cardType === 'red') s.redCards += 1;
+    }
+  }
+  return stats;
+}
+
+/** One scorer under a summary heading and the minute of each of their scores. */
+export interface HeadingScorer {
+  /** Absent when no scorer was recorded, or for team-only scores. */
+  playerId?: string;
+  /** Team-only score such as a penalty try. */
+  teamOnly: boolean;
+  minutes: number[];
+}
+
+/**
+ * One team's scorers grouped by summary heading (e.g. Tries = try + penalty try), in rule set order.
+ * Only counted scores with points; headings without scores are left out.
+ */
+export function scorersByHeading(log: LogEvent[], ruleSet: RuleSet, team: 'home' | 'away'): Array<{ heading: string; scorers: HeadingScorer[] }> {
+  const sorted = [...log].sort((a, b) => a.timestamp - b.timestamp);
+  const headings = [...new Set(ruleSet.scoreTypes.map((t) => t.summaryLabel))];
+  return headings.flatMap((heading) => {
+    const scorers = new Map<string, HeadingScorer>();
+    for (const ev of sorted) {
+      if (ev.type !== 'score' || ev.pending || ev.team !== team || (ev.points ?? 0) <= 0) continue;
+      const rule = getScoreTypeRule(ruleSet, ev.scoreType);
+      if (rule?.summaryLabel !== heading) continue;
+      const teamOnly = !!rule.teamOnly;
+      const playerId = teamOnly ? undefined : ev.playerId;
+      const key = teamOnly ? 'team' : `player:${playerId ?? ''}`;
+      const scorer = scorers.get(key) ?? { playerId, teamOnly, minutes: [] };
+      scorer.minutes.push(Math.floor((ev.matchTime ?? 0) / 60));
+      scorers.set(key, scorer);
+    }
+    return scorers.size ? [{ heading, scorers: [...scorers.values()] }] : [];
+  });
+}
+
+/** What happened, for log tables and exports, e.g. "Try +5", "Conversion missed", "End of 1st Half". */
+export function describeLogEvent(ev: LogEvent, ruleSet: RuleSet, periods: MatchPeriod[]): string {
+  switch (ev.type) {
+    case 'match-start':
+      return 'Game started';
+    case 'half-time':
+      return `End of ${getPeriodLabel(periods, ev.half ?? 1)}`;
+    case 'match-end':
+      return 'Match closed';
+    case 'kick-attempt':
+      return `${getScoreLabel(ruleSet, ev.scoreType)} missed`;
+    case 'score':
+      return `${getScoreLabel(ruleSet, ev.scoreType)}${ev.points != null ? ` +${ev.points}` : ''}${ev.pending ? ' (TMO)' : ''}`;
+    case 'card':
+      return ev.cardType === 'red' ? 'Red card' : 'Yellow card';
+    case 'card-return':
+      return 'Back from sin bin';
+    case 'substitution':
+      return 'Substitution';
+  }
+}
+
+/** Every player id named in a log (scorers, carded players, substitutes). */
+export function logPlayerIds(log: LogEvent[]): string[] {
+  const ids = new Set<string>();
+  for (const ev of log) {
+    if (ev.playerId) ids.add(ev.playerId);
+    if (ev.offPlayerId) ids.add(ev.offPlayerId);
+    if (ev.onPlayerId) ids.add(ev.onPlayerId);
+  }
+  return [...ids];
+}
+
+// Period then match time; events without a time sort to the start of their period
+function logOrder(ev: LogEvent): [number, number] {
+  return [ev.half ?? 1, ev.matchTime ?? 0];
+}
+
+/**
+ * Put an added or re-timed event into the log. The log is ordered by timestamp, so the event gets a
+ * timestamp between its neighbours by period and match time (after any events at the same time).
+ */
+export function placeLogEvent(log: LogEvent[], event: LogEvent): LogEvent[] {
+  const others = log.filter((e) => e.id !== event.id).sort((a, b) => a.timestamp - b.timestamp);
+  const [half, time] = logOrder(event);
+  const nextIndex = others.findIndex((e) => {
+    const [h, t] = logOrder(e);
+    return h > half || (h === half && t > time);
+  });
+  const prev = nextIndex === -1 ? others[others.length - 1] : others[nextIndex - 1];
+  const next = nextIndex === -1 ? undefined : others[nextIndex];
+  let timestamp: number;
+  if (prev && next) timestamp = prev.timestamp + (next.timestamp - prev.timestamp) / 2;
+  else if (prev) timestamp = prev.timestamp + 1000;
+  else if (next) timestamp = next.timestamp - 1000;
+  else timestamp = event.timestamp;
+  return [...others, { ...event, timestamp }].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/** Mark goal kicks in a log saved before kick outcomes were recorded: 0-point kicks become kick-attempt misses. */
+export function withKickOutcomes(log: LogEvent[], ruleSet: RuleSet): LogEvent[] {
+  return log.map((ev) => {
+    if (ev.type !== 'score' || ev.kickOutcome || !getScoreTypeRule(ruleSet, ev.scoreType)?.isKick) return ev;
+    return (ev.points ?? 0) === 0
+      ? { ...ev, type: 'kick-attempt', points: 0, pending: undefined, kickOutcome: 'missed' }
+      : { ...ev, kickOutcome: 'made' };
+  });
+}
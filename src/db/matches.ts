@@ -1,13 +1,22 @@
 /**
  * Matches CRUD and match lifecycle for Rugby Scorer.
- * Create match on Start, update on End, update player stats from log.
+ * Create match on Start, autosave while playing, update on End, refresh player stats from match history.
+ * A completed match's log can be edited afterwards (score and player stats follow).
  */
 
 import { db } from './index';
-import type { Match, LogEvent, MatchStatus } from './types';
-import { getPlayer, updatePlayer } from './players';
+import type { Match, LogEvent, MatchStatus, RuleSet, MatchPeriod, LiveMatchState, MatchEvent, MatchSquadPlayer, TournamentStage } from './types';
+import { getRuleSet } from './rules';
+import { eventsToLog } from './events';
+import { scoreFromLog } from './matchLog';
+import { matchParticipants, refreshPlayerStats } from './stats';
+import { matchDate } from './seasons';
+import { advanceKnockout } from './knockout';
 
 export interface MatchSnapshot {
+  /** Saved teams, when picked in setup; else the 'home' / 'away' placeholders are stored. */
+  homeTeamId?: string;
+  awayTeamId?: string;
   homeTeamName: string;
   awayTeamName: string;
   homeColor: string;
@@ -16,112 +25,26 @@ export interface MatchSnapshot {
   awayScore: number;
   halfDuration: number;
   competition: string;
+  competitionId?: string;
   venue: string;
   referee: string;
   currentHalf: number;
   elapsedSeconds: number;
   injuryTime: number;
-  config: { playerTracking: boolean; cardTracking: boolean; substitutions: boolean };
-  scoreEvents: Array<{
-    id: string;
-    timestamp: number;
-    team: 'home' | 'away';
-    type: string;
-    points: number;
-    player?: string;
-    half: number;
-    minute: number;
-    matchTime: number;
-    pending?: boolean;
-  }>;
-  cards: Array<{
-    id: string;
-    timestamp: number;
-    team: 'home' | 'away';
-    player: string;
-    type: 'yellow' | 'red';
-    half: number;
-    minute: number;
-    matchTime: number;
-    returnTime?: number;
-    returned?: boolean;
-  }>;
-  substitutionEvents: Array<{
-    id: string;
-    timestamp: number;
-    team: 'home' | 'away';
-    offPlayerId: string;
-    onPlayerId: string;
-    half: number;
-    minute: number;
-    matchTime: number;
-  }>;
-  systemEvents: Array<{
-    id: string;
-    timestamp: number;
-    type: 'match-start' | 'half-time' | 'match-end';
-    half: number;
-    matchTime: number;
-  }>;
-  playerIds: string[];
+  config: Match['config'];
+  /** Live event stream; the saved log is its settled form (see db/events.ts). */
+  events: MatchEvent[];
+  /** Matchday squads (both teams). */
+  squad: MatchSquadPlayer[];
 }
 
 function buildLogFromSnapshot(snap: MatchSnapshot): LogEvent[] {
-  const log: LogEvent[] = [];
-  const push = (ev: LogEvent) => log.push(ev);
-
-  for (const e of snap.scoreEvents) {
-    push({
-      id: e.id,
-      timestamp: e.timestamp,
-      type: 'score',
-      team: e.team,
-      scoreType: e.type,
-      points: e.points,
-      playerId: e.player,
-      pending: e.pending,
-      half: e.half,
-      matchTime: e.matchTime,
-    });
-  }
-  for (const c of snap.cards) {
-    push({
-      id: c.id,
-      timestamp: c.timestamp,
-      type: 'card',
-      team: c.team,
-      cardType: c.type,
-      playerId: c.player,
-      returned: c.returned,
-      returnTime: c.returnTime,
-      half: c.half,
-      matchTime: c.matchTime,
-    });
-  }
-  for (const s of snap.substitutionEvents) {
-    push({
-      id: s.id,
-      timestamp: s.timestamp,
-      type: 'substitution',
-      team: s.team,
-      offPlayerId: s.offPlayerId,
-      onPlayerId: s.onPlayerId,
-      half: s.half,
-      matchTime: s.matchTime,
-    });
-  }
-  for (const e of snap.systemEvents) {
-    push({
-      id: e.id,
-      timestamp: e.timestamp,
-      type: e.type,
-      half: e.half,
-      matchTime: e.matchTime,
-    });
-  }
+  return eventsToLog(snap.events, getRuleSet(snap.config));
+}
 
-  log.sort((a, b) => a.timestamp - b.timestamp);
-  return log;
+// Kick-off time: the match-start event, else now
+function snapshotStartedAt(snap: MatchSnapshot, now: number): number {
+  return snap.events.find((e) => e.kind === 'system' && e.type === 'match-start')?.timestamp ?? now;
 }
 
 export async function createMatch(snap: MatchSnapshot, status: MatchStatus = 'playing'): Promise<string> {
@@ -130,8 +53,8 @@ export async function createMatch(snap: MatchSnapshot, status: MatchStatus = 'pl
   const log = buildLogFromSnapshot(snap);
   const match: Match = {
     id,
-    homeTeamId: 'home',
-    awayTeamId: 'away',
+    homeTeamId: snap.homeTeamId || 'home',
+    awayTeamId: snap.awayTeamId || 'away',
     homeTeamName: snap.homeTeamName,
     awayTeamName: snap.awayTeamName,
     homeColor: snap.homeColor,
@@ -140,6 +63,7 @@ export async function createMatch(snap: MatchSnapshot, status: MatchStatus = 'pl
     awayScore: snap.awayScore,
     halfDuration: snap.halfDuration,
     competition: snap.competition ?? '',
+    competitionId: snap.competitionId,
     venue: snap.venue ?? '',
     referee: snap.referee ?? '',
     currentHalf: snap.currentHalf,
@@ -174,12 +98,18 @@ export async function saveScheduledMatch(params: {
   awayColor: string;
   halfDuration: number;
   competition: string;
+  competitionId?: string;
   venue: string;
   referee: string;
   scheduledAt: number;
   rosterId?: string;
   awayRosterId?: string;
-  config: { playerTracking: boolean; cardTracking: boolean; substitutions: boolean };
+  config: Match['config'];
+  /** Set when a tournament draws the match; kept as is when the match is edited later. */
+  tournamentId?: string;
+  tournamentStage?: TournamentStage;
+  /** Set when the match is imported from a calendar file. */
+  icalUid?: string;
 }): Promise<string> {
   const now = Date.now();
   const homeId = params.homeTeamId ?? 'home';
@@ -197,6 +127,7 @@ export async function saveScheduledMatch(params: {
         awayColor: params.awayColor,
         halfDuration: params.halfDuration,
         competition: params.competition ?? '',
+        competitionId: params.competitionId,
         venue: params.venue ?? '',
         referee: params.referee ?? '',
         scheduledAt: params.scheduledAt,
@@ -222,11 +153,15 @@ export async function saveScheduledMatch(params: {
     awayScore: 0,
     halfDuration: params.halfDuration,
     competition: params.competition ?? '',
+    competitionId: params.competitionId,
     venue: params.venue ?? '',
     referee: params.referee ?? '',
     scheduledAt: params.scheduledAt,
     rosterId: params.rosterId,
     awayRosterId: params.awayRosterId,
+    tournamentId: params.tournamentId,
+    tournamentStage: params.tournamentStage,
+    icalUid: params.icalUid,
     currentHalf: 1,
     elapsedSeconds: 0,
     injuryTime: 0,
@@ -258,11 +193,20 @@ export async function updateMatch(
 export async function listMatches(options?: {
   status?: MatchStatus;
   limit?: number;
+  /** Only matches dated (see matchDate) from this timestamp on, e.g. seasonBounds(season).from. */
+  from?: number;
+  /** Only matches dated up to this timestamp. */
+  to?: number;
 }): Promise<Match[]> {
   let matches = await db.matches.toArray();
   if (options?.status) {
     matches = matches.filter((m) => m.status === options.status);
   }
+  if (options?.from != null || options?.to != null) {
+    const from = options.from ?? -Infinity;
+    const to = options.to ?? Infinity;
+    matches = matches.filter((m) => matchDate(m) >= from && matchDate(m) <= to);
+  }
   matches.sort((a, b) => {
     const aTime = a.scheduledAt ?? a.updatedAt ?? a.createdAt;
     const bTime = b.scheduledAt ?? b.updatedAt ?? b.createdAt;
@@ -271,11 +215,14 @@ export async function listMatches(options?: {
   return options?.limit ? matches.slice(0, options.limit) : matches;
 }
 
-/** Save finished match (full snapshot + log) and update player stats. If matchId given, updates that match; else creates new. */
+/**
+ * Save finished match (full snapshot + log) and refresh its players' stats. If matchId given, updates that match; else creates new.
+ * A tournament knockout match sends its winner on to the next round.
+ */
 export async function saveFinishedMatch(snap: MatchSnapshot, existingMatchId?: string): Promise<string> {
   const log = buildLogFromSnapshot(snap);
   const now = Date.now();
-  const startedAt = snap.systemEvents[0]?.timestamp ?? now;
+  const startedAt = snapshotStartedAt(snap, now);
   if (existingMatchId) {
     const existing = await db.matches.get(existingMatchId);
     if (existing) {
@@ -295,18 +242,23 @@ export async function saveFinishedMatch(snap: MatchSnapshot, existingMatchId?: s
         status: 'completed',
         config: snap.config,
         log,
+        playerIds: snap.squad.map((p) => p.id),
+        squad: snap.squad,
+        live: undefined,
         updatedAt: now,
       };
       await db.matches.put(updated);
-      await updatePlayerStatsFromLog(log, snap.playerIds);
+      // Players from a previous save of this match too, in case the squad changed
+      await refreshPlayerStats([...matchParticipants(existing), ...matchParticipants(updated)]);
+      await advanceKnockout(updated);
       return existingMatchId;
     }
   }
   const id = crypto.randomUUID();
   const match: Match = {
     id,
-    homeTeamId: 'home',
-    awayTeamId: 'away',
+    homeTeamId: snap.homeTeamId || 'home',
+    awayTeamId: snap.awayTeamId || 'away',
     homeTeamName: snap.homeTeamName,
     awayTeamName: snap.awayTeamName,
     homeColor: snap.homeColor,
@@ -315,6 +267,7 @@ export async function saveFinishedMatch(snap: MatchSnapshot, existingMatchId?: s
     awayScore: snap.awayScore,
     halfDuration: snap.halfDuration,
     competition: snap.competition ?? '',
+    competitionId: snap.competitionId,
     venue: snap.venue ?? '',
     referee: snap.referee ?? '',
     currentHalf: snap.currentHalf,
@@ -325,63 +278,146 @@ export async function saveFinishedMatch(snap: MatchSnapshot, existingMatchId?: s
     status: 'completed',
     config: snap.config,
     log,
+    playerIds: snap.squad.map((p) => p.id),
+    squad: snap.squad,
     createdAt: now,
     updatedAt: now,
   };
   await db.matches.add(match);
-  await updatePlayerStatsFromLog(log, snap.playerIds);
+  await refreshPlayerStats(matchParticipants(match));
   return id;
 }
 
-/** Increment gamesPlayed for all participants; add tries/points/cards from log. */
-async function updatePlayerStatsFromLog(log: LogEvent[], playerIds: string[]): Promise<void> {
-  const triesDelta: Record<string, number> = {};
-  const pointsDelta: Record<string, number> = {};
-  const yellowDelta: Record<string, number> = {};
-  const redDelta: Record<string, number> = {};
-  playerIds.forEach((id) => {
-    triesDelta[id] = 0;
-    pointsDelta[id] = 0;
-    yellowDelta[id] = 0;
-    redDelta[id] = 0;
+/**
+ * Autosave the live match: writes the snapshot, log and live state to a 'playing' row.
+ * Updates `matchId` when given (a scheduled match being played, or an earlier autosave); otherwise creates the row.
+ * A row that has already been completed is left alone. Returns the row id.
+ */
+export async function saveLiveMatch(snap: MatchSnapshot, live: LiveMatchState, matchId?: string): Promise<string> {
+  const log = buildLogFromSnapshot(snap);
+  const now = Date.now();
+  const startedAt = snapshotStartedAt(snap, now);
+  // get + put in one transaction so an autosave can't overwrite a match completed in between
+  return db.transaction('rw', db.matches, async () => {
+    const existing = matchId ? await db.matches.get(matchId) : undefined;
+    if (existing) {
+      if (existing.status === 'completed') return existing.id;
+      await db.matches.put({
+        ...existing,
+        homeTeamName: snap.homeTeamName,
+        awayTeamName: snap.awayTeamName,
+        homeColor: snap.homeColor,
+        awayColor: snap.awayColor,
+        homeScore: snap.homeScore,
+        awayScore: snap.awayScore,
+        halfDuration: snap.halfDuration,
+        competition: snap.competition ?? '',
+        competitionId: snap.competitionId,
+        venue: snap.venue ?? '',
+        referee: snap.referee ?? '',
+        currentHalf: snap.currentHalf,
+        elapsedSeconds: snap.elapsedSeconds,
+        injuryTime: snap.injuryTime ?? 0,
+        startedAt,
+        status: 'playing',
+        config: snap.config,
+        log,
+        live,
+        updatedAt: now,
+      });
+      return existing.id;
+    }
+    const id = matchId ?? crypto.randomUUID();
+    await db.matches.add({
+      id,
+      homeTeamId: snap.homeTeamId || 'home',
+      awayTeamId: snap.awayTeamId || 'away',
+      homeTeamName: snap.homeTeamName,
+      awayTeamName: snap.awayTeamName,
+      homeColor: snap.homeColor,
+      awayColor: snap.awayColor,
+      homeScore: snap.homeScore,
+      awayScore: snap.awayScore,
+      halfDuration: snap.halfDuration,
+      competition: snap.competition ?? '',
+      competitionId: snap.competitionId,
+      venue: snap.venue ?? '',
+      referee: snap.referee ?? '',
+      currentHalf: snap.currentHalf,
+      elapsedSeconds: snap.elapsedSeconds,
+      injuryTime: snap.injuryTime ?? 0,
+      startedAt,
+      status: 'playing',
+      config: snap.config,
+      log,
+      live,
+      createdAt: now,
+      updatedAt: now,
+    });
+    return id;
   });
+}
 
-  for (const ev of log) {
-    if (ev.type === 'score' && ev.playerId && ev.points != null && !ev.pending) {
-      pointsDelta[ev.playerId] = (pointsDelta[ev.playerId] ?? 0) + ev.points;
-      if (ev.scoreType === 'try' || ev.scoreType === 'penalty-try') {
-        triesDelta[ev.playerId] = (triesDelta[ev.playerId] ?? 0) + 1;
-      }
-    }
-    if (ev.type === 'card' && ev.playerId) {
-      if (ev.cardType === 'yellow') yellowDelta[ev.playerId] = (yellowDelta[ev.playerId] ?? 0) + 1;
-      if (ev.cardType === 'red') redDelta[ev.playerId] = (redDelta[ev.playerId] ?? 0) + 1;
-    }
-  }
+/** Autosaved matches still 'playing' (never ended), most recently saved first. Several can be in play at once, one per pitch. */
+export async function getUnfinishedMatches(): Promise<Match[]> {
+  const playing = await db.matches.where('status').equals('playing').toArray();
+  return playing
+    .filter((m) => m.live != null)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
 
-  for (const id of playerIds) {
-    const player = await getPlayer(id);
-    if (!player) continue;
-    await updatePlayer(id, {
-      gamesPlayed: player.gamesPlayed + 1,
-      tries: player.tries + (triesDelta[id] ?? 0),
-      points: player.points + (pointsDelta[id] ?? 0),
-      yellowCards: player.yellowCards + (yellowDelta[id] ?? 0),
-      redCards: player.redCards + (redDelta[id] ?? 0),
-    });
+/** Drop an unfinished match: a scheduled match goes back to not played, an ad-hoc one is deleted. */
+export async function discardUnfinishedMatch(id: string): Promise<void> {
+  const existing = await db.matches.get(id);
+  if (!existing || existing.status !== 'playing') return;
+  if (existing.scheduledAt == null) {
+    await db.matches.delete(id);
+    return;
   }
+  await db.matches.put({
+    ...existing,
+    homeScore: 0,
+    awayScore: 0,
+    currentHalf: 1,
+    elapsedSeconds: 0,
+    injuryTime: 0,
+    startedAt: 0,
+    status: 'not_played',
+    log: [],
+    live: undefined,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Replace a completed match's log (edited after the match): re-derives the score and refreshes the
+ * stats of every player in the old or new log (and re-advances a knockout winner). Returns the updated match.
+ */
+export async function updateCompletedMatchLog(id: string, log: LogEvent[]): Promise<Match | undefined> {
+  return db.transaction('rw', db.matches, db.players, async () => {
+    const existing = await db.matches.get(id);
+    if (!existing || existing.status !== 'completed') return undefined;
+    const updated: Match = { ...existing, ...scoreFromLog(log), log, updatedAt: Date.now() };
+    await db.matches.put(updated);
+    await refreshPlayerStats([...matchParticipants(existing), ...matchParticipants(updated)]);
+    await advanceKnockout(updated);
+    return updated;
+  });
 }
 
 /** Convert in-memory state to MatchSnapshot. Used when starting (live) or finishing a match. */
 export function stateToMatchSnapshot(state: {
   homeTeam: string;
   awayTeam: string;
+  homeTeamId?: string;
+  awayTeamId?: string;
   homeColor: string;
   awayColor: string;
   homeScore: number;
   awayScore: number;
   halfDuration: number;
   competition?: string;
+  competitionId?: string;
   venue?: string;
   referee?: string;
   currentHalf: number;
@@ -390,13 +426,14 @@ export function stateToMatchSnapshot(state: {
   playerTracking: boolean;
   cardTracking: boolean;
   substitutions: boolean;
-  scoreEvents: MatchSnapshot['scoreEvents'];
-  cards: MatchSnapshot['cards'];
-  substitutionEvents: MatchSnapshot['substitutionEvents'];
-  systemEvents: MatchSnapshot['systemEvents'];
-  players: Array<{ id: string }>;
+  ruleSet: RuleSet;
+  periods: MatchPeriod[];
+  events: MatchEvent[];
+  players: MatchSquadPlayer[];
 }): MatchSnapshot {
   return {
+    homeTeamId: state.homeTeamId,
+    awayTeamId: state.awayTeamId,
     homeTeamName: state.homeTeam,
     awayTeamName: state.awayTeam,
     homeColor: state.homeColor,
@@ -405,6 +442,7 @@ export function stateToMatchSnapshot(state: {
     awayScore: state.awayScore,
     halfDuration: state.halfDuration,
     competition: state.competition ?? '',
+    competitionId: state.competitionId,
     venue: state.venue ?? '',
     referee: state.referee ?? '',
     currentHalf: state.currentHalf,
@@ -414,11 +452,10 @@ export function stateToMatchSnapshot(state: {
       playerTracking: state.playerTracking,
       cardTracking: state.cardTracking,
       substitutions: state.substitutions,
+      ruleSet: state.ruleSet,
+      periods: state.periods,
     },
-    scoreEvents: state.scoreEvents,
-    cards: state.cards,
-    substitutionEvents: state.substitutionEvents,
-    systemEvents: state.systemEvents,
-    playerIds: state.players.map((p) => p.id),
+    events: state.events,
+    squad: state.players,
   };
 }
@@ -0,0 +1,36 @@
+/**
+ * Match row migrations for Rugby Scorer.
+ * Shared by the Dexie schema upgrades (db/index.ts) and backup restore (db/backup.ts), so rows
+ * from a backup taken on an older schema are brought up to date the same way.
+ */
+
+import type { Match } from './types';
+import { getMatchRuleSet } from './rules';
+import { withKickOutcomes } from './matchLog';
+
+/** v2: new status names; scheduledAt defaults to the start time. */
+export function upgradeMatchRowToV2(m: Record<string, unknown>): void {
+  const s = m.status as string;
+  if (s === 'draft') m.status = 'not_played';
+  if (s === 'live') m.status = 'playing';
+  if (s === 'finished') m.status = 'completed';
+  if (m.scheduledAt == null && m.startedAt) m.scheduledAt = m.startedAt;
+}
+
+/** v3: logs record kick outcomes explicitly (missed kicks were 0-point score events). */
+export function upgradeMatchRowToV3(m: Record<string, unknown>): void {
+  const match = m as unknown as Match;
+  match.log = withKickOutcomes(match.log ?? [], getMatchRuleSet(match));
+}
+
+const MATCH_ROW_UPGRADES: Array<[version: number, upgrade: (m: Record<string, unknown>) => void]> = [
+  [2, upgradeMatchRowToV2],
+  [3, upgradeMatchRowToV3],
+];
+
+/** Apply every match row upgrade after `fromVersion` (a database schema version). */
+export function upgradeMatchRow(m: Record<string, unknown>, fromVersion: number): void {
+  for (const [version, upgrade] of MATCH_ROW_UPGRADES) {
+    if (version > fromVersion) upgrade(m);
+  }
+}
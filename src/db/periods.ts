@@ -0,0 +1,107 @@
+/**
+ * Period plans for Rugby Scorer.
+ * A match stores its plan (halves, quarters, extra time, sudden death…) in Match.config.periods;
+ * period numbers (currentHalf, LogEvent.half) are 1-based positions in the plan.
+ */
+
+import type { Match, MatchPeriod, RuleSet } from './types';
+import { getMatchRuleSet } from './rules';
+
+const ORDINALS = ['1st', '2nd', '3rd', '4th', '5th', '6th'];
+
+/** Normal-time periods: halves for 2, quarters for 4, "Period n" otherwise. */
+export function normalTimePeriods(count: number, duration: number): MatchPeriod[] {
+  return Array.from({ length: count }, (_, i) => {
+    const n = i + 1;
+    if (count === 2) return { label: `${ORDINALS[i]} Half`, shortLabel: `H${n}`, duration };
+    if (count === 4) return { label: `${ORDINALS[i]} Quarter`, shortLabel: `Q${n}`, duration };
+    return { label: `Period ${n}`, shortLabel: `P${n}`, duration };
+  });
+}
+
+/** Extra time from a rule set (sevens extra time, league golden point). */
+export function ruleExtraTimePeriods(ruleSet: RuleSet): MatchPeriod[] {
+  const extraTime = ruleSet.extraTime;
+  if (!extraTime) return [];
+  const base = { duration: extraTime.periodDuration, extraTime: true, suddenDeath: extraTime.suddenDeath };
+  if (extraTime.maxPeriods == null) return [{ ...base, label: extraTime.label, shortLabel: 'ET', repeat: true }];
+  return Array.from({ length: extraTime.maxPeriods }, (_, i) => ({
+    ...base,
+    label: extraTime.maxPeriods === 1 ? extraTime.label : `${extraTime.label} ${i + 1}`,
+    shortLabel: `ET${i + 1}`,
+  }));
+}
+
+/** Cup knockout extra time: two 10-minute periods, then 10 minutes of sudden death. */
+export function cupExtraTimePeriods(): MatchPeriod[] {
+  return [
+    { label: 'Extra time 1', shortLabel: 'ET1', duration: 10 * 60, extraTime: true },
+    { label: 'Extra time 2', shortLabel: 'ET2', duration: 10 * 60, extraTime: true },
+    { label: 'Sudden death', shortLabel: 'SD', duration: 10 * 60, extraTime: true, suddenDeath: true },
+  ];
+}
+
+/** Default plan for a rule set: its normal-time periods of the given length, then its extra time. */
+export function buildPeriodPlan(ruleSet: RuleSet, periodDuration: number, periodCount: number = ruleSet.periodCount): MatchPeriod[] {
+  return [...normalTimePeriods(periodCount, periodDuration), ...ruleExtraTimePeriods(ruleSet)];
+}
+
+/** Period plan for a saved match; older matches without one get their rule set's default. */
+export function getMatchPeriods(match: Pick<Match, 'config' | 'halfDuration'>): MatchPeriod[] {
+  return match.config.periods ?? buildPeriodPlan(getMatchRuleSet(match), match.halfDuration);
+}
+
+/**
+ * Period at a 1-based position. Past the end of the plan a repeating last period keeps going
+ * ("Extra time 2", …); otherwise the last period is returned.
+ */
+export function getPeriod(plan: MatchPeriod[], half: number): MatchPeriod | undefined {
+  if (plan.length === 0) return undefined;
+  if (half <= plan.length) return plan[Math.max(0, half - 1)];
+  const last = plan[plan.length - 1];
+  if (!last.repeat) return last;
+  const n = half - plan.length + 1;
+  return { ...last, label: `${last.label} ${n}`, shortLabel: `${last.shortLabel}${n}` };
+}
+
+export function getPeriodLabel(plan: MatchPeriod[], half: number): string {
+  return getPeriod(plan, half)?.label ?? `Period ${half}`;
+}
+
+export function getPeriodShortLabel(plan: MatchPeriod[], half: number): string {
+  return getPeriod(plan, half)?.shortLabel ?? `P${half}`;
+}
+
+/**
+ * Period after `half`, or null when the match is over. Extra time is only started when scores
+ * are level; once in extra time its periods follow on, except that sudden death also needs a level score.
+ */
+export function getNextPeriod(plan: MatchPeriod[], half: number, scoresLevel: boolean): MatchPeriod | null {
+  const current = getPeriod(plan, half);
+  const next = half < plan.length ? plan[half] : current?.repeat ? getPeriod(plan, half + 1) : undefined;
+  if (!next) return null;
+  if (!next.extraTime) return next;
+  if (current?.extraTime && !next.suddenDeath) return next;
+  return scoresLevel ? next : null;
+}
+
+/** True when the first score in this period wins the match. */
+export function isSuddenDeathPeriod(plan: MatchPeriod[], half: number): boolean {
+  return getPeriod(plan, half)?.suddenDeath ?? false;
+}
+
+/** Team that won in sudden death (first counted score in a sudden-death period), or null. */
+export function getSuddenDeathWinner(
+  plan: MatchPeriod[],
+  scoreEvents: Array<{ team: 'home' | 'away'; half: number; points: number; pending?: boolean; timestamp: number }>
+): 'home' | 'away' | null {
+  const first = scoreEvents
+    .filter((e) => !e.pending && e.points > 0 && isSuddenDeathPeriod(plan, e.half))
+    .sort((a, b) => a.timestamp - b.timestamp)[0];
+  return first?.team ?? null;
+}
+
+/** Set the length of every normal-time period (the setup screen's "minutes per period"). */
+export function withNormalTimeDuration(plan: MatchPeriod[], duration: number): MatchPeriod[] {
+  return plan.map((p) => (p.extraTime ? p : { ...p, duration }));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import type { Player } from './types';
+import { buildPlayerImportRows, guessColumnMapping, looksLikeHeader } from './playerImport';
+
+const player = (id: string, name: string, number: number): Player => ({
+  id,
+  teamId: 'team',
+  name,
+  number,
+  position: '',
+  isStarter: true,
+  active: true,
+  gamesPlayed: 3,
+  tries: 1,
+  points: 5,
+  yellowCards: 0,
+  redCards: 0,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const mapping = { name: 0, number: 1, position: 2, active: 3 };
+
+describe('column mapping', () => {
+  it('finds columns by header name in any order', () => {
+    const header = ['Shirt', 'Player Name', 'Status'];
+    expect(looksLikeHeader(header)).toBe(true);
+    expect(guessColumnMapping(header, true)).toEqual({ name: 1, number: 0, position: null, active: 2 });
+  });
+
+  it('assumes name, number, position, active without a header', () => {
+    const row = ['Ana Silva', '9'];
+    expect(looksLikeHeader(row)).toBe(false);
+    expect(guessColumnMapping(row, false)).toEqual({ name: 0, number: 1, position: null, active: null });
+  });
+});
+
+describe('buildPlayerImportRows', () => {
+  const existing = [player('p1', 'Ana Silva', 9), player('p2', 'Ben Cole', 10)];
+
+  it('adds new players and updates the ones with the same name', () => {
+    const rows = buildPlayerImportRows([['Name', 'No'], ['Cara Ng', '11', 'Wing', ''], ['ana silva', '12', '', 'no']], mapping, true, existing);
+    expect(rows.map((r) => [r.line, r.action, r.matchedBy, r.existing?.id])).toEqual([
+      [2, 'add', undefined, undefined],
+      [3, 'update', 'name', 'p1'],
+    ]);
+    expect(rows[1].active).toBe(false);
+  });
+
+  it('leaves active unset when no column is mapped to it', () => {
+    const [row] = buildPlayerImportRows([['Ana Silva', '9', '', 'no']], { ...mapping, active: null }, false, existing);
+    expect(row).toMatchObject({ action: 'update', existing: { id: 'p1' } });
+    expect(row.active).toBeUndefined();
+  });
+
+  it('skips a match on the shirt number alone', () => {
+    const [row] = buildPlayerImportRows([['Dan Roe', '10']], mapping, false, existing);
+    expect(row).toMatchObject({ action: 'skip', matchedBy: 'number', existing: { id: 'p2' } });
+    expect(row.error).toBeUndefined();
+  });
+
+  it('prefers the name match when the number belongs to someone else', () => {
+    const [row] = buildPlayerImportRows([['Ana Silva', '10']], mapping, false, existing);
+    expect(row).toMatchObject({ action: 'update', matchedBy: 'name', existing: { id: 'p1' } });
+  });
+
+  it('flags rows without a name or with a bad number', () => {
+    const rows = buildPlayerImportRows([['', '4'], ['Eve Hart', 'ten'], ['Fin Lee', '']], mapping, false, existing);
+    expect(rows.map((r) => r.error)).toEqual(['No name', 'Bad number "ten"', 'No number']);
+    expect(rows.every((r) => r.action === 'skip')).toBe(true);
+  });
+
+  it('flags rows repeating an earlier name or number', () => {
+    const rows = buildPlayerImportRows([['Name', 'No'], ['Gus Hall', '4'], ['GUS HALL', '5'], ['Ian Moss', '4'], ['Jo King', '6']], mapping, true, []);
+    expect(rows.map((r) => r.error)).toEqual([undefined, 'Same name as row 2', 'Same number as row 2', undefined]);
+    expect(rows.map((r) => r.action)).toEqual(['add', 'skip', 'skip', 'add']);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * CSV player import for Rugby Scorer.
+ * Maps CSV / pasted spreadsheet columns to player fields, previews each row against the team's
+ * existing players (same name or number) and writes the rows the user chose to add or update.
+ */
+
+import { db } from './index';
+import type { Player } from './types';
+import { addPlayer, updatePlayer } from './players';
+
+export type PlayerImportField = 'name' | 'number' | 'position' | 'active';
+
+/** Column index for each field (null = not in the file). */
+export type PlayerColumnMapping = Record<PlayerImportField, number | null>;
+
+export type PlayerImportAction = 'add' | 'update' | 'skip';
+
+/** One previewed CSV row. */
+export interface PlayerImportRow {
+  /** Row number in the file (1-based, header included). */
+  line: number;
+  name: string;
+  number: number | null;
+  position: string;
+  /** From the Active column; absent when no column is mapped to it (updates keep the player's setting). */
+  active?: boolean;
+  /** Why the row can't be imported (missing name, bad number, same as an earlier row…). */
+  error?: string;
+  /** Existing player with the same name, else the same number. */
+  existing?: Player;
+  matchedBy?: 'name' | 'number';
+  action: PlayerImportAction;
+}
+
+export const PLAYER_IMPORT_FIELDS: Array<{ field: PlayerImportField; label: string; required: boolean }> = [
+  { field: 'name', label: 'Name', required: true },
+  { field: 'number', label: 'Number', required: true },
+  { field: 'position', label: 'Position', required: false },
+  { field: 'active', label: 'Active', required: false },
+];
+
+const HEADER_ALIASES: Record<PlayerImportField, string[]> = {
+  name: ['name', 'player', 'player name', 'full name'],
+  number: ['number', 'no', 'no.', 'num', '#', 'shirt', 'shirt number', 'jersey'],
+  position: ['position', 'pos', 'pos.'],
+  active: ['active', 'available', 'status'],
+};
+
+/** True when the first row looks like column headings rather than a player. */
+export function looksLikeHeader(row: string[]): boolean {
+  return row.some((cell) => Object.values(HEADER_ALIASES).some((aliases) => aliases.includes(cell.toLowerCase())));
+}
+
+/** Guess the column for each field from header names; without a header assume name, number, position, active. */
+export function guessColumnMapping(firstRow: string[], hasHeader: boolean): PlayerColumnMapping {
+  if (!hasHeader) {
+    const at = (i: number) => (i < firstRow.length ? i : null);
+    return { name: at(0), number: at(1), position: at(2), active: at(3) };
+  }
+  const find = (field: PlayerImportField) => {
+    const i = firstRow.findIndex((cell) => HEADER_ALIASES[field].includes(cell.toLowerCase()));
+    return i === -1 ? null : i;
+  };
+  return { name: find('name'), number: find('number'), position: find('position'), active: find('active') };
+}
+
+// Blank = active; "no", "n", "false", "0", "inactive" = not active
+function parseActive(value: string | undefined): boolean {
+  if (!value) return true;
+  return !['no', 'n', 'false', '0', 'inactive', 'x'].includes(value.toLowerCase());
+}
+
+/**
+ * Preview the rows against the team's players. New players default to add and name matches to update.
+ * A match on the shirt number alone is skipped by default: updating it would rename that player and
+ * hand their stats to someone else. A row repeating an earlier row's name or number is an error.
+ */
+export function buildPlayerImportRows(
+  rows: string[][],
+  mapping: PlayerColumnMapping,
+  hasHeader: boolean,
+  existingPlayers: Player[]
+): PlayerImportRow[] {
+  const cell = (row: string[], field: PlayerImportField) => {
+    const i = mapping[field];
+    return i == null ? '' : (row[i] ?? '').trim();
+  };
+  const seenNames = new Map<string, number>();
+  const seenNumbers = new Map<number, number>();
+  return rows.slice(hasHeader ? 1 : 0).map((row, i) => {
+    const name = cell(row, 'name');
+    const numberText = cell(row, 'number');
+    const number = /^\d+$/.test(numberText) ? parseInt(numberText, 10) : null;
+    const base = {
+      line: i + (hasHeader ? 2 : 1),
+      name,
+      number,
+      position: cell(row, 'position'),
+      active: mapping.active == null ? undefined : parseActive(cell(row, 'active')),
+    };
+    if (!name) return { ...base, error: 'No name', action: 'skip' as const };
+    if (number == null || number < 1) return { ...base, error: numberText ? `Bad number "${numberText}"` : 'No number', action: 'skip' as const };
+    const sameName = seenNames.get(name.toLowerCase());
+    const sameNumber = seenNumbers.get(number);
+    if (sameName != null) return { ...base, error: `Same name as row ${sameName}`, action: 'skip' as const };
+    if (sameNumber != null) return { ...base, error: `Same number as row ${sameNumber}`, action: 'skip' as const };
+    seenNames.set(name.toLowerCase(), base.line);
+    seenNumbers.set(number, base.line);
+    const byName = existingPlayers.find((p) => p.name.trim().toLowerCase() === name.toLowerCase());
+    const byNumber = existingPlayers.find((p) => p.number === number);
+    const existing = byName ?? byNumber;
+    if (!existing) return { ...base, action: 'add' as const };
+    if (byName) return { ...base, existing, matchedBy: 'name' as const, action: 'update' as const };
+    return { ...base, existing, matchedBy: 'number' as const, action: 'skip' as const };
+  });
+}
+
+/** Write the previewed rows to the team's pool, all or none. Returns how many players were added and updated. */
+export async function applyPlayerImport(teamId: string, rows: PlayerImportRow[]): Promise<{ added: number; updated: number }> {
+  let added = 0;
+  let updated = 0;
+  await db.transaction('rw', db.players, async () => {
+    for (const row of rows) {
+      if (row.error || row.number == null || row.action === 'skip') continue;
+      if (row.action === 'update' && row.existing) {
+        await updatePlayer(row.existing.id, {
+          name: row.name,
+          number: row.number,
+          position: row.position || row.existing.position,
+          active: row.active ?? row.existing.active,
+        });
+        updated++;
+      } else if (row.action === 'add') {
+        await addPlayer({ teamId, name: row.name, number: row.number, position: row.position, isStarter: true, active: row.active });
+        added++;
+      }
+    }
+  });
+  return { added, updated };
+}
@@ -18,15 +18,25 @@ export async function getPlayer(id: string): Promise<Player | undefined> {
   return db.players.get(id);
 }
 
+/** Display names for player ids; ids with no player (e.g. roster placeholders) map to "—". */
+export async function getPlayerNameMap(ids: Iterable<string>): Promise<Record<string, string>> {
+  const map: Record<string, string> = {};
+  await Promise.all([...new Set(ids)].map(async (id) => {
+    const p = await getPlayer(id);
+    map[id] = p?.name ?? '—';
+  }));
+  return map;
+}
+
 export async function addPlayer(
-  player: Omit<Player, 'id' | 'createdAt' | 'updatedAt' | 'gamesPlayed' | 'tries' | 'points' | 'yellowCards' | 'redCards' | 'active'>
+  player: Omit<Player, 'id' | 'createdAt' | 'updatedAt' | 'gamesPlayed' | 'tries' | 'points' | 'yellowCards' | 'redCards' | 'active'> & { active?: boolean }
 ): Promise<string> {
   const id = crypto.randomUUID();
   const now = Date.now();
   await db.players.add({
     ...player,
     id,
-    active: true,
+    active: player.active ?? true,
     gamesPlayed: 0,
     tries: 0,
     points: 0,
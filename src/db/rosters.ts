@@ -1,6 +1,6 @@
 /**
  * Rosters and roster entries CRUD.
- * Roster = named squad (e.g. "First XV"); entries = 23 slots (number, position, optional playerId).
+ * Roster = named squad (e.g. "First XV"); entries = 23 slots by default (number, position, optional playerId).
  */
 
 import { db } from './index';
@@ -24,16 +24,22 @@ export async function getRosterEntries(rosterId: string): Promise<RosterEntry[]>
   return db.rosterEntries.where('rosterId').equals(rosterId).sortBy('number');
 }
 
-export async function createRoster(teamId: string, name: string): Promise<string> {
+/** Create a roster with numbered slots. Defaults to 23 union slots; pass slotCount/positions for other codes (e.g. 12 for sevens). */
+export async function createRoster(
+  teamId: string,
+  name: string,
+  options?: { slotCount?: number; positions?: string[] }
+): Promise<string> {
   const id = crypto.randomUUID();
   const now = Date.now();
+  const positions = options?.positions ?? DEFAULT_POSITIONS;
   await db.rosters.add({ id, teamId, name, createdAt: now });
-  for (let n = 1; n <= 23; n++) {
+  for (let n = 1; n <= (options?.slotCount ?? 23); n++) {
     await db.rosterEntries.add({
       id: crypto.randomUUID(),
       rosterId: id,
       number: n,
-      position: DEFAULT_POSITIONS[n - 1] ?? 'Sub',
+      position: positions[n - 1] ?? 'Sub',
       createdAt: now,
     });
   }
@@ -55,6 +61,17 @@ export async function updateRosterEntry(
   await db.rosterEntries.put({ ...existing, ...updates });
 }
 
+/** Mark one entry as captain (null clears it); any other captain in the roster is unmarked. */
+export async function setRosterCaptain(rosterId: string, entryId: string | null): Promise<void> {
+  await db.transaction('rw', db.rosterEntries, async () => {
+    const entries = await db.rosterEntries.where('rosterId').equals(rosterId).toArray();
+    for (const entry of entries) {
+      const captain = entry.id === entryId;
+      if (!!entry.captain !== captain) await db.rosterEntries.put({ ...entry, captain: captain || undefined });
+    }
+  });
+}
+
 export async function deleteRoster(id: string): Promise<void> {
   await db.rosterEntries.where('rosterId').equals(id).delete();
   await db.rosters.delete(id);
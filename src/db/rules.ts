@@ -0,0 +1,126 @@
+/**
+ * Scoring rule sets for Rugby Scorer.
+ * A match stores a copy of its RuleSet in Match.config so scoring, stats and exports
+ * keep working even if the presets here change later.
+ */
+
+import type { Match, RuleSet, ScoreType, ScoreTypeRule } from './types';
+
+const UNION_POSITIONS = [
+  'Loosehead Prop', 'Hooker', 'Tighthead Prop', 'Lock / Second Row', 'Lock / Second Row',
+  'Blindside Flanker', 'Openside Flanker', 'Number 8', 'Scrum-half', 'Fly-half',
+  'Left Wing', 'Inside Centre', 'Outside Centre', 'Right Wing', 'Full-back',
+];
+
+const SEVENS_POSITIONS = ['Loosehead Prop', 'Hooker', 'Tighthead Prop', 'Scrum-half', 'Fly-half', 'Centre', 'Wing'];
+
+const LEAGUE_POSITIONS = [
+  'Full-back', 'Wing', 'Centre', 'Centre', 'Wing', 'Stand-off', 'Scrum-half',
+  'Prop', 'Hooker', 'Prop', 'Second Row', 'Second Row', 'Loose Forward',
+];
+
+/** Rugby union (15-a-side): try 5, conversion 2, penalty 3, drop goal 3, penalty try 7. */
+export const UNION_RULES: RuleSet = {
+  id: 'union',
+  name: 'Rugby Union',
+  scoreTypes: [
+    { type: 'try', label: 'Try', shortLabel: 'Try', summaryLabel: 'Tries', points: 5, countsAsTry: true, isKick: false },
+    { type: 'conversion', label: 'Conversion', shortLabel: 'Conv', summaryLabel: 'Conversions', points: 2, countsAsTry: false, isKick: true, followsTry: true },
+    { type: 'penalty', label: 'Penalty', shortLabel: 'Pen', summaryLabel: 'Penalties', points: 3, countsAsTry: false, isKick: true },
+    { type: 'drop-goal', label: 'Drop goal', shortLabel: 'DG', summaryLabel: 'Drop Goals', points: 3, countsAsTry: false, isKick: true },
+    { type: 'penalty-try', label: 'Penalty try', shortLabel: 'Penalty try', summaryLabel: 'Tries', points: 7, countsAsTry: true, isKick: false, teamOnly: true },
+  ],
+  sinBinSeconds: 10 * 60,
+  periodCount: 2,
+  periodDuration: 40 * 60,
+  playersOnPitch: 15,
+  squadSize: 23,
+  positions: UNION_POSITIONS,
+};
+
+/** Rugby sevens: union scoring, 7-minute halves, 2-minute sin bin, 12-player squads, sudden-death extra time in 5-minute periods. */
+export const SEVENS_RULES: RuleSet = {
+  ...UNION_RULES,
+  id: 'sevens',
+  name: 'Rugby Sevens',
+  sinBinSeconds: 2 * 60,
+  periodDuration: 7 * 60,
+  extraTime: { label: 'Extra time', periodDuration: 5 * 60, suddenDeath: true },
+  playersOnPitch: 7,
+  squadSize: 12,
+  positions: SEVENS_POSITIONS,
+};
+
+/** Rugby league: try 4, conversion 2, penalty goal 2, field goal 1, 40m field goal 2. Six-tackle sets, golden point if level. */
+export const LEAGUE_RULES: RuleSet = {
+  id: 'league',
+  name: 'Rugby League',
+  scoreTypes: [
+    { type: 'try', label: 'Try', shortLabel: 'Try', summaryLabel: 'Tries', points: 4, countsAsTry: true, isKick: false },
+    { type: 'conversion', label: 'Conversion', shortLabel: 'Conv', summaryLabel: 'Conversions', points: 2, countsAsTry: false, isKick: true, followsTry: true },
+    { type: 'penalty', label: 'Penalty goal', shortLabel: 'Pen', summaryLabel: 'Penalty Goals', points: 2, countsAsTry: false, isKick: true },
+    { type: 'field-goal', label: 'Field goal', shortLabel: 'FG', summaryLabel: 'Field Goals', points: 1, countsAsTry: false, isKick: true },
+    { type: 'field-goal-40', label: '40m field goal', shortLabel: '40m FG', summaryLabel: 'Field Goals', points: 2, countsAsTry: false, isKick: true },
+  ],
+  sinBinSeconds: 10 * 60,
+  periodCount: 2,
+  periodDuration: 40 * 60,
+  extraTime: { label: 'Golden point', periodDuration: 5 * 60, maxPeriods: 2, suddenDeath: true },
+  playersOnPitch: 13,
+  squadSize: 17,
+  positions: LEAGUE_POSITIONS,
+  tackleLimit: 6,
+};
+
+/** Presets offered in match setup. */
+export const RULE_SETS: RuleSet[] = [UNION_RULES, SEVENS_RULES, LEAGUE_RULES];
+
+/**
+ * Fill in fields added to RuleSet since a copy was stored (squad sizes and positions came with sevens)
+ * from the preset with the same id, else union. No rule set at all gives union rules.
+ */
+export function withRuleSetDefaults(ruleSet: Partial<RuleSet> | undefined): RuleSet {
+  const preset = RULE_SETS.find((r) => r.id === ruleSet?.id) ?? UNION_RULES;
+  if (!ruleSet) return preset;
+  if (ruleSet.playersOnPitch != null && ruleSet.squadSize != null && ruleSet.positions != null && ruleSet.scoreTypes != null) return ruleSet as RuleSet;
+  return {
+    ...ruleSet,
+    id: ruleSet.id ?? preset.id,
+    name: ruleSet.name ?? preset.name,
+    scoreTypes: ruleSet.scoreTypes ?? preset.scoreTypes,
+    sinBinSeconds: ruleSet.sinBinSeconds ?? preset.sinBinSeconds,
+    periodCount: ruleSet.periodCount ?? preset.periodCount,
+    periodDuration: ruleSet.periodDuration ?? preset.periodDuration,
+    playersOnPitch: ruleSet.playersOnPitch ?? preset.playersOnPitch,
+    squadSize: ruleSet.squadSize ?? preset.squadSize,
+    positions: ruleSet.positions ?? preset.positions,
+  };
+}
+
+/** Rule set for a match config; older matches without one use union rules. */
+export function getRuleSet(config: { ruleSet?: RuleSet } | undefined): RuleSet {
+  return withRuleSetDefaults(config?.ruleSet);
+}
+
+/** Rule set for a saved match. */
+export function getMatchRuleSet(match: Pick<Match, 'config'>): RuleSet {
+  return getRuleSet(match.config);
+}
+
+export function getScoreTypeRule(ruleSet: RuleSet, type: ScoreType | string | undefined): ScoreTypeRule | undefined {
+  return ruleSet.scoreTypes.find((r) => r.type === type);
+}
+
+export function countsAsTry(ruleSet: RuleSet, type: ScoreType | string | undefined): boolean {
+  return getScoreTypeRule(ruleSet, type)?.countsAsTry ?? false;
+}
+
+/** Log label for a score type, e.g. "Drop goal"; falls back to the raw type. */
+export function getScoreLabel(ruleSet: RuleSet, type: ScoreType | string | undefined): string {
+  return getScoreTypeRule(ruleSet, type)?.label ?? type ?? 'Score';
+}
+
+/** Default position for a shirt number: the rule set's position for starters, "Sub" for replacements. */
+export function getDefaultPosition(ruleSet: RuleSet, number: number): string {
+  return number <= ruleSet.playersOnPitch ? (ruleSet.positions[number - 1] ?? 'Sub') : 'Sub';
+}
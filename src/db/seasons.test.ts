@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Season } from './types';
+import { calendarYearSeasons, currentSeason, filterBySeason, isInSeason, matchDate, seasonBounds, seasonChoices, toDateString } from './seasons';
+
+const season = (id: string, startDate: string, endDate: string): Season => ({ id, name: id, startDate, endDate, createdAt: 0, updatedAt: 0 });
+const at = (y: number, m: number, d: number, h = 0, min = 0) => new Date(y, m - 1, d, h, min).getTime();
+const played = (ms: number) => ({ startedAt: ms, createdAt: ms });
+
+const season2526 = season('2025/26', '2025-09-01', '2026-05-31');
+
+describe('dates', () => {
+  it('writes the local calendar date', () => {
+    expect(toDateString(at(2026, 1, 5, 23, 59))).toBe('2026-01-05');
+    expect(toDateString(at(2026, 1, 6, 0, 0))).toBe('2026-01-06');
+  });
+
+  it('files a match under its kick-off, else its start, else its creation', () => {
+    expect(matchDate({ scheduledAt: 3, startedAt: 2, createdAt: 1 })).toBe(3);
+    expect(matchDate({ startedAt: 2, createdAt: 1 })).toBe(2);
+    expect(matchDate({ startedAt: 0, createdAt: 1 })).toBe(1);
+  });
+});
+
+describe('seasons', () => {
+  it('covers the first and last day in full', () => {
+    const { from, to } = seasonBounds(season2526);
+    expect(from).toBe(at(2025, 9, 1));
+    expect(to).toBe(at(2026, 6, 1) - 1);
+    expect(isInSeason(played(at(2025, 9, 1, 0, 0)), season2526)).toBe(true);
+    expect(isInSeason(played(at(2026, 5, 31, 23, 59)), season2526)).toBe(true);
+    expect(isInSeason(played(at(2025, 8, 31, 23, 59)), season2526)).toBe(false);
+    expect(isInSeason(played(at(2026, 6, 1, 0, 0)), season2526)).toBe(false);
+  });
+
+  it('filters matches, or keeps them all without a season', () => {
+    const matches = [played(at(2025, 10, 4)), played(at(2026, 7, 1)), { scheduledAt: at(2026, 3, 14), startedAt: 0, createdAt: at(2026, 7, 2) }];
+    expect(filterBySeason(matches, season2526)).toEqual([matches[0], matches[2]]);
+    expect(filterBySeason(matches, undefined)).toBe(matches);
+  });
+
+  it('finds the season a date falls in', () => {
+    const seasons = [season('2024/25', '2024-09-01', '2025-05-31'), season2526];
+    expect(currentSeason(seasons, at(2026, 2, 1))?.id).toBe('2025/26');
+    expect(currentSeason(seasons, at(2025, 7, 1))).toBeUndefined();
+  });
+
+  it('stands in calendar years, most recent first, when none are set up', () => {
+    const matches = [played(at(2024, 5, 1)), played(at(2026, 1, 1)), played(at(2024, 12, 31, 23))];
+    expect(calendarYearSeasons(matches).map((s) => [s.name, s.startDate, s.endDate])).toEqual([
+      ['2026', '2026-01-01', '2026-12-31'],
+      ['2024', '2024-01-01', '2024-12-31'],
+    ]);
+    expect(seasonChoices([], matches)).toHaveLength(2);
+    expect(seasonChoices([season2526], matches)).toEqual([season2526]);
+  });
+});
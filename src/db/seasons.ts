@@ -0,0 +1,94 @@
+/**
+ * Seasons for Rugby Scorer.
+ * A season is a named date range (start and end inclusive). Matches are not linked to a season:
+ * each belongs to the season its date falls in (scheduled kick-off, else start, else creation).
+ * With no seasons set up, calendar years stand in for them.
+ */
+
+import { db } from './index';
+import type { Match, Season } from './types';
+
+/** What filtering by season needs; calendar-year stand-ins have no stored row. */
+export type SeasonRange = Pick<Season, 'id' | 'name' | 'startDate' | 'endDate'>;
+
+export type SaveSeasonResult = { ok: true; id: string } | { ok: false; error: string };
+
+/** Seasons, most recent first. */
+export async function getSeasons(): Promise<Season[]> {
+  const seasons = await db.seasons.orderBy('startDate').toArray();
+  return seasons.reverse();
+}
+
+/**
+ * Create a season, or update it when `id` is given. Dates are "YYYY-MM-DD". Fails when the name is
+ * empty, the dates are missing or reversed, or the range overlaps another season.
+ */
+export async function saveSeason(input: { id?: string; name: string; startDate: string; endDate: string }): Promise<SaveSeasonResult> {
+  const name = input.name.trim();
+  if (!name) return { ok: false, error: 'Give the season a name.' };
+  if (!isDateString(input.startDate) || !isDateString(input.endDate)) return { ok: false, error: 'Choose a start and an end date.' };
+  if (input.endDate < input.startDate) return { ok: false, error: 'The season ends before it starts.' };
+  const others = (await db.seasons.toArray()).filter((s) => s.id !== input.id);
+  const clash = others.find((s) => s.startDate <= input.endDate && input.startDate <= s.endDate);
+  if (clash) return { ok: false, error: `Overlaps ${clash.name} (${clash.startDate} to ${clash.endDate}).` };
+
+  const now = Date.now();
+  const existing = input.id ? await db.seasons.get(input.id) : undefined;
+  const id = existing?.id ?? crypto.randomUUID();
+  await db.seasons.put({ id, name, startDate: input.startDate, endDate: input.endDate, createdAt: existing?.createdAt ?? now, updatedAt: now });
+  return { ok: true, id };
+}
+
+/** Delete a season. Its matches are untouched (they fall back to no season). */
+export async function deleteSeason(id: string): Promise<void> {
+  await db.seasons.delete(id);
+}
+
+function isDateString(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+/** Local calendar date of a timestamp as "YYYY-MM-DD". */
+export function toDateString(ms: number): string {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+/** Timestamp a match is filed under: scheduled kick-off, else when it started, else when it was created. */
+export function matchDate(match: Pick<Match, 'scheduledAt' | 'startedAt' | 'createdAt'>): number {
+  return match.scheduledAt || match.startedAt || match.createdAt;
+}
+
+/** First and last millisecond of a season in local time, e.g. for listMatches({ from, to }). */
+export function seasonBounds(season: SeasonRange): { from: number; to: number } {
+  const [sy, sm, sd] = season.startDate.split('-').map(Number);
+  const [ey, em, ed] = season.endDate.split('-').map(Number);
+  return { from: new Date(sy, sm - 1, sd).getTime(), to: new Date(ey, em - 1, ed + 1).getTime() - 1 };
+}
+
+export function isInSeason(match: Pick<Match, 'scheduledAt' | 'startedAt' | 'createdAt'>, season: SeasonRange): boolean {
+  const day = toDateString(matchDate(match));
+  return season.startDate <= day && day <= season.endDate;
+}
+
+/** Matches in a season; all of them when no season is given. */
+export function filterBySeason<M extends Pick<Match, 'scheduledAt' | 'startedAt' | 'createdAt'>>(matches: M[], season: SeasonRange | undefined): M[] {
+  return season ? matches.filter((m) => isInSeason(m, season)) : matches;
+}
+
+/** The season containing a date (default today), if any. */
+export function currentSeason<S extends SeasonRange>(seasons: S[], now = Date.now()): S | undefined {
+  const day = toDateString(now);
+  return seasons.find((s) => s.startDate <= day && day <= s.endDate);
+}
+
+/** One stand-in season per calendar year the matches were played in, most recent first. */
+export function calendarYearSeasons(matches: Array<Pick<Match, 'scheduledAt' | 'startedAt' | 'createdAt'>>): SeasonRange[] {
+  const years = [...new Set(matches.map((m) => new Date(matchDate(m)).getFullYear()))].sort((a, b) => b - a);
+  return years.map((y) => ({ id: `year-${y}`, name: String(y), startDate: `${y}-01-01`, endDate: `${y}-12-31` }));
+}
+
+/** Seasons to choose from: the ones set up, else calendar years over the given matches. */
+export function seasonChoices(seasons: Season[], matches: Array<Pick<Match, 'scheduledAt' | 'startedAt' | 'createdAt'>>): SeasonRange[] {
+  return seasons.length > 0 ? seasons : calendarYearSeasons(matches);
+}
@@ -19,6 +19,9 @@ export async function clearAllData(): Promise<void> {
   await db.players.clear();
   await db.matches.clear();
   await db.teams.clear();
+  await db.competitions.clear();
+  await db.seasons.clear();
+  await db.tournaments.clear();
 }
 
 /** Reeds demo team positions (1–19). Slot 9 = Scrum-half. */
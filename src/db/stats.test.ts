@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent } from './types';
+import { LEAGUE_RULES } from './rules';
+import { computeCareerStats, matchParticipants } from './stats';
+import { testMatch } from './testFixtures';
+
+const score = (id: string, playerId: string | undefined, scoreType: string, points: number, pending?: boolean): LogEvent => ({ id, timestamp: 0, type: 'score', team: 'home', scoreType, points, playerId, pending });
+const card = (id: string, playerId: string, cardType: 'yellow' | 'red'): LogEvent => ({ id, timestamp: 0, type: 'card', team: 'home', playerId, cardType });
+
+describe('matchParticipants', () => {
+  it('joins the squad with everyone named in the log', () => {
+    const match = testMatch({
+      playerIds: ['ana', 'ben'],
+      log: [score('t1', 'cal', 'try', 5), { id: 's1', timestamp: 0, type: 'substitution', team: 'home', offPlayerId: 'ben', onPlayerId: 'dan' }],
+    });
+    expect(matchParticipants(match).sort()).toEqual(['ana', 'ben', 'cal', 'dan']);
+  });
+});
+
+describe('computeCareerStats', () => {
+  it('totals games, tries, points and cards over completed matches', () => {
+    const totals = computeCareerStats([
+      testMatch({ id: 'm1', playerIds: ['ana', 'ben'], log: [score('t1', 'ana', 'try', 5), score('c1', 'ben', 'conversion', 2), card('y1', 'ben', 'yellow')] }),
+      testMatch({ id: 'm2', playerIds: ['ana'], log: [score('t2', 'ana', 'try', 5), score('pt', undefined, 'penalty-try', 7), card('r1', 'ana', 'red')] }),
+    ]);
+    expect(totals).toEqual({
+      ana: { gamesPlayed: 2, tries: 2, points: 10, yellowCards: 0, redCards: 1 },
+      ben: { gamesPlayed: 1, tries: 0, points: 2, yellowCards: 1, redCards: 0 },
+    });
+  });
+
+  it('leaves out matches not completed and scores still with the TMO', () => {
+    const totals = computeCareerStats([
+      testMatch({ id: 'm1', status: 'playing', playerIds: ['ana'], log: [score('t1', 'ana', 'try', 5)] }),
+      testMatch({ id: 'm2', playerIds: ['ana'], log: [score('t2', 'ana', 'try', 5, true)] }),
+    ]);
+    expect(totals).toEqual({ ana: { gamesPlayed: 1, tries: 0, points: 0, yellowCards: 0, redCards: 0 } });
+  });
+
+  it("counts tries by the match's own rule set", () => {
+    const league = testMatch({ config: { playerTracking: true, cardTracking: true, substitutions: false, ruleSet: LEAGUE_RULES }, log: [score('t1', 'ana', 'try', 4), score('fg', 'ana', 'field-goal', 1)] });
+    expect(computeCareerStats([league]).ana).toMatchObject({ gamesPlayed: 1, tries: 1, points: 5 });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Player career stats for Rugby Scorer.
+ * Totals are computed from completed matches' logs. The counters on Player are a cache of them,
+ * refreshed whenever a match is saved or edited, and can be rebuilt from the admin screen.
+ */
+
+import { db } from './index';
+import type { Match, Player } from './types';
+import { getMatchRuleSet } from './rules';
+import { logPlayerIds, tallyPlayerStats, type PlayerMatchStats } from './matchLog';
+
+export interface PlayerCareerStats extends PlayerMatchStats {
+  gamesPlayed: number;
+}
+
+/** A player whose stored counters differ from the totals rebuilt from match history. */
+export interface PlayerStatsDiff {
+  playerId: string;
+  name: string;
+  stored: PlayerCareerStats;
+  rebuilt: PlayerCareerStats;
+}
+
+const STAT_KEYS = ['gamesPlayed', 'tries', 'points', 'yellowCards', 'redCards'] as const;
+
+function emptyStats(): PlayerCareerStats {
+  return { gamesPlayed: 0, tries: 0, points: 0, yellowCards: 0, redCards: 0 };
+}
+
+function storedStats(player: Player): PlayerCareerStats {
+  return { gamesPlayed: player.gamesPlayed, tries: player.tries, points: player.points, yellowCards: player.yellowCards, redCards: player.redCards };
+}
+
+function sameStats(a: PlayerCareerStats, b: PlayerCareerStats): boolean {
+  return STAT_KEYS.every((k) => a[k] === b[k]);
+}
+
+/** Players who took part in a match: its squad, plus anyone named in the log (older matches only have the log). */
+export function matchParticipants(match: Pick<Match, 'log' | 'playerIds'>): string[] {
+  return [...new Set([...(match.playerIds ?? []), ...logPlayerIds(match.log)])];
+}
+
+/** Career totals per player id over the given matches (only completed ones count). */
+export function computeCareerStats(matches: Match[]): Record<string, PlayerCareerStats> {
+  const totals: Record<string, PlayerCareerStats> = {};
+  for (const match of matches) {
+    if (match.status !== 'completed') continue;
+    for (const id of matchParticipants(match)) {
+      (totals[id] ??= emptyStats()).gamesPlayed += 1;
+    }
+    const tally = tallyPlayerStats(match.log, getMatchRuleSet(match));
+    for (const [id, s] of Object.entries(tally)) {
+      const t = (totals[id] ??= emptyStats());
+      t.tries += s.tries;
+      t.points += s.points;
+      t.yellowCards += s.yellowCards;
+      t.redCards += s.redCards;
+    }
+  }
+  return totals;
+}
+
+/** Career totals per player id from all completed matches. */
+export async function getCareerStatsFromHistory(): Promise<Record<string, PlayerCareerStats>> {
+  const completed = await db.matches.where('status').equals('completed').toArray();
+  return computeCareerStats(completed);
+}
+
+/** Recompute the cached counters of the given players from match history (after a match is saved or edited). */
+export async function refreshPlayerStats(playerIds: string[]): Promise<void> {
+  if (playerIds.length === 0) return;
+  const totals = await getCareerStatsFromHistory();
+  const now = Date.now();
+  for (const id of new Set(playerIds)) {
+    const player = await db.players.get(id);
+    if (!player) continue;
+    const rebuilt = totals[id] ?? emptyStats();
+    if (sameStats(storedStats(player), rebuilt)) continue;
+    await db.players.put({ ...player, ...rebuilt, updatedAt: now });
+  }
+}
+
+/** Players whose stored counters don't match their match history. */
+export async function diffPlayerStats(): Promise<PlayerStatsDiff[]> {
+  const [players, totals] = await Promise.all([db.players.toArray(), getCareerStatsFromHistory()]);
+  return players
+    .map((p) => ({ playerId: p.id, name: p.name, stored: storedStats(p), rebuilt: totals[p.id] ?? emptyStats() }))
+    .filter((d) => !sameStats(d.stored, d.rebuilt))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Overwrite every player's counters with the totals from match history. Returns what changed. */
+export async function rebuildAllPlayerStats(): Promise<PlayerStatsDiff[]> {
+  return db.transaction('rw', db.players, db.matches, async () => {
+    const diffs = await diffPlayerStats();
+    const now = Date.now();
+    for (const d of diffs) {
+      const player = await db.players.get(d.playerId);
+      if (player) await db.players.put({ ...player, ...d.rebuilt, updatedAt: now });
+    }
+    return diffs;
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchSquadPlayer, Player } from './types';
+import { SEVENS_RULES } from './rules';
+import { buildTeamSheetRows, isFrontRowPosition, poolMatchSquad } from './teamSheet';
+
+const squadPlayer = (id: string, number: number, position: string, isStarter = number <= 15): MatchSquadPlayer => ({
+  id,
+  number,
+  name: `Player ${number}`,
+  position,
+  isStarter,
+  team: 'home',
+});
+
+const poolPlayer = (id: string, position: string, number = 0): Player => ({
+  id,
+  teamId: 'home',
+  name: id,
+  number,
+  position,
+  isStarter: false,
+  active: true,
+  gamesPlayed: 0,
+  tries: 0,
+  points: 0,
+  yellowCards: 0,
+  redCards: 0,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+describe('isFrontRowPosition', () => {
+  it('matches prop or hooker anywhere in a list of positions', () => {
+    expect(isFrontRowPosition('Loosehead Prop')).toBe(true);
+    expect(isFrontRowPosition('Flanker, hooker')).toBe(true);
+    expect(isFrontRowPosition('Propeller')).toBe(false);
+    expect(isFrontRowPosition('')).toBe(false);
+  });
+});
+
+describe('buildTeamSheetRows', () => {
+  it('sorts by number and marks front-row cover from the player or the slot', () => {
+    const squad = [squadPlayer('sam', 17, 'Replacement'), squadPlayer('ana', 1, 'Prop'), squadPlayer('ben', 16, 'Hooker'), squadPlayer('cal', 18, 'Replacement')];
+    const pool = [poolPlayer('sam', 'Flanker, Prop'), poolPlayer('cal', 'Wing')];
+    expect(buildTeamSheetRows(squad, pool).map((r) => [r.number, r.isStarter, r.frontRow])).toEqual([
+      [1, true, true],
+      [16, false, true],
+      [17, false, true],
+      [18, false, false],
+    ]);
+  });
+});
+
+describe('poolMatchSquad', () => {
+  it('takes active players numbered up to the squad size and marks starters by number', () => {
+    const pool = [
+      poolPlayer('p13', 'Wing', 13),
+      poolPlayer('p2', 'Hooker', 2),
+      poolPlayer('p7', 'Scrum-half', 7),
+      poolPlayer('p8', 'Prop', 8),
+      { ...poolPlayer('p3', 'Prop', 3), active: false },
+      poolPlayer('p0', 'Centre'),
+    ];
+    const squad = poolMatchSquad(pool, SEVENS_RULES, 'away');
+    expect(squad.map((p) => [p.id, p.isStarter])).toEqual([['p2', true], ['p7', true], ['p8', false]]);
+    expect(squad.every((p) => p.team === 'away')).toBe(true);
+  });
+});
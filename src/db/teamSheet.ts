@@ -0,0 +1,106 @@
+/**
+ * Pre-match team sheets for Rugby Scorer.
+ * A sheet is one team's matchday squad by shirt number with positions, the captain and which
+ * replacements can cover the front row, printed for the referee and the opposition.
+ */
+
+import type { Match, MatchSquadPlayer, Player, RuleSet } from './types';
+import { getMatchRuleSet } from './rules';
+import { getPlayersByTeam } from './players';
+import { getRoster, getRosterEntries } from './rosters';
+
+export interface TeamSheetRow {
+  number: number;
+  name: string;
+  position: string;
+  isStarter: boolean;
+  /** Can play prop or hooker (from the player's positions, else the slot's). */
+  frontRow: boolean;
+}
+
+export interface TeamSheet {
+  team: 'home' | 'away';
+  teamName: string;
+  rows: TeamSheetRow[];
+  /** Shirt number of the captain, if chosen. */
+  captainNumber: number | null;
+}
+
+/** True for a position (or comma-separated list of positions) that includes prop or hooker. */
+export function isFrontRowPosition(position: string): boolean {
+  return /\b(prop|hooker)\b/i.test(position);
+}
+
+/**
+ * Matchday squad from a team's player pool when the match has no roster: active players
+ * numbered up to the squad size, starters by shirt number as in a roster.
+ */
+export function poolMatchSquad(pool: Player[], ruleSet: RuleSet, team: 'home' | 'away'): MatchSquadPlayer[] {
+  return pool
+    .filter((p) => p.active !== false && p.number >= 1 && p.number <= ruleSet.squadSize)
+    .sort((a, b) => a.number - b.number)
+    .map((p) => ({ id: p.id, number: p.number, name: p.name, position: p.position, isStarter: p.number <= ruleSet.playersOnPitch, team }));
+}
+
+/**
+ * Matchday squad for one team of a scheduled match: the match's roster when it has one
+ * (inactive or unassigned slots become "Player N"), else the team's player pool.
+ */
+export async function getScheduledMatchSquad(match: Match, team: 'home' | 'away'): Promise<MatchSquadPlayer[]> {
+  const ruleSet = getMatchRuleSet(match);
+  const teamId = team === 'home' ? match.homeTeamId : match.awayTeamId;
+  const rosterId = team === 'home' ? match.rosterId : match.awayRosterId;
+  const roster = rosterId ? await getRoster(rosterId) : undefined;
+  const pool = await getPlayersByTeam(teamId);
+  if (!roster || roster.teamId !== teamId) {
+    return poolMatchSquad(pool, ruleSet, team);
+  }
+  const entries = (await getRosterEntries(roster.id)).filter((e) => e.number <= ruleSet.squadSize);
+  return entries.map((entry) => {
+    const p = entry.playerId ? pool.find((x) => x.id === entry.playerId) : undefined;
+    const usePlayer = p && p.active !== false;
+    return {
+      id: usePlayer ? p.id : `roster-${team === 'away' ? 'away-' : ''}${roster.id}-${entry.number}`,
+      number: entry.number,
+      name: usePlayer ? p.name : `Player ${entry.number}`,
+      position: entry.position,
+      isStarter: entry.number <= ruleSet.playersOnPitch,
+      team,
+    };
+  });
+}
+
+/** Captain's shirt number in a roster, or null when none is marked. */
+export async function getRosterCaptainNumber(rosterId: string | undefined): Promise<number | null> {
+  if (!rosterId) return null;
+  const entries = await getRosterEntries(rosterId);
+  return entries.find((e) => e.captain)?.number ?? null;
+}
+
+/** Sheet rows for a squad, sorted by number. `pool` is the team's players, for their usual positions. */
+export function buildTeamSheetRows(squad: MatchSquadPlayer[], pool: Player[]): TeamSheetRow[] {
+  const poolById = new Map(pool.map((p) => [p.id, p]));
+  return [...squad]
+    .sort((a, b) => a.number - b.number)
+    .map((p) => ({
+      number: p.number,
+      name: p.name,
+      position: p.position,
+      isStarter: p.isStarter,
+      frontRow: isFrontRowPosition(poolById.get(p.id)?.position ?? '') || isFrontRowPosition(p.position),
+    }));
+}
+
+/** Sheets for both teams of a scheduled match, captains taken from the match rosters. */
+export async function getScheduledMatchTeamSheets(match: Match): Promise<TeamSheet[]> {
+  return Promise.all(
+    (['home', 'away'] as const).map(async (team) => {
+      const [squad, pool, captainNumber] = await Promise.all([
+        getScheduledMatchSquad(match, team),
+        getPlayersByTeam(team === 'home' ? match.homeTeamId : match.awayTeamId),
+        getRosterCaptainNumber(team === 'home' ? match.rosterId : match.awayRosterId),
+      ]);
+      return { team, teamName: team === 'home' ? match.homeTeamName : match.awayTeamName, rows: buildTeamSheetRows(squad, pool), captainNumber };
+    })
+  );
+}
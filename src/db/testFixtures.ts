@@ -0,0 +1,35 @@
+/**
+ * Test fixtures for Rugby Scorer's db modules.
+ * Plain records with the fields a test doesn't care about filled in; pass overrides for the rest.
+ */
+
+import type { Match } from './types';
+
+/** A completed union match between Harlow and Ashford with an empty log. */
+export function testMatch(overrides: Partial<Match> = {}): Match {
+  return {
+    id: 'match',
+    homeTeamId: 'home',
+    awayTeamId: 'away',
+    homeTeamName: 'Harlow',
+    awayTeamName: 'Ashford',
+    homeColor: '#000000',
+    awayColor: '#ffffff',
+    homeScore: 0,
+    awayScore: 0,
+    halfDuration: 2400,
+    competition: '',
+    venue: '',
+    referee: '',
+    currentHalf: 2,
+    elapsedSeconds: 2400,
+    injuryTime: 0,
+    startedAt: 0,
+    status: 'completed',
+    config: { playerTracking: true, cardTracking: true, substitutions: false },
+    log: [],
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { roundRobinRounds, TOURNAMENT_POINTS_RULES, validateTournament, type NewTournament } from './tournaments';
+
+const teams = (n: number) => Array.from({ length: n }, (_, i) => `t${i + 1}`);
+
+describe('roundRobinRounds', () => {
+  it.each([2, 3, 4, 5, 6, 7, 8])('pairs %i teams once each, once a round', (n) => {
+    const rounds = roundRobinRounds(teams(n));
+    expect(rounds).toHaveLength(n % 2 ? n : n - 1);
+    for (const pairs of rounds) {
+      const playing = pairs.flat();
+      expect(new Set(playing).size).toBe(playing.length);
+      expect(pairs).toHaveLength(Math.floor(n / 2));
+    }
+    const meetings = rounds.flat().map(([a, b]) => [a, b].sort().join(' v '));
+    expect(new Set(meetings).size).toBe((n * (n - 1)) / 2);
+    expect(meetings).toHaveLength((n * (n - 1)) / 2);
+  });
+
+  it.each([3, 4, 5, 6, 7, 8, 10])('shares home games out evenly between %i teams', (n) => {
+    const balance = new Map(teams(n).map((t) => [t, 0]));
+    for (const [home, away] of roundRobinRounds(teams(n)).flat()) {
+      balance.set(home, balance.get(home)! + 1);
+      balance.set(away, balance.get(away)! - 1);
+    }
+    // n - 1 games each: level for an even number of games, one apart for an odd number
+    for (const diff of balance.values()) expect(Math.abs(diff)).toBe(n % 2 ? 0 : 1);
+  });
+
+  it('gives each team of an odd number one bye', () => {
+    const rounds = roundRobinRounds(teams(5));
+    const byes = rounds.map((pairs) => teams(5).find((t) => !pairs.flat().includes(t)));
+    expect([...byes].sort()).toEqual(teams(5));
+  });
+});
+
+describe('validateTournament', () => {
+  const input = (overrides: Partial<NewTournament> = {}): NewTournament => ({
+    name: 'U12 Festival',
+    venue: '',
+    startAt: 0,
+    slotMinutes: 20,
+    pitches: 2,
+    ruleSetId: 'sevens',
+    periodDuration: 7 * 60,
+    pointsRules: TOURNAMENT_POINTS_RULES,
+    pools: [
+      { name: 'Pool A', teamIds: ['a1', 'a2', 'a3'] },
+      { name: 'Pool B', teamIds: ['b1', 'b2', 'b3'] },
+    ],
+    brackets: [
+      { name: 'Cup', places: [1, 2] },
+      { name: 'Plate', places: [3] },
+    ],
+    ...overrides,
+  });
+
+  it('accepts a tournament that can be drawn', () => {
+    expect(validateTournament(input())).toBeNull();
+  });
+
+  it('rejects pools without a name or with the same name', () => {
+    expect(validateTournament(input({ pools: [{ name: ' ', teamIds: ['a1', 'a2'] }] }))).toBe('Give each pool a name.');
+    expect(validateTournament(input({ pools: [{ name: 'Pool A', teamIds: ['a1', 'a2'] }, { name: 'pool a ', teamIds: ['b1', 'b2'] }] }))).toBe('Give each pool a different name.');
+  });
+
+  it('rejects small pools and teams in two pools', () => {
+    expect(validateTournament(input({ pools: [{ name: 'Pool A', teamIds: ['a1'] }] }))).toBe('Pool A needs at least two teams.');
+    expect(validateTournament(input({ pools: [{ name: 'Pool A', teamIds: ['a1', 'a2'] }, { name: 'Pool B', teamIds: ['a2', 'b1'] }] }))).toBe('A team is in more than one pool.');
+  });
+
+  it('rejects knockouts that share a name or a pool place, or would have one team', () => {
+    expect(validateTournament(input({ brackets: [{ name: 'Cup', places: [1] }, { name: 'Cup', places: [2] }] }))).toBe('Give each knockout a different name.');
+    expect(validateTournament(input({ brackets: [{ name: 'Cup', places: [1, 2] }, { name: 'Plate', places: [2] }] }))).toBe('A pool place goes into more than one knockout.');
+    expect(validateTournament(input({ pools: [{ name: 'Pool A', teamIds: ['a1', 'a2', 'a3'] }], brackets: [{ name: 'Bowl', places: [3] }] }))).toBe('Bowl needs at least two teams from the pools.');
+  });
+});
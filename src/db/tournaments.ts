@@ -0,0 +1,275 @@
+/**
+ * Tournament (festival) days for Rugby Scorer.
+ * Each pool plays a round robin, drawn up front as not_played matches on the day's kick-off slots.
+ * Pool tables are league tables of the completed pool matches; once the pools are done the knockouts
+ * are seeded from them, and knockout winners move on as each match ends (see db/knockout.ts).
+ */
+
+import { db } from './index';
+import type { CompetitionPointsRules, Match, Team, Tournament, TournamentPool, TournamentStage } from './types';
+import { saveScheduledMatch } from './matches';
+import { computeLeagueTable, type LeagueTableRow } from './competitions';
+import { RULE_SETS, SEVENS_RULES } from './rules';
+import { buildPeriodPlan, normalTimePeriods } from './periods';
+import { bracketRounds, bracketSize, knockoutRoundName, knockoutShortName, seedOrder } from './knockout';
+
+/** Festival pool points: 3 for a win, 2 for a draw, 1 for a loss, no bonus points. */
+export const TOURNAMENT_POINTS_RULES: CompetitionPointsRules = {
+  win: 3,
+  draw: 2,
+  loss: 1,
+  tryBonus: 0,
+  tryBonusThreshold: 4,
+  losingBonus: 0,
+  losingBonusMargin: 7,
+};
+
+/** Shirt colour for knockout sides not known yet. */
+const TBC_COLOR = '#71717a';
+
+export type NewTournament = Omit<Tournament, 'id' | 'seededAt' | 'createdAt' | 'updatedAt'>;
+
+export type TournamentResult = { ok: true; id: string } | { ok: false; error: string };
+
+/** One side of a drawn match. */
+interface Side {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/** Tournaments, most recent first. */
+export async function getTournaments(): Promise<Tournament[]> {
+  const tournaments = await db.tournaments.orderBy('startAt').toArray();
+  return tournaments.reverse();
+}
+
+/** A tournament's pool and knockout matches in kick-off order. */
+export async function getTournamentMatches(id: string): Promise<Match[]> {
+  const matches = await db.matches.where('tournamentId').equals(id).toArray();
+  return matches.sort((a, b) => (a.scheduledAt ?? 0) - (b.scheduledAt ?? 0) || a.venue.localeCompare(b.venue));
+}
+
+/**
+ * Pairings for a round robin, one array per round (circle method), so every team plays once a
+ * round and each side alternates home and away where it can. An odd team out sits a round out.
+ */
+export function roundRobinRounds<T>(teams: T[]): Array<Array<[T, T]>> {
+  // With an odd number of teams the bye takes the fixed place, so it moves round like everyone else
+  const circle: Array<T | null> = teams.length % 2 ? [null, ...teams] : [...teams];
+  const n = circle.length;
+  const rounds: Array<Array<[T, T]>> = [];
+  for (let r = 0; r < n - 1; r++) {
+    const pairs: Array<[T, T]> = [];
+    for (let i = 0; i < n / 2; i++) {
+      const a = circle[i];
+      const b = circle[n - 1 - i];
+      // The fixed team changes ends every round; a rotating team moves one pair along, so home
+      // on even pairs flips it each round too
+      const swap = i === 0 ? r % 2 === 1 : i % 2 === 1;
+      if (a != null && b != null) pairs.push(swap ? [b, a] : [a, b]);
+    }
+    rounds.push(pairs);
+    circle.splice(1, 0, circle.pop()!);
+  }
+  return rounds;
+}
+
+/**
+ * Hands out kick-off slots (slot n kicks off n × slotMinutes after the start), filling every pitch
+ * of a slot before the next. `notBefore` keeps a side from playing twice in one slot.
+ */
+function slotAllocator(pitches: number, firstSlot: number) {
+  const used: number[] = [];
+  return (notBefore: number) => {
+    let slot = Math.max(firstSlot, notBefore);
+    while ((used[slot] ?? 0) >= pitches) slot++;
+    const pitch = used[slot] ?? 0;
+    used[slot] = pitch + 1;
+    return { slot, pitch };
+  };
+}
+
+function slotMs(tournament: Tournament): number {
+  return tournament.slotMinutes * 60 * 1000;
+}
+
+/** Fields for saveScheduledMatch for one drawn match. */
+function fixtureParams(tournament: Tournament, at: { slot: number; pitch: number }, stage: TournamentStage, label: string, home: Side, away: Side) {
+  const ruleSet = RULE_SETS.find((r) => r.id === tournament.ruleSetId) ?? SEVENS_RULES;
+  // Pool matches can be drawn; knockouts get the rule set's extra time
+  const periods = stage.kind === 'knockout'
+    ? buildPeriodPlan(ruleSet, tournament.periodDuration)
+    : normalTimePeriods(ruleSet.periodCount, tournament.periodDuration);
+  return {
+    homeTeamId: home.id,
+    awayTeamId: away.id,
+    homeTeamName: home.name,
+    awayTeamName: away.name,
+    homeColor: home.color,
+    awayColor: away.color,
+    halfDuration: tournament.periodDuration,
+    competition: `${tournament.name} · ${label}`,
+    venue: [tournament.venue.trim(), tournament.pitches > 1 ? `Pitch ${at.pitch + 1}` : ''].filter(Boolean).join(' · '),
+    referee: '',
+    scheduledAt: tournament.startAt + at.slot * slotMs(tournament),
+    config: { playerTracking: true, cardTracking: true, substitutions: false, ruleSet, periods },
+    tournamentId: tournament.id,
+    tournamentStage: stage,
+  };
+}
+
+/** Problems with a tournament's set-up, or null when it can be drawn. */
+export function validateTournament(input: NewTournament): string | null {
+  if (!input.name.trim()) return 'Give the tournament a name.';
+  if (input.pools.length === 0) return 'Add at least one pool.';
+  // Pool matches and tables are keyed by pool name
+  if (input.pools.some((p) => !p.name.trim())) return 'Give each pool a name.';
+  if (new Set(input.pools.map((p) => p.name.trim().toLowerCase())).size !== input.pools.length) return 'Give each pool a different name.';
+  const small = input.pools.find((p) => p.teamIds.length < 2);
+  if (small) return `${small.name} needs at least two teams.`;
+  const teamIds = input.pools.flatMap((p) => p.teamIds);
+  if (new Set(teamIds).size !== teamIds.length) return 'A team is in more than one pool.';
+  if (new Set(input.brackets.map((b) => b.name.trim())).size !== input.brackets.length) return 'Give each knockout a different name.';
+  const places = input.brackets.flatMap((b) => b.places);
+  if (new Set(places).size !== places.length) return 'A pool place goes into more than one knockout.';
+  for (const bracket of input.brackets) {
+    if (!bracket.name.trim()) return 'Give each knockout a name.';
+    const teams = input.pools.reduce((n, p) => n + bracket.places.filter((place) => place <= p.teamIds.length).length, 0);
+    if (teams < 2) return `${bracket.name} needs at least two teams from the pools.`;
+  }
+  if (input.slotMinutes <= 0 || input.pitches < 1 || input.periodDuration <= 0) return 'Match length, kick-off interval and pitches must be above zero.';
+  return null;
+}
+
+/** Save a tournament and draw its pool matches (through saveScheduledMatch), all or nothing. */
+export async function createTournament(input: NewTournament, teams: Team[]): Promise<TournamentResult> {
+  const error = validateTournament(input);
+  if (error) return { ok: false, error };
+  const now = Date.now();
+  const pools = input.pools.map((p) => ({ ...p, name: p.name.trim() }));
+  const tournament: Tournament = { ...input, name: input.name.trim(), pools, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+  await db.transaction('rw', db.tournaments, db.matches, async () => {
+    await db.tournaments.add(tournament);
+    await drawPoolMatches(tournament, teams);
+  });
+  return { ok: true, id: tournament.id };
+}
+
+async function drawPoolMatches(tournament: Tournament, teams: Team[]): Promise<void> {
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+  const side = (id: string): Side => ({ id, name: teamById.get(id)?.name ?? 'Unknown team', color: teamById.get(id)?.color ?? TBC_COLOR });
+  const poolRounds = tournament.pools.map((pool) => roundRobinRounds(pool.teamIds));
+  const lastSlot = new Map<string, number>();
+  const allocate = slotAllocator(tournament.pitches, 0);
+  // Round 1 of every pool, then round 2…, so pools play side by side
+  const roundCount = Math.max(...poolRounds.map((r) => r.length));
+  for (let round = 0; round < roundCount; round++) {
+    for (const [p, pool] of tournament.pools.entries()) {
+      for (const [home, away] of poolRounds[p][round] ?? []) {
+        const at = allocate(Math.max(lastSlot.get(home) ?? -1, lastSlot.get(away) ?? -1) + 1);
+        lastSlot.set(home, at.slot);
+        lastSlot.set(away, at.slot);
+        await saveScheduledMatch(fixtureParams(tournament, at, { kind: 'pool', pool: pool.name, round }, pool.name, side(home), side(away)));
+      }
+    }
+  }
+}
+
+/** Delete a tournament with its unplayed matches. Played ones are kept as ordinary matches. */
+export async function deleteTournament(id: string): Promise<void> {
+  await db.transaction('rw', db.tournaments, db.matches, async () => {
+    await db.matches.where('tournamentId').equals(id).filter((m) => m.status === 'not_played').delete();
+    await db.matches.where('tournamentId').equals(id).modify((m) => {
+      delete m.tournamentId;
+      delete m.tournamentStage;
+    });
+    await db.tournaments.delete(id);
+  });
+}
+
+/** Each pool's table from its completed matches. */
+export function poolStandings(tournament: Tournament, matches: Match[], teams: Team[]): Array<{ pool: TournamentPool; rows: LeagueTableRow[] }> {
+  return tournament.pools.map((pool) => {
+    const poolMatches = matches.filter((m) => m.tournamentStage?.kind === 'pool' && m.tournamentStage.pool === pool.name);
+    const poolTeams = pool.teamIds.map((id) => teams.find((t) => t.id === id) ?? { id, name: 'Unknown team' });
+    return { pool, rows: computeLeagueTable(poolMatches, poolTeams, tournament.pointsRules) };
+  });
+}
+
+/** True when every pool match has been played. */
+export function poolsComplete(matches: Match[]): boolean {
+  return matches.every((m) => m.tournamentStage?.kind !== 'pool' || m.status === 'completed');
+}
+
+/**
+ * Draw the knockouts from the pool tables. Teams finishing in the same place in different pools are
+ * ranked against each other on points, difference, points scored and tries; seeds then meet 1 v N,
+ * 2 v N-1… with byes for the top seeds when the numbers don't fill the bracket. Later rounds are
+ * drawn with "Winner …" placeholders that advanceKnockout fills in. Kick-offs follow the pool matches.
+ * The matches and the tournament's seeded mark are written together, all or nothing.
+ */
+export async function drawKnockouts(tournament: Tournament, matches: Match[], teams: Team[]): Promise<TournamentResult> {
+  if (tournament.seededAt) return { ok: false, error: 'The knockouts have already been drawn.' };
+  if (tournament.brackets.length === 0) return { ok: false, error: 'This tournament has no knockouts.' };
+  const standings = poolStandings(tournament, matches, teams);
+  const teamById = new Map(teams.map((t) => [t.id, t]));
+  const side = (row: LeagueTableRow): Side => ({ id: row.teamId, name: row.teamName, color: teamById.get(row.teamId)?.color ?? TBC_COLOR });
+  const poolSlots = matches.map((m) => Math.round(((m.scheduledAt ?? tournament.startAt) - tournament.startAt) / slotMs(tournament)));
+  const allocate = slotAllocator(tournament.pitches, Math.max(-1, ...poolSlots) + 1);
+
+  const brackets = tournament.brackets.map((bracket) => {
+    const seeds = [...bracket.places].sort((a, b) => a - b).flatMap((place) =>
+      standings
+        .map((s) => s.rows[place - 1])
+        .filter((row): row is LeagueTableRow => row != null)
+        .sort((a, b) => b.points - a.points || b.difference - a.difference || b.pointsFor - a.pointsFor || b.triesFor - a.triesFor)
+    );
+    const size = bracketSize(seeds.length);
+    return { bracket, seeds, size, rounds: bracketRounds(size), order: seedOrder(size) };
+  });
+
+  await db.transaction('rw', db.tournaments, db.matches, async () => {
+    // Per bracket and round: each slot's sides, and the kick-off slot of its match (-1 for a bye)
+    const sides = brackets.map((b) => Array.from({ length: b.rounds }, (_, round) => Array.from({ length: b.size / 2 ** (round + 1) }, () => ({ home: null as Side | null, away: null as Side | null }))));
+    const kickOff = brackets.map((b) => Array.from({ length: b.rounds }, (_, round) => new Array<number>(b.size / 2 ** (round + 1)).fill(-1)));
+    const maxRounds = Math.max(...brackets.map((b) => b.rounds));
+    for (let round = 0; round < maxRounds; round++) {
+      for (const [i, b] of brackets.entries()) {
+        if (round >= b.rounds) continue;
+        for (let slot = 0; slot < b.size / 2 ** (round + 1); slot++) {
+          const placeholder = (feeder: number): Side => ({
+            id: feeder % 2 === 0 ? 'home' : 'away',
+            name: `Winner ${b.bracket.name} ${knockoutShortName(round - 1, b.rounds, feeder)}`,
+            color: TBC_COLOR,
+          });
+          let home: Side | null;
+          let away: Side | null;
+          if (round === 0) {
+            const h = b.seeds[b.order[2 * slot] - 1];
+            const a = b.seeds[b.order[2 * slot + 1] - 1];
+            home = h ? side(h) : null;
+            away = a ? side(a) : null;
+          } else {
+            home = sides[i][round][slot].home ?? placeholder(2 * slot);
+            away = sides[i][round][slot].away ?? placeholder(2 * slot + 1);
+          }
+          if (!home || !away) {
+            // A bye: the seed goes straight into the next round
+            const into = sides[i][round + 1]?.[Math.floor(slot / 2)];
+            if (into) into[slot % 2 === 0 ? 'home' : 'away'] = home ?? away;
+            continue;
+          }
+          const feeders = round === 0 ? [] : [kickOff[i][round - 1][2 * slot], kickOff[i][round - 1][2 * slot + 1]];
+          const at = allocate(Math.max(-1, ...feeders) + 1);
+          kickOff[i][round][slot] = at.slot;
+          const roundName = knockoutRoundName(round, b.rounds);
+          const label = `${b.bracket.name} ${roundName}${roundName === 'Final' ? '' : ` ${slot + 1}`}`;
+          await saveScheduledMatch(fixtureParams(tournament, at, { kind: 'knockout', bracket: b.bracket.name, round, slot }, label, home, away));
+        }
+      }
+    }
+    await db.tournaments.update(tournament.id, { seededAt: Date.now(), updatedAt: Date.now() });
+  });
+  return { ok: true, id: tournament.id };
+}
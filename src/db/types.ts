@@ -42,6 +42,8 @@ export interface RosterEntry {
   number: number; // 1–23
   position: string;
   playerId?: string;
+  /** Team captain for matches using this roster (at most one entry per roster). */
+  captain?: boolean;
   createdAt: number;
 }
 
@@ -52,27 +54,288 @@ export interface Roster {
   createdAt: number;
 }
 
+/** League points awarded per match in a competition. */
+export interface CompetitionPointsRules {
+  win: number;
+  draw: number;
+  loss: number;
+  /** Bonus for scoring at least `tryBonusThreshold` tries (win, draw or loss). */
+  tryBonus: number;
+  tryBonusThreshold: number;
+  /** Bonus for losing by `losingBonusMargin` points or fewer. */
+  losingBonus: number;
+  losingBonusMargin: number;
+}
+
+/** A league or cup: its teams and points rules. Fixtures are the matches with its id (Match.competitionId). */
+export interface Competition {
+  id: string;
+  name: string;
+  teamIds: string[];
+  pointsRules: CompetitionPointsRules;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A tournament pool: its teams play each other once. */
+export interface TournamentPool {
+  name: string;
+  teamIds: string[];
+}
+
+/** A tournament knockout (cup, plate…), drawn from the teams finishing in the given pool places. */
+export interface TournamentBracket {
+  name: string;
+  /** Pool finishing places that go into this knockout, e.g. [1, 2] for the top two of every pool. */
+  places: number[];
+}
+
+/** A tournament (festival) day: pools played as round robins, then knockouts seeded from the pool standings. */
+export interface Tournament {
+  id: string;
+  name: string;
+  venue: string;
+  /** First kick-off (ms). */
+  startAt: number;
+  /** Minutes from one kick-off to the next on a pitch. */
+  slotMinutes: number;
+  pitches: number;
+  /** Rules every match is played under (id of one of RULE_SETS). */
+  ruleSetId: string;
+  /** Length of each period in seconds. */
+  periodDuration: number;
+  /** Pool table points (bonus points as for competitions). */
+  pointsRules: CompetitionPointsRules;
+  pools: TournamentPool[];
+  brackets: TournamentBracket[];
+  /** When the knockouts were drawn; absent while the pools are being played. */
+  seededAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Where a tournament match sits: a pool round, or a knockout round (0 = first) and slot.
+ * The winner of knockout slot s goes to slot s/2 of the next round, at home from an even slot.
+ */
+export type TournamentStage =
+  | { kind: 'pool'; pool: string; round: number }
+  | { kind: 'knockout'; bracket: string; round: number; slot: number; /** Picked by hand when the match ended level. */ winner?: 'home' | 'away' };
+
+/** A season: a named date range. Matches belong to the season their date falls in (see db/seasons.ts). */
+export interface Season {
+  id: string;
+  name: string;
+  /** First day, "YYYY-MM-DD". */
+  startDate: string;
+  /** Last day (inclusive), "YYYY-MM-DD". */
+  endDate: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export type MatchStatus = 'not_played' | 'playing' | 'completed';
 
-/** One log entry: score, card, substitution, or system event */
+/** One stretch of the match clock running, in wall-clock ms. Open (no stoppedAt) while the clock runs. */
+export interface ClockRun {
+  startedAt: number;
+  stoppedAt?: number;
+}
+
+/** Score types known to the app. Which ones a match uses (and their points) comes from its RuleSet. */
+export type ScoreType = 'try' | 'conversion' | 'penalty' | 'drop-goal' | 'penalty-try' | 'field-goal' | 'field-goal-40';
+
+/** One way of scoring in a rule set: points, labels and how the live screen treats it. */
+export interface ScoreTypeRule {
+  type: ScoreType;
+  /** Full label for logs, e.g. "Drop goal". */
+  label: string;
+  /** Short label for the live score buttons, e.g. "DG". */
+  shortLabel: string;
+  /** Heading when listing scorers in a shared result, e.g. "Drop Goals". Types with the same heading are listed together. */
+  summaryLabel: string;
+  points: number;
+  /** Counts towards a player's tries and enables a conversion. */
+  countsAsTry: boolean;
+  /** Goal kick that can also be recorded as missed. */
+  isKick: boolean;
+  /** Only allowed straight after a try by the same team (conversion). */
+  followsTry?: boolean;
+  /** Awarded to the team without picking a player (penalty try). Already includes any conversion. */
+  teamOnly?: boolean;
+}
+
+/** Extra time played when scores are level after normal time (e.g. league golden point). */
+export interface ExtraTimeRule {
+  /** Period name, e.g. "Golden point". */
+  label: string;
+  /** Length of one extra-time period in seconds. */
+  periodDuration: number;
+  /** Maximum extra-time periods; absent = keep playing until someone scores. */
+  maxPeriods?: number;
+  /** First score in extra time wins the match. */
+  suddenDeath: boolean;
+}
+
+/** Scoring and timing rules for a match (union, sevens, league, junior…). Stored on Match.config. */
+export interface RuleSet {
+  id: string;
+  name: string;
+  scoreTypes: ScoreTypeRule[];
+  /** Sin-bin length in seconds for a yellow card. */
+  sinBinSeconds: number;
+  /** Number of periods in normal time (2 = halves). */
+  periodCount: number;
+  /** Default length of one period in seconds. */
+  periodDuration: number;
+  extraTime?: ExtraTimeRule;
+  /** Players on the pitch per side (15 union, 13 league, 7 sevens); shirt numbers above this are replacements. */
+  playersOnPitch: number;
+  /** Default matchday squad size including replacements (23 union, 12 sevens). */
+  squadSize: number;
+  /** Position names for shirt numbers 1..playersOnPitch. */
+  positions: string[];
+  /** Tackles per set (league); shows a tackle counter on the live screen. */
+  tackleLimit?: number;
+}
+
+/** One period in a match's period plan (half, quarter, extra-time period…). */
+export interface MatchPeriod {
+  /** Display name, e.g. "1st Quarter", "Golden point 1". */
+  label: string;
+  /** Short name for log times, e.g. "Q1", "ET2". */
+  shortLabel: string;
+  /** Length in seconds. */
+  duration: number;
+  /** Extra time: only started when scores are level at the end of normal time. */
+  extraTime?: boolean;
+  /** First score in this period wins the match. */
+  suddenDeath?: boolean;
+  /** Played again while scores stay level (sevens extra time). Only meaningful on the last period. */
+  repeat?: boolean;
+}
+
+interface MatchEventBase {
+  id: string;
+  timestamp: number;
+}
+
+export interface ScoreEvent extends MatchEventBase {
+  kind: 'score';
+  team: 'home' | 'away';
+  type: ScoreType;
+  points: number;
+  player?: string;
+  half: number;
+  minute: number;
+  matchTime: number;
+  /** Awaiting TMO decision: not counted in the score until approved. */
+  pending?: boolean;
+}
+
+export interface CardEvent extends MatchEventBase {
+  kind: 'card';
+  team: 'home' | 'away';
+  player: string;
+  type: 'yellow' | 'red';
+  half: number;
+  minute: number;
+  matchTime: number;
+  /** Match time the sin bin ends (yellow only). */
+  returnTime?: number;
+  /** Derived: a card-return event exists for this card. */
+  returned?: boolean;
+}
+
+export interface SubstitutionEvent extends MatchEventBase {
+  kind: 'substitution';
+  team: 'home' | 'away';
+  offPlayerId: string;
+  onPlayerId: string;
+  half: number;
+  minute: number;
+  matchTime: number;
+}
+
+export interface CardReturnEvent extends MatchEventBase {
+  kind: 'card-return';
+  cardId: string;
+  team: 'home' | 'away';
+  playerId: string;
+  matchTime: number;
+}
+
+export interface SystemEvent extends MatchEventBase {
+  kind: 'system';
+  type: 'match-start' | 'half-time' | 'match-end';
+  half: number;
+  matchTime: number;
+  /** Half-time only: clock of the period it ended, restored if the half-time is undone. */
+  periodClock?: { clockRuns: ClockRun[]; injuryTime: number };
+}
+
+/** League tackle counter: a tackle made, or the ball handed over (count back to 0). Not part of the saved log. */
+export interface TackleEvent extends MatchEventBase {
+  kind: 'tackle';
+  action: 'tackle' | 'handover';
+}
+
+/** Change to an earlier event (TMO decision, scorer assigned, event deleted). Applied when the stream is reduced. */
+export interface CorrectionEvent extends MatchEventBase {
+  kind: 'correction';
+  eventId: string;
+  action: 'approve' | 'reject' | 'remove' | 'set-player';
+  /** New scorer for 'set-player' (absent = unassigned). */
+  playerId?: string;
+}
+
+/** One entry in the live match's append-only event stream. Score, period and sin bins are derived from it (see db/events.ts). */
+export type MatchEvent = ScoreEvent | CardEvent | SubstitutionEvent | CardReturnEvent | SystemEvent | TackleEvent | CorrectionEvent;
+
+/**
+ * One log entry: score, missed kick (kick-attempt), card, sin-bin return (card-return), substitution, or system event.
+ * Goal kicks carry kickOutcome: 'made' on their score event, 'missed' on a kick-attempt (0 points).
+ */
 export interface LogEvent {
   id: string;
   timestamp: number;
-  type: 'score' | 'card' | 'substitution' | 'match-start' | 'half-time' | 'match-end';
+  type: 'score' | 'kick-attempt' | 'card' | 'card-return' | 'substitution' | 'match-start' | 'half-time' | 'match-end';
   team?: 'home' | 'away';
   scoreType?: string;
   points?: number;
   playerId?: string;
   pending?: boolean;
+  kickOutcome?: 'made' | 'missed';
   cardType?: 'yellow' | 'red';
   returned?: boolean;
   returnTime?: number;
+  /** card-return only: the card whose sin bin ended. */
+  cardId?: string;
   offPlayerId?: string;
   onPlayerId?: string;
   half?: number;
   matchTime?: number;
 }
 
+/** A player in a matchday squad as used on the live screen (team pool player or roster placeholder). */
+export interface MatchSquadPlayer {
+  id: string;
+  number: number;
+  name: string;
+  position: string;
+  isStarter: boolean;
+  team: 'home' | 'away';
+}
+
+/** Live-only state kept on a 'playing' match so it can be resumed after a crash or cleared browser storage. */
+export interface LiveMatchState {
+  clockRuns: ClockRun[];
+  /** Matchday squads as used on the live screen. */
+  players: MatchSquadPlayer[];
+  /** Full event stream including corrections and tackles (the saved log only has the settled events). */
+  events: MatchEvent[];
+}
+
 export interface Match {
   id: string;
   homeTeamId: string;
@@ -84,7 +347,15 @@ export interface Match {
   homeScore: number;
   awayScore: number;
   halfDuration: number;
+  /** Competition name shown with the match (free text on older matches). */
   competition: string;
+  /** Competition this match is a fixture of, if any. */
+  competitionId?: string;
+  /** Tournament this match was drawn for, and its pool or knockout place there. */
+  tournamentId?: string;
+  tournamentStage?: TournamentStage;
+  /** UID of the calendar event this match was imported from, so importing the file again finds it. */
+  icalUid?: string;
   /** Location / venue for the match. */
   venue: string;
   referee: string;
@@ -104,8 +375,20 @@ export interface Match {
     playerTracking: boolean;
     cardTracking: boolean;
     substitutions: boolean;
+    /** Scoring rules used for this match. Absent on older matches (union rules apply). */
+    ruleSet?: RuleSet;
+    /** Period plan. Absent on older matches (built from the rule set and halfDuration). */
+    periods?: MatchPeriod[];
   };
   log: LogEvent[];
+  /** Matchday squad (player ids) of a completed match, counted for games played. Absent on older matches. */
+  playerIds?: string[];
+  /** Matchday squads (numbers, names, positions) of a completed match, for lineups in reports. Absent on older matches. */
+  squad?: MatchSquadPlayer[];
+  /** Seconds into the match recording at which each period kicked off, by period number (video chapter exports). */
+  videoOffsets?: Record<number, number>;
+  /** Autosaved live state while status is 'playing'; cleared when the match is completed. */
+  live?: LiveMatchState;
   createdAt: number;
   updatedAt: number;
 }
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { MatchEvent, ScoreEvent, SystemEvent } from './types';
+import { SEVENS_RULES } from './rules';
+import { buildPeriodPlan } from './periods';
+import { reduceMatchEvents, type MatchEventState } from './events';
+import { NEW_PERIOD_CLOCK, redoEvent, stoppedClock, undoEvent, type UndoableMatch, type UndoUpdate } from './undo';
+
+let clock = 0;
+const base = (id: string) => ({ id, timestamp: ++clock });
+const score = (id: string, team: 'home' | 'away', type: ScoreEvent['type'], points: number, half = 1): ScoreEvent => ({
+  ...base(id),
+  kind: 'score',
+  team,
+  type,
+  points,
+  half,
+  minute: 0,
+  matchTime: 0,
+});
+const system = (id: string, type: SystemEvent['type'], half = 1, periodClock?: SystemEvent['periodClock']): SystemEvent => ({ ...base(id), kind: 'system', type, half, matchTime: 0, periodClock });
+
+const periods = buildPeriodPlan(SEVENS_RULES, SEVENS_RULES.periodDuration);
+
+type LiveMatch = UndoableMatch & MatchEventState;
+
+const match = (events: MatchEvent[], extra: Partial<UndoableMatch> = {}): LiveMatch => ({
+  ...NEW_PERIOD_CLOCK,
+  events,
+  redoEvents: [],
+  ruleSet: SEVENS_RULES,
+  periods,
+  ...reduceMatchEvents(events, SEVENS_RULES),
+  ...extra,
+});
+
+// Apply an undo or redo the way the store does
+const apply = (m: LiveMatch, update: UndoUpdate | null): LiveMatch => {
+  if (!update) throw new Error('nothing to undo or redo');
+  return { ...m, ...update };
+};
+
+describe('undoEvent and redoEvent', () => {
+  it('undoes any number of actions, latest first, and redoes them in order', () => {
+    let m = match([system('start', 'match-start'), score('t1', 'home', 'try', 5), score('c1', 'home', 'conversion', 2), score('t2', 'away', 'try', 5)]);
+    m = apply(m, undoEvent(m));
+    m = apply(m, undoEvent(m));
+    expect([m.homeScore, m.awayScore]).toEqual([5, 0]);
+    m = apply(m, undoEvent(m));
+    expect(m.events.map((e) => e.id)).toEqual(['start']);
+    expect(m.redoEvents.map((e) => e.id)).toEqual(['t2', 'c1', 't1']);
+    expect(undoEvent(m)).toBeNull();
+
+    m = apply(m, redoEvent(m));
+    m = apply(m, redoEvent(m));
+    expect([m.homeScore, m.awayScore]).toEqual([7, 0]);
+    m = apply(m, redoEvent(m));
+    expect(m.events.map((e) => e.id)).toEqual(['start', 't1', 'c1', 't2']);
+    expect([m.homeScore, m.awayScore]).toEqual([7, 5]);
+    expect(redoEvent(m)).toBeNull();
+  });
+
+  it('puts back the clock of the period a half-time ended, and redo starts the period again', () => {
+    const periodClock = { clockRuns: [{ startedAt: 0, stoppedAt: 450_000 }], injuryTime: 60 };
+    let m = match([system('start', 'match-start'), score('t1', 'home', 'try', 5), system('ht', 'half-time', 1, periodClock)], { clockRuns: [{ startedAt: 500_000 }], isRunning: true });
+    expect(m.currentHalf).toBe(2);
+    m = apply(m, undoEvent(m, 510_000));
+    expect(m).toMatchObject({ currentHalf: 1, clockRuns: periodClock.clockRuns, elapsedSeconds: 450, injuryTime: 60, isRunning: false, homeScore: 5 });
+    m = apply(m, redoEvent(m, 520_000));
+    expect(m).toMatchObject({ currentHalf: 2, ...NEW_PERIOD_CLOCK });
+  });
+
+  it('starts the clock again when the deciding sudden-death score is undone, and stops it on redo', () => {
+    const extraTime = [system('start', 'match-start'), system('ht1', 'half-time', 1), system('ht2', 'half-time', 2)];
+    const winner = score('w', 'home', 'try', 5, 3);
+    // Recording the winner stopped the clock 90 seconds in
+    let m = match([...extraTime, winner], stoppedClock([{ startedAt: 0 }], 90_000));
+    m = apply(m, undoEvent(m, 100_000));
+    expect(m).toMatchObject({ isRunning: true, clockRuns: [{ startedAt: 0, stoppedAt: 90_000 }, { startedAt: 100_000 }], elapsedSeconds: 90 });
+    m = apply(m, redoEvent(m, 130_000));
+    expect(m).toMatchObject({ isRunning: false, elapsedSeconds: 120, homeScore: 5 });
+  });
+
+  it('leaves the clock alone when undoing any other score', () => {
+    const m = match([system('start', 'match-start'), score('t1', 'home', 'try', 5)], { clockRuns: [{ startedAt: 0, stoppedAt: 60_000 }], elapsedSeconds: 60 });
+    expect(undoEvent(m, 100_000)).not.toHaveProperty('clockRuns');
+  });
+});
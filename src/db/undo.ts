@@ -0,0 +1,103 @@
+/**
+ * Undo and redo for the live match in Rugby Scorer.
+ * Every action appends one event to the stream (see db/events.ts), so undo takes the last event off
+ * onto a redo stack and redo puts it back. The clock isn't part of the stream, so the events that
+ * moved it move it back: a half-time and the score that decides sudden death.
+ */
+
+import type { ClockRun, MatchEvent, MatchPeriod, RuleSet, ScoreEvent } from './types';
+import { reduceMatchEvents, type MatchEventState } from './events';
+import { getElapsedSeconds, isClockRunning, startClock, stopClock } from './clock';
+import { isSuddenDeathPeriod } from './periods';
+
+/** The match clock as the live screen keeps it. */
+export interface LiveClock {
+  /** Seconds on the clock this period; cached from clockRuns for rendering. */
+  elapsedSeconds: number;
+  injuryTime: number;
+  isRunning: boolean;
+  /** Wall-clock runs of the match clock in the current period (see db/clock.ts). */
+  clockRuns: ClockRun[];
+}
+
+/** What undo and redo read from the live match. */
+export interface UndoableMatch extends LiveClock {
+  events: MatchEvent[];
+  /** Undone events, most recent last. */
+  redoEvents: MatchEvent[];
+  ruleSet: RuleSet;
+  periods: MatchPeriod[];
+  scoreEvents: ScoreEvent[];
+}
+
+/** Live match update after an undo or redo: the new stream, what is derived from it and any clock change. */
+export type UndoUpdate = Pick<UndoableMatch, 'events' | 'redoEvents'> & MatchEventState & Partial<LiveClock>;
+
+/** Clock at the start of a period. */
+export const NEW_PERIOD_CLOCK: LiveClock = {
+  elapsedSeconds: 0,
+  injuryTime: 0,
+  isRunning: false,
+  clockRuns: [],
+};
+
+/** Clock update that stops the match clock, freezing elapsed time at the moment it stopped. */
+export function stoppedClock(runs: ClockRun[], now: number = Date.now()): Pick<LiveClock, 'clockRuns' | 'isRunning' | 'elapsedSeconds'> {
+  const clockRuns = stopClock(runs, now);
+  return { clockRuns, isRunning: false, elapsedSeconds: getElapsedSeconds(clockRuns, now) };
+}
+
+/** Clock update that starts the match clock (again) from where it stopped. */
+export function startedClock(runs: ClockRun[], now: number = Date.now()): Pick<LiveClock, 'clockRuns' | 'isRunning' | 'elapsedSeconds'> {
+  const clockRuns = startClock(runs, now);
+  return { clockRuns, isRunning: true, elapsedSeconds: getElapsedSeconds(clockRuns, now) };
+}
+
+/** Sudden-death extra time: a score that counts (new, or a pending one approved) ends the match, so the clock stops. */
+export function decidesSuddenDeath(match: Pick<UndoableMatch, 'periods' | 'scoreEvents'>, event: MatchEvent): boolean {
+  if (event.kind === 'score') return !event.pending && event.points > 0 && isSuddenDeathPeriod(match.periods, event.half);
+  if (event.kind !== 'correction' || event.action !== 'approve') return false;
+  const target = match.scoreEvents.find((e) => e.id === event.eventId);
+  return target != null && target.points > 0 && isSuddenDeathPeriod(match.periods, target.half);
+}
+
+/**
+ * Take the last event off the stream, onto the redo stack; null when only the match start is left.
+ * Undoing a half-time puts back the clock of the period it ended; undoing the deciding sudden-death
+ * score starts the clock again, as recording it stopped it.
+ */
+export function undoEvent(match: UndoableMatch, now: number = Date.now()): UndoUpdate | null {
+  const last = match.events[match.events.length - 1];
+  if (!last || match.events.length <= 1) return null;
+  const events = match.events.slice(0, -1);
+  const periodClock = last.kind === 'system' && last.type === 'half-time' ? last.periodClock : undefined;
+  return {
+    events,
+    ...reduceMatchEvents(events, match.ruleSet),
+    redoEvents: [...match.redoEvents, last],
+    ...(periodClock
+      ? {
+          clockRuns: periodClock.clockRuns,
+          isRunning: isClockRunning(periodClock.clockRuns),
+          elapsedSeconds: getElapsedSeconds(periodClock.clockRuns, now),
+          injuryTime: periodClock.injuryTime,
+        }
+      : {}),
+    ...(decidesSuddenDeath(match, last) && !match.isRunning ? startedClock(match.clockRuns, now) : {}),
+  };
+}
+
+/** Put the last undone event back on the stream, as if it were recorded again; null when there is none. */
+export function redoEvent(match: UndoableMatch, now: number = Date.now()): UndoUpdate | null {
+  const next = match.redoEvents[match.redoEvents.length - 1];
+  if (!next) return null;
+  const events = [...match.events, next];
+  const isHalfTime = next.kind === 'system' && next.type === 'half-time';
+  return {
+    events,
+    ...reduceMatchEvents(events, match.ruleSet),
+    redoEvents: match.redoEvents.slice(0, -1),
+    ...(isHalfTime ? NEW_PERIOD_CLOCK : {}),
+    ...(decidesSuddenDeath(match, next) ? stoppedClock(match.clockRuns, now) : {}),
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import type { LogEvent } from './types';
+import { formatVideoTime, parseVideoTime, playedPeriods, srt, videoMarkers, webVtt, youtubeChapters } from './videoChapters';
+import { testMatch } from './testFixtures';
+
+describe('video times', () => {
+  it('reads m:ss, h:mm:ss and plain seconds', () => {
+    expect(parseVideoTime('2:05')).toBe(125);
+    expect(parseVideoTime('1:02:05')).toBe(3725);
+    expect(parseVideoTime(' 90 ')).toBe(90);
+    expect(parseVideoTime('2:xx')).toBeNull();
+    expect(parseVideoTime('1:2:3:4')).toBeNull();
+  });
+
+  it('writes hours only from an hour', () => {
+    expect(formatVideoTime(125)).toBe('2:05');
+    expect(formatVideoTime(3725)).toBe('1:02:05');
+  });
+});
+
+describe('videoMarkers', () => {
+  const log: LogEvent[] = [
+    { id: 't1', timestamp: 1, type: 'score', team: 'home', scoreType: 'try', points: 5, playerId: 'ana', half: 1, matchTime: 300 },
+    { id: 'c1', timestamp: 2, type: 'score', team: 'home', scoreType: 'conversion', points: 2, playerId: 'ana', half: 1, matchTime: 360 },
+    { id: 'yc', timestamp: 3, type: 'card', team: 'away', cardType: 'yellow', playerId: 'cal', half: 1, matchTime: 600 },
+    { id: 't2', timestamp: 4, type: 'score', team: 'away', scoreType: 'try', points: 5, half: 2, matchTime: 2500 },
+  ];
+
+  it('places tries and cards at the period offset plus match time', () => {
+    const match = testMatch({ log, videoOffsets: { 1: 120 } });
+    expect(playedPeriods(log)).toEqual([1, 2]);
+    expect(videoMarkers(match, { ana: 'Ana', cal: 'Cal' })).toEqual([
+      { seconds: 120, text: 'Kick-off – 1st Half' },
+      { seconds: 420, text: 'Try – Ana (Harlow) 5–0' },
+      { seconds: 720, text: 'Yellow card – Cal (Ashford)' },
+    ]);
+  });
+});
+
+describe('youtubeChapters', () => {
+  it('starts at 0:00 and joins markers under 10 seconds apart', () => {
+    expect(
+      youtubeChapters([
+        { seconds: 30, text: 'Kick-off' },
+        { seconds: 400, text: 'Try' },
+        { seconds: 405, text: 'Yellow card' },
+        { seconds: 3700, text: 'Try' },
+      ])
+    ).toBe('0:00 Pre-match\n0:30 Kick-off\n6:40 Try / Yellow card\n1:01:40 Try\n');
+  });
+
+  it('moves a first chapter under 10 seconds in to 0:00', () => {
+    expect(youtubeChapters([{ seconds: 4, text: 'Kick-off' }, { seconds: 60, text: 'Try' }])).toBe('0:00 Kick-off\n1:00 Try\n');
+    expect(youtubeChapters([])).toBe('0:00 Pre-match\n');
+  });
+});
+
+describe('subtitles', () => {
+  const markers = [
+    { seconds: 62.5, text: 'Try' },
+    { seconds: 65, text: 'Conversion' },
+    { seconds: 3600, text: 'Full time' },
+  ];
+
+  it('writes WebVTT cues that end at the next event or after six seconds', () => {
+    expect(webVtt(markers)).toBe(
+      'WEBVTT\n\n1\n00:01:02.500 --> 00:01:05.000\nTry\n\n2\n00:01:05.000 --> 00:01:11.000\nConversion\n\n3\n01:00:00.000 --> 01:00:06.000\nFull time\n'
+    );
+  });
+
+  it('writes SRT cues with a decimal comma', () => {
+    expect(srt(markers.slice(0, 1))).toBe('1\n00:01:02,500 --> 00:01:08,500\nTry\n');
+  });
+});
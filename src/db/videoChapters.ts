@@ -0,0 +1,124 @@
+/**
+ * Video chapter and subtitle exports for Rugby Scorer.
+ * With the recording time at which each period kicked off (Match.videoOffsets), every try, card and
+ * substitution is placed on the video at offset + matchTime and written as YouTube chapters, WebVTT or SRT.
+ * Match time is clock time, so stoppages while the clock is paused shift later events within a period.
+ */
+
+import type { LogEvent, Match } from './types';
+import { countsAsTry, getMatchRuleSet, getScoreTypeRule } from './rules';
+import { getMatchPeriods, getPeriodLabel } from './periods';
+
+/** One moment on the recording. */
+export interface VideoMarker {
+  /** Seconds from the start of the recording. */
+  seconds: number;
+  text: string;
+}
+
+/** Seconds a subtitle cue stays on screen (shorter when the next event follows sooner). */
+const CUE_SECONDS = 6;
+/** YouTube ignores chapters shorter than this. */
+const MIN_CHAPTER_SECONDS = 10;
+
+/** Parse "m:ss" or "h:mm:ss" (or plain seconds) into seconds; null when not a time. */
+export function parseVideoTime(text: string): number | null {
+  const parts = text.trim().split(':');
+  if (parts.length > 3 || parts.some((p) => !/^\d+$/.test(p))) return null;
+  return parts.reduce((total, p) => total * 60 + parseInt(p, 10), 0);
+}
+
+/** "m:ss", or "h:mm:ss" from an hour (YouTube chapter style). */
+export function formatVideoTime(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
+
+/** Periods that appear in the log (1…last), i.e. the ones needing a video offset. */
+export function playedPeriods(log: LogEvent[]): number[] {
+  const last = Math.max(1, ...log.map((e) => e.half ?? 1));
+  return Array.from({ length: last }, (_, i) => i + 1);
+}
+
+/**
+ * Period starts, tries, cards and substitutions on the recording, in order. Events in periods without
+ * an offset are left out. Scores on tries are the running score after the try.
+ */
+export function videoMarkers(match: Match, playerNames: Record<string, string>): VideoMarker[] {
+  const offsets = match.videoOffsets ?? {};
+  const ruleSet = getMatchRuleSet(match);
+  const periods = getMatchPeriods(match);
+  const name = (id: string | undefined) => (id && playerNames[id]) || '';
+  const teamName = (team: LogEvent['team']) => (team === 'home' ? match.homeTeamName : team === 'away' ? match.awayTeamName : '');
+  const markers: VideoMarker[] = Object.entries(offsets).map(([half, seconds]) => ({
+    seconds,
+    text: Number(half) === 1 ? `Kick-off – ${getPeriodLabel(periods, 1)}` : getPeriodLabel(periods, Number(half)),
+  }));
+  let home = 0;
+  let away = 0;
+  for (const ev of [...match.log].sort((a, b) => a.timestamp - b.timestamp)) {
+    if (ev.type === 'score' && !ev.pending && ev.points != null) {
+      if (ev.team === 'home') home += ev.points;
+      else if (ev.team === 'away') away += ev.points;
+    }
+    const offset = offsets[ev.half ?? 1];
+    if (offset == null || ev.matchTime == null) continue;
+    let text = '';
+    if (ev.type === 'score' && !ev.pending && countsAsTry(ruleSet, ev.scoreType)) {
+      const rule = getScoreTypeRule(ruleSet, ev.scoreType);
+      const scorer = rule?.teamOnly ? teamName(ev.team) : [name(ev.playerId), `(${teamName(ev.team)})`].filter(Boolean).join(' ');
+      text = `${rule?.label ?? 'Try'} – ${scorer} ${home}–${away}`;
+    } else if (ev.type === 'card') {
+      text = `${ev.cardType === 'red' ? 'Red' : 'Yellow'} card – ${[name(ev.playerId), `(${teamName(ev.team)})`].filter(Boolean).join(' ')}`;
+    } else if (ev.type === 'substitution') {
+      text = `Substitution – ${name(ev.offPlayerId) || '?'} off, ${name(ev.onPlayerId) || '?'} on (${teamName(ev.team)})`;
+    }
+    if (text) markers.push({ seconds: offset + ev.matchTime, text });
+  }
+  return markers.sort((a, b) => a.seconds - b.seconds);
+}
+
+/**
+ * YouTube description chapters: one "m:ss Title" line each, starting at 0:00 as YouTube requires.
+ * Markers within 10 seconds of the previous chapter are joined onto it.
+ */
+export function youtubeChapters(markers: VideoMarker[]): string {
+  const chapters: VideoMarker[] = [];
+  for (const marker of markers) {
+    const prev = chapters[chapters.length - 1];
+    if (prev && marker.seconds - prev.seconds < MIN_CHAPTER_SECONDS) prev.text += ` / ${marker.text}`;
+    else chapters.push({ ...marker });
+  }
+  if (chapters.length === 0 || chapters[0].seconds >= MIN_CHAPTER_SECONDS) chapters.unshift({ seconds: 0, text: 'Pre-match' });
+  else chapters[0].seconds = 0;
+  return chapters.map((c) => `${formatVideoTime(c.seconds)} ${c.text}`).join('\n') + '\n';
+}
+
+function cueTime(seconds: number, decimal: '.' | ','): string {
+  const ms = Math.round(seconds * 1000);
+  const h = String(Math.floor(ms / 3600000)).padStart(2, '0');
+  const m = String(Math.floor((ms % 3600000) / 60000)).padStart(2, '0');
+  const s = String(Math.floor((ms % 60000) / 1000)).padStart(2, '0');
+  return `${h}:${m}:${s}${decimal}${String(ms % 1000).padStart(3, '0')}`;
+}
+
+function cues(markers: VideoMarker[], decimal: '.' | ','): string[] {
+  return markers.map((m, i) => {
+    const next = markers[i + 1]?.seconds;
+    const end = next != null && next > m.seconds ? Math.min(m.seconds + CUE_SECONDS, next) : m.seconds + CUE_SECONDS;
+    return `${i + 1}\n${cueTime(m.seconds, decimal)} --> ${cueTime(end, decimal)}\n${m.text}\n`;
+  });
+}
+
+/** WebVTT subtitles, one cue per marker. */
+export function webVtt(markers: VideoMarker[]): string {
+  return ['WEBVTT\n', ...cues(markers, '.')].join('\n');
+}
+
+/** SRT subtitles, one cue per marker. */
+export function srt(markers: VideoMarker[]): string {
+  return cues(markers, ',').join('\n');
+}